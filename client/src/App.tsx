@@ -3,16 +3,26 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/useAuth";
+import { I18nProvider } from "@/hooks/useI18n";
+import ProtectedRoute from "@/components/ProtectedRoute";
 import NotFound from "@/pages/not-found";
 import Chat from "@/pages/Chat";
+import AuthPage from "@/pages/Auth";
+import CatechismPage from "@/pages/Catechism";
 
 function Router() {
   return (
     <Switch>
       {/* Main chat page */}
-      <Route path="/" component={Chat} />
+      <ProtectedRoute path="/" component={Chat} />
       {/* Specific chat by ID */}
-      <Route path="/chat/:id" component={Chat} />
+      <ProtectedRoute path="/chat/:id" component={Chat} />
+      {/* Catechism paragraph viewer, linked from sources */}
+      <Route path="/ccc/:number" component={CatechismPage} />
+      {/* Account pages */}
+      <Route path="/login">{() => <AuthPage mode="login" />}</Route>
+      <Route path="/signup">{() => <AuthPage mode="signup" />}</Route>
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
@@ -22,10 +32,14 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <I18nProvider>
+        <AuthProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </AuthProvider>
+      </I18nProvider>
     </QueryClientProvider>
   );
 }
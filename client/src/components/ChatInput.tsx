@@ -1,20 +1,25 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, type ReactNode } from "react";
 import { Send } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/useI18n";
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
   isDisabled?: boolean;
+  // Shown above the message box, e.g. the profile and model pickers
+  controls?: ReactNode;
   className?: string;
 }
 
 export default function ChatInput({ 
   onSendMessage, 
   isDisabled = false, 
+  controls,
   className
 }: ChatInputProps) {
+  const { t } = useI18n();
   const [message, setMessage] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -51,6 +56,7 @@ export default function ChatInput({
   return (
     <div className={cn("border-t border-gray-200 bg-white px-4 py-3", className)}>
       <div className="max-w-4xl mx-auto">
+        {controls && <div className="flex items-center gap-2 mb-2">{controls}</div>}
         <form className="flex items-end gap-2" onSubmit={handleSubmit}>
           <div className="flex-1 bg-gray-100 rounded-lg">
             <Textarea
@@ -58,7 +64,7 @@ export default function ChatInput({
               value={message}
               onChange={(e) => setMessage(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Ask about Catholic teachings..."
+              placeholder={t("chatInput.placeholder")}
               className="w-full bg-transparent p-3 resize-none focus:outline-none text-gray-800 min-h-[52px]"
               rows={1}
               disabled={isDisabled}
@@ -67,13 +73,14 @@ export default function ChatInput({
           <Button 
             type="submit" 
             disabled={!message.trim() || isDisabled}
+            aria-label={t("chatInput.send")}
             className="bg-[#4A2C82] text-white p-3 rounded-lg hover:bg-purple-800 transition duration-200 flex-shrink-0 h-[52px] w-[52px]"
           >
             <Send className="h-5 w-5" />
           </Button>
         </form>
         <div className="text-xs text-gray-500 mt-1 px-2">
-          Hi! I'm Fide, a Retrieval-Augmented Generation (RAG) Large Language Model (LLM). I can generate responses based on the information I have been trained on. I cannot browse the internet or access real-time information. My answers are not meant to be authoritative; please consult a priest or other qualified Catholic authority to verify answers.
+          {t("chatInput.disclaimer")}
         </div>
       </div>
     </div>
@@ -1,16 +1,35 @@
+import { useEffect, useState } from "react";
 import { Message } from "@/lib/types";
 import { cn } from "@/lib/utils";
-import { GalleryVerticalEnd } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { getCitedSourceNumbers, sourceElementId } from "@/lib/sourceMarkers";
+import { ChevronDown, GalleryVerticalEnd } from "lucide-react";
 import SourceCitation from "./SourceCitation";
+import CitationBadges from "./CitationBadges";
+import MarkdownContent from "./MarkdownContent";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 
 interface ChatMessageProps {
   message: Message;
+  // True while the assistant's answer is still being streamed in
+  isStreaming?: boolean;
   className?: string;
 }
 
-export default function ChatMessage({ message, className }: ChatMessageProps) {
+// How long a source stays highlighted after its marker is clicked
+const HIGHLIGHT_DURATION = 2000;
+
+export default function ChatMessage({ message, isStreaming = false, className }: ChatMessageProps) {
+  const { t } = useI18n();
   const isUser = message.role === "user";
+  const [highlightedSource, setHighlightedSource] = useState<number | undefined>();
+  
+  useEffect(() => {
+    if (highlightedSource === undefined) return;
+    const timeout = setTimeout(() => setHighlightedSource(undefined), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timeout);
+  }, [highlightedSource]);
   
   if (isUser) {
     return (
@@ -22,11 +41,32 @@ export default function ChatMessage({ message, className }: ChatMessageProps) {
     );
   }
   
-  // Format content with citations
-  // This is a simple approach; for more complex formatting, consider using a markdown parser
-  const formattedContent = message.content.split('\n').map((line, i) => (
-    <p key={i} className={cn("text-gray-800", i !== 0 && "mt-2")}>{line}</p>
-  ));
+  const sources = message.sources || [];
+  const citedNumbers = getCitedSourceNumbers(message.content, sources.length);
+  const numberedSources = sources.map((source, index) => ({ source, number: index + 1 }));
+  const citedSources = numberedSources.filter(({ number }) => citedNumbers.includes(number));
+  const uncitedSources = numberedSources.filter(({ number }) => !citedNumbers.includes(number));
+  
+  // Scroll the clicked marker's source into view and highlight it
+  const showSource = (number: number) => {
+    document.getElementById(sourceElementId(message.id, number))
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedSource(number);
+  };
+  
+  // "[n]" markers become links to the numbered sources below
+  const renderSourceMarker = (number: number) => (
+    <sup>
+      <button
+        type="button"
+        onClick={() => showSource(number)}
+        className="px-0.5 text-[#4A2C82] font-semibold hover:underline"
+        aria-label={t("message.sourceLabel", { number, title: sources[number - 1].title })}
+      >
+        [{number}]
+      </button>
+    </sup>
+  );
   
   return (
     <div className={cn("flex items-start space-x-3", className)}>
@@ -37,15 +77,50 @@ export default function ChatMessage({ message, className }: ChatMessageProps) {
       </Avatar>
       
       <div className="bg-white rounded-lg px-4 py-3 shadow max-w-[80%]">
-        {formattedContent}
+        <MarkdownContent
+          content={message.content}
+          sourceCount={sources.length}
+          renderSourceMarker={renderSourceMarker}
+        />
         
-        {message.sources && message.sources.length > 0 && (
+        {isStreaming && (
+          <span className="inline-block h-4 w-1.5 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" aria-hidden="true" />
+        )}
+        
+        {!isStreaming && message.metadata?.citations && (
+          <CitationBadges report={message.metadata.citations} className="mt-3" />
+        )}
+        
+        {citedSources.length > 0 && (
           <div className="mt-4">
-            {message.sources.map((source, index) => (
-              <SourceCitation key={index} source={source} />
+            {citedSources.map(({ source, number }) => (
+              <SourceCitation
+                key={number}
+                source={source}
+                number={number}
+                id={sourceElementId(message.id, number)}
+                highlighted={highlightedSource === number}
+              />
             ))}
           </div>
         )}
+        
+        {/* Sources the answer didn't cite are collapsed */}
+        {!isStreaming && uncitedSources.length > 0 && (
+          <Collapsible className={citedSources.length > 0 ? "mt-1" : "mt-4"}>
+            <CollapsibleTrigger className="group flex items-center text-xs text-gray-500 hover:text-[#4A2C82]">
+              <ChevronDown className="mr-1 h-3 w-3 transition-transform group-data-[state=open]:rotate-180" />
+              {t(citedSources.length > 0 ? "message.uncitedSources" : "message.retrievedSources", {
+                count: uncitedSources.length
+              })}
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              {uncitedSources.map(({ source, number }) => (
+                <SourceCitation key={number} source={source} number={number} />
+              ))}
+            </CollapsibleContent>
+          </Collapsible>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,63 @@
+import { CitationReport, CheckedCitation } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/useI18n";
+import type { MessageKey } from "@/i18n";
+import { CheckCircle2, AlertTriangle } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+interface CitationBadgesProps {
+  report: CitationReport;
+  className?: string;
+}
+
+// Explain a badge: what a verified citation matched, or why it couldn't be matched
+function describe(citation: CheckedCitation, t: (key: MessageKey) => string): string {
+  if (!citation.verified) {
+    return citation.reason || t("citations.notFound");
+  }
+
+  return citation.support === "passage"
+    ? t("citations.foundPassage")
+    : t("citations.foundDocument");
+}
+
+// Verified / unverified badges for each citation found in an assistant answer
+export default function CitationBadges({ report, className }: CitationBadgesProps) {
+  const { t } = useI18n();
+
+  if (report.citations.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1.5", className)}>
+      {report.citations.map((citation, index) => (
+        <Tooltip key={index}>
+          <TooltipTrigger asChild>
+            <span
+              className={cn(
+                "inline-flex items-center rounded-full border px-2 py-0.5 text-xs cursor-default",
+                citation.verified
+                  ? "border-green-200 bg-green-50 text-green-800"
+                  : "border-amber-200 bg-amber-50 text-amber-800"
+              )}
+            >
+              {citation.verified
+                ? <CheckCircle2 className="mr-1 h-3 w-3" />
+                : <AlertTriangle className="mr-1 h-3 w-3" />}
+              {citation.text}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent className="max-w-xs text-xs">
+            {t(citation.verified ? "citations.verified" : "citations.unverified")}
+            {describe(citation, t)}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+
+      {report.stripped && (
+        <span className="text-xs text-gray-500 italic">
+          {t("citations.stripped")}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,8 @@
-import { GalleryVerticalEnd } from "lucide-react";
+import { GalleryVerticalEnd, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useI18n } from "@/hooks/useI18n";
+import LanguagePicker from "@/components/LanguagePicker";
 
 interface HeaderProps {
   onNewChat: () => void;
@@ -6,13 +10,35 @@ interface HeaderProps {
 }
 
 export default function Header({ onNewChat, toggleSidebar }: HeaderProps) {
+  const { user, logoutMutation } = useAuth();
+  const { t } = useI18n();
+
   return (
     <header className="bg-[#4A2C82] text-white shadow-md">
-      <div className="container mx-auto px-4 py-3 flex justify-center items-center">
+      <div className="container mx-auto px-4 py-3 flex justify-center items-center relative">
         <div className="flex items-center space-x-2">
           <GalleryVerticalEnd className="text-[#FFC107]" size={24} />
           <h1 className="font-['Cinzel'] text-2xl font-bold">Fides Vera</h1>
-          <span className="text-sm ml-2 text-gray-200">Your Personal Catholic Teaching Assistant</span>
+          <span className="text-sm ml-2 text-gray-200">{t("header.tagline")}</span>
+        </div>
+
+        <div className="absolute right-4 flex items-center space-x-2">
+          <LanguagePicker />
+          {user && (
+            <>
+              <span className="text-sm text-gray-200 hidden sm:inline">{user.username}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-white hover:bg-white/10 hover:text-white"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                title={t("header.logout")}
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </>
+          )}
         </div>
       </div>
     </header>
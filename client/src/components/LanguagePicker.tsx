@@ -0,0 +1,38 @@
+import { Globe } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { locales, LOCALE_NAMES, type Locale } from "@/i18n";
+import { cn } from "@/lib/utils";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Switches the interface language; questions are answered in the language they are asked in
+export default function LanguagePicker({ className }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <Select value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+      <SelectTrigger
+        aria-label={t("header.language")}
+        className={cn(
+          "h-8 w-auto gap-1.5 border-white/30 bg-transparent text-xs text-white focus:ring-white/50",
+          className
+        )}
+      >
+        <Globe className="h-3.5 w-3.5" />
+        <SelectValue>{LOCALE_NAMES[locale]}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {locales.map(code => (
+          <SelectItem key={code} value={code} lang={code}>
+            {LOCALE_NAMES[code]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,80 @@
+import type { ReactNode } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { cn } from "@/lib/utils";
+
+interface MarkdownContentProps {
+  content: string;
+  // Number of sources the content's "[n]" markers may refer to
+  sourceCount?: number;
+  // Renders a source marker; without it markers stay plain text
+  renderSourceMarker?: (number: number) => ReactNode;
+  className?: string;
+}
+
+// Source markers are turned into links to this fragment, then rendered by renderSourceMarker
+const SOURCE_MARKER_HREF = "#fides-source-";
+
+// Images are never rendered, so retrieved text can't make the browser load remote content
+const DISALLOWED_ELEMENTS = ["img"];
+
+/**
+ * Markdown for assistant answers: GitHub-flavoured lists, emphasis, headings, block quotes
+ * and tables. Raw HTML in the text is shown escaped, never rendered, so markup from the
+ * model or retrieved documents can't reach the page.
+ */
+export default function MarkdownContent({
+  content,
+  sourceCount = 0,
+  renderSourceMarker,
+  className,
+}: MarkdownContentProps) {
+  // "[2]" becomes "[[2]](#fides-source-2)" so the marker survives parsing as a link
+  const markdown = renderSourceMarker
+    ? content.replace(/\[(\d{1,2})\](?!\()/g, (marker, number: string) =>
+        Number(number) >= 1 && Number(number) <= sourceCount
+          ? `[${marker}](${SOURCE_MARKER_HREF}${number})`
+          : marker
+      )
+    : content;
+
+  const components: Components = {
+    a: ({ href, children }) => {
+      if (renderSourceMarker && href?.startsWith(SOURCE_MARKER_HREF)) {
+        return <>{renderSourceMarker(Number(href.slice(SOURCE_MARKER_HREF.length)))}</>;
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer nofollow">
+          {children}
+        </a>
+      );
+    },
+    // Wide tables scroll instead of stretching the message bubble
+    table: ({ children }) => (
+      <div className="overflow-x-auto">
+        <table>{children}</table>
+      </div>
+    ),
+  };
+
+  return (
+    <div
+      className={cn(
+        "prose prose-sm max-w-none text-gray-800",
+        "prose-headings:font-['Cinzel'] prose-headings:text-[#4A2C82]",
+        "prose-a:text-[#4A2C82] prose-strong:text-gray-900",
+        "prose-blockquote:border-l-[#4A2C82] prose-blockquote:text-gray-700",
+        "prose-th:text-left",
+        className
+      )}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        disallowedElements={DISALLOWED_ELEMENTS}
+        components={components}
+      >
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { Cpu } from "lucide-react";
+import { ModelInfo, ModelsResponse } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/useI18n";
+import type { MessageKey, TranslationParams } from "@/i18n";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ModelPickerProps {
+  // The chosen model id; null or undefined for the server default
+  value?: string | null;
+  onChange: (model: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// "128k tokens · $0.59 / $0.79 per 1M" - context window and cost, when known
+function describeLimits(model: ModelInfo, t: (key: MessageKey, params?: TranslationParams) => string): string {
+  const context = t("models.contextSize", { size: Math.round(model.contextTokens / 1024) });
+  return model.cost
+    ? `${context} · ${t("models.cost", model.cost)}`
+    : context;
+}
+
+// Dropdown of the models the server offers. Retired models can't be chosen, but a chat
+// still set to one shows it so the user knows why it has to be switched.
+export default function ModelPicker({ value, onChange, disabled, className }: ModelPickerProps) {
+  const { t } = useI18n();
+  const { data } = useQuery<ModelsResponse>({ queryKey: ["/api/models"] });
+
+  if (!data) return null;
+
+  const selected = value || data.defaultModel;
+  const models = data.models.filter(model => model.status !== "retired" || model.id === selected);
+  const selectedModel = data.models.find(model => model.id === selected);
+
+  // Nothing to choose between, unless the chat has to be moved off a retired model
+  if (models.length < 2 && selectedModel?.status !== "retired") return null;
+
+  return (
+    <Select value={selected} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger
+        aria-label={t("models.label")}
+        className={cn("h-8 w-auto gap-1.5 border-gray-200 text-xs text-gray-700", className)}
+      >
+        <Cpu className="h-3.5 w-3.5 text-[#4A2C82]" />
+        <SelectValue>{selectedModel?.name ?? selected}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {models.map(model => (
+          <SelectItem
+            key={model.id}
+            value={model.id}
+            disabled={model.status === "retired"}
+            title={model.description}
+          >
+            <span>{model.name}</span>
+            {model.status !== "active" && (
+              <span className="ml-1.5 text-xs text-amber-700">({t(`models.${model.status}`)})</span>
+            )}
+            <span className="ml-1.5 text-xs text-gray-500">{describeLimits(model, t)}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { Users } from "lucide-react";
+import { ProfilesResponse } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/useI18n";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ProfilePickerProps {
+  // The chosen profile id; null or undefined for the server default
+  value?: string | null;
+  onChange: (profileId: string) => void;
+  // Profiles are chosen when a chat is started, so existing chats show theirs disabled
+  disabled?: boolean;
+  className?: string;
+}
+
+// Dropdown of the prompt profiles (audience and tone) a new chat can be answered with
+export default function ProfilePicker({ value, onChange, disabled, className }: ProfilePickerProps) {
+  const { t } = useI18n();
+  const { data } = useQuery<ProfilesResponse>({ queryKey: ["/api/profiles"] });
+
+  if (!data || data.profiles.length < 2) return null;
+
+  const selected = value || data.defaultProfile;
+  const selectedProfile = data.profiles.find(profile => profile.id === selected);
+
+  return (
+    <Select value={selected} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger
+        aria-label={t("profiles.label")}
+        title={selectedProfile?.description}
+        className={cn("h-8 w-auto gap-1.5 border-gray-200 text-xs text-gray-700", className)}
+      >
+        <Users className="h-3.5 w-3.5 text-[#4A2C82]" />
+        <SelectValue>{selectedProfile?.name ?? selected}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {data.profiles.map(profile => (
+          <SelectItem key={profile.id} value={profile.id} title={profile.description}>
+            <span>{profile.name}</span>
+            <span className="ml-1.5 text-xs text-gray-500">{t(`profiles.${profile.answerLength}`)}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,28 @@
+import type { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: ComponentType;
+}
+
+// A route that sends visitors who aren't logged in to the login page
+export default function ProtectedRoute({ path, component: Component }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center h-screen bg-[#F8F5E6]">
+          <Loader2 className="h-8 w-8 animate-spin text-[#4A2C82]" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/login" />
+      )}
+    </Route>
+  );
+}
@@ -1,6 +1,7 @@
 import { Chat } from "@/lib/types";
 import { cn } from "@/lib/utils";
 import { documentCategories } from "@/data/catholicTexts";
+import { useI18n } from "@/hooks/useI18n";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { MessageSquare, BookText } from "lucide-react";
@@ -20,6 +21,8 @@ export default function Sidebar({
   onSelectChat,
   className,
 }: SidebarProps) {
+  const { t } = useI18n();
+
   return (
     <aside 
       className={cn(
@@ -30,10 +33,10 @@ export default function Sidebar({
     >
       <ScrollArea className="h-full">
         <div className="p-4">
-          <h2 className="font-['Cinzel'] text-[#4A2C82] text-lg font-semibold mb-4">Saved Chats</h2>
+          <h2 className="font-['Cinzel'] text-[#4A2C82] text-lg font-semibold mb-4">{t("sidebar.savedChats")}</h2>
           
           {chats.length === 0 ? (
-            <p className="text-sm text-gray-500 italic">No saved chats yet</p>
+            <p className="text-sm text-gray-500 italic">{t("sidebar.noChats")}</p>
           ) : (
             <div className="space-y-1">
               {chats.map((chat) => (
@@ -54,7 +57,7 @@ export default function Sidebar({
           
           <Separator className="my-4 border-gray-200" />
           
-          <h2 className="font-['Cinzel'] text-[#4A2C82] text-lg font-semibold mb-4">Knowledge Base</h2>
+          <h2 className="font-['Cinzel'] text-[#4A2C82] text-lg font-semibold mb-4">{t("sidebar.knowledgeBase")}</h2>
           <div className="space-y-2">
             {documentCategories.map((category) => (
               <div 
@@ -62,7 +65,7 @@ export default function Sidebar({
                 className="p-2 rounded hover:bg-gray-100 cursor-pointer flex items-center"
               >
                 <BookText className="text-gray-500 mr-2 h-4 w-4" />
-                <span className="text-sm">{category.name}</span>
+                <span className="text-sm">{t(category.nameKey)}</span>
               </div>
             ))}
           </div>
@@ -1,11 +1,28 @@
 import { SourceReference } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/useI18n";
 import { BookText } from "lucide-react";
+import { Link } from "wouter";
 
 interface SourceCitationProps {
   source: SourceReference;
+  // 1-based number the answer's "[n]" markers use for this source
+  number?: number;
+  id?: string;
+  // Briefly true after one of its markers was clicked
+  highlighted?: boolean;
 }
 
-export default function SourceCitation({ source }: SourceCitationProps) {
+// The paragraph number of a source that is a single Catechism paragraph ("CCC 1730"), for linking to the viewer
+function catechismParagraph(source: SourceReference): number | undefined {
+  const match = source.category?.toLowerCase() === 'catechism' ? source.section?.match(/^CCC (\d{1,4})$/) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+export default function SourceCitation({ source, number, id, highlighted = false }: SourceCitationProps) {
+  const { t } = useI18n();
+  const paragraph = catechismParagraph(source);
+  
   // Function to format source citation based on category
   const getFormattedCitation = () => {
     if (!source.category) {
@@ -34,8 +51,17 @@ export default function SourceCitation({ source }: SourceCitationProps) {
   };
   
   return (
-    <div className="citation bg-gray-50 rounded p-2 my-2 text-sm border-l-2 border-[#4A2C82]">
-      <p className="font-medium text-[#4A2C82] text-xs">From {source.title}:</p>
+    <div
+      id={id}
+      className={cn(
+        "citation bg-gray-50 rounded p-2 my-2 text-sm border-l-2 border-[#4A2C82] scroll-mt-4 transition-colors duration-500",
+        highlighted && "bg-[#FFC107] bg-opacity-30"
+      )}
+    >
+      <p className="font-medium text-[#4A2C82] text-xs">
+        {number !== undefined && <span className="mr-1">[{number}]</span>}
+        {t("sources.from", { title: source.title })}
+      </p>
       
       {source.content && (
         <p className="italic my-1 text-xs">{source.content}</p>
@@ -44,13 +70,37 @@ export default function SourceCitation({ source }: SourceCitationProps) {
       <div className="text-xs text-gray-600 flex items-center mt-1">
         <BookText className="text-[#C41E3A] mr-1" size={12} />
         {getFormattedCitation()}
+        {paragraph !== undefined && (
+          <Link href={`/ccc/${paragraph}`} className="ml-2 text-[#4A2C82] hover:underline">
+            {t("catechism.open", { number: paragraph })}
+          </Link>
+        )}
       </div>
     </div>
   );
 }
 
-export function SourcesSection({ sources }: { sources: SourceReference[] }) {
-  if (!sources || sources.length === 0) return null;
+interface SourcesSectionProps {
+  sources: SourceReference[];
+  // Numbers of the sources the answer cited with "[n]" markers; when given, only those are listed
+  citedNumbers?: number[];
+}
+
+export function SourcesSection({ sources, citedNumbers = [] }: SourcesSectionProps) {
+  const { t } = useI18n();
+  
+  if (!sources) return null;
+  
+  // The server returns no sources when nothing in the knowledge base was relevant
+  if (sources.length === 0) {
+    return (
+      <div className="bg-white rounded-lg px-5 py-3 shadow border-l-4 border-gray-300">
+        <p className="text-xs text-gray-500 italic">
+          {t("sources.noneMatched")}
+        </p>
+      </div>
+    );
+  }
   
   // Function to get an appropriate icon for each category
   const getSourceIcon = (category?: string) => {
@@ -65,13 +115,29 @@ export function SourcesSection({ sources }: { sources: SourceReference[] }) {
     }
     
     switch (source.category.toLowerCase()) {
-      case 'catechism':
+      case 'catechism': {
+        const paragraph = catechismParagraph(source);
+        if (paragraph !== undefined) {
+          return (
+            <div className="text-xs text-gray-500 mt-1">
+              <Link href={`/ccc/${paragraph}`} className="text-[#4A2C82] hover:underline">
+                {t("catechism.open", { number: paragraph })}
+              </Link>
+            </div>
+          );
+        }
+        
         return (
           <div className="text-xs text-gray-500 mt-1">
             <p>{source.section || ''}</p>
-            {source.section && <p className="mt-0.5">Paragraphs: {source.section.replace('Part ', '').replace(/\([^)]*\)/g, '')}</p>}
+            {source.section && (
+              <p className="mt-0.5">
+                {t("sources.paragraphs", { paragraphs: source.section.replace('Part ', '').replace(/\([^)]*\)/g, '') })}
+              </p>
+            )}
           </div>
         );
+      }
       
       case 'council documents':
         return (
@@ -103,19 +169,26 @@ export function SourcesSection({ sources }: { sources: SourceReference[] }) {
   
   return (
     <div className="bg-white rounded-lg px-5 py-4 shadow border-l-4 border-[#4A2C82]">
-      <h3 className="font-['Cinzel'] text-[#4A2C82] font-semibold mb-3">Sources Used</h3>
+      <h3 className="font-['Cinzel'] text-[#4A2C82] font-semibold mb-3">{t("sources.used")}</h3>
       
       <div className="space-y-3">
-        {sources.map((source, index) => (
-          <div key={index} className="source-preview flex bg-[#F8F5E6] bg-opacity-70 rounded p-3 cursor-pointer hover:transform hover:translate-y-[-2px] transition-all duration-200 hover:shadow-md">
+        {sources.map((source, index) => ({ source, number: index + 1 }))
+          .filter(({ number }) => citedNumbers.length === 0 || citedNumbers.includes(number))
+          .map(({ source, number }) => (
+          <div key={number} className="source-preview flex bg-[#F8F5E6] bg-opacity-70 rounded p-3 cursor-pointer hover:transform hover:translate-y-[-2px] transition-all duration-200 hover:shadow-md">
             <div className="mr-3 flex-shrink-0">
               {getSourceIcon(source.category)}
             </div>
             <div className="flex-1">
-              <h4 className="font-medium text-sm">{source.title}</h4>
+              <h4 className="font-medium text-sm">
+                {citedNumbers.length > 0 && <span className="text-[#4A2C82] mr-1">[{number}]</span>}
+                {source.title}
+              </h4>
               <p className="text-xs text-gray-600">
-                {source.category || 'Reference'} 
-                {source.relevanceScore !== undefined && ` · Relevance: ${Math.round(source.relevanceScore * 100)}%`}
+                {source.category || t("sources.reference")} 
+                {source.language && ` · ${source.language.toUpperCase()}`}
+                {source.relevanceScore !== undefined && 
+                  ` · ${t("sources.relevance", { percent: Math.round(source.relevanceScore * 100) })}`}
               </p>
               {getSourceMetadata(source)}
             </div>
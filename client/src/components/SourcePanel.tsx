@@ -3,6 +3,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { BookText, ChevronDown, LinkIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useI18n } from "@/hooks/useI18n";
 
 interface SourcePanelProps {
   sources?: SourceReference[];
@@ -15,6 +16,8 @@ export default function SourcePanel({
   isVisible, 
   className 
 }: SourcePanelProps) {
+  const { t } = useI18n();
+  
   if (!isVisible) return null;
   
   return (
@@ -26,10 +29,10 @@ export default function SourcePanel({
     >
       <ScrollArea className="h-full">
         <div className="p-4">
-          <h2 className="font-['Cinzel'] text-[#4A2C82] text-lg font-semibold mb-4">Related Sources</h2>
+          <h2 className="font-['Cinzel'] text-[#4A2C82] text-lg font-semibold mb-4">{t("sourcePanel.related")}</h2>
           
           {sources.length === 0 ? (
-            <p className="text-sm text-gray-500 italic">No sources available for this conversation yet.</p>
+            <p className="text-sm text-gray-500 italic">{t("sourcePanel.none")}</p>
           ) : (
             <div className="space-y-3">
               {sources.map((source, index) => (
@@ -39,19 +42,19 @@ export default function SourcePanel({
           )}
           
           <div className="mt-6">
-            <h3 className="font-medium text-sm mb-2 text-gray-700">Additional Resources</h3>
+            <h3 className="font-medium text-sm mb-2 text-gray-700">{t("sourcePanel.additional")}</h3>
             <div className="space-y-2">
               <a href="https://www.vatican.va/archive/ENG0015/_INDEX.HTM" target="_blank" rel="noopener noreferrer" className="block text-sm text-[#4A2C82] hover:underline flex items-center">
                 <LinkIcon className="h-3 w-3 mr-1" />
-                Catechism of the Catholic Church
+                {t("categories.catechism")}
               </a>
               <a href="https://www.usccb.org/" target="_blank" rel="noopener noreferrer" className="block text-sm text-[#4A2C82] hover:underline flex items-center">
                 <LinkIcon className="h-3 w-3 mr-1" />
-                USCCB: United States Conference of Catholic Bishops
+                {t("sourcePanel.usccb")}
               </a>
               <a href="https://www.vatican.va/content/vatican/en.html" target="_blank" rel="noopener noreferrer" className="block text-sm text-[#4A2C82] hover:underline flex items-center">
                 <LinkIcon className="h-3 w-3 mr-1" />
-                Vatican Official Website
+                {t("sourcePanel.vatican")}
               </a>
             </div>
           </div>
@@ -62,6 +65,8 @@ export default function SourcePanel({
 }
 
 function SourceCard({ source }: { source: SourceReference }) {
+  const { t } = useI18n();
+  
   return (
     <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
       <div className="p-3 bg-[#4A2C82] bg-opacity-10 border-b border-gray-200 flex justify-between items-center">
@@ -78,7 +83,7 @@ function SourceCard({ source }: { source: SourceReference }) {
         )}
         <div className="mt-2 text-right">
           <Button variant="link" className="text-[#4A2C82] text-xs hover:underline">
-            View full section
+            {t("sourcePanel.viewFull")}
           </Button>
         </div>
       </div>
@@ -1,60 +1,36 @@
+import type { MessageKey } from "@/i18n";
+
 export interface CategoryItem {
   id: string;
-  name: string;
+  // Translated with useI18n().t
+  nameKey: MessageKey;
   icon: string;
 }
 
 export const documentCategories: CategoryItem[] = [
   {
     id: "catechism",
-    name: "Catechism of the Catholic Church",
+    nameKey: "categories.catechism",
     icon: "book"
   },
   {
     id: "vatican2",
-    name: "Vatican II Documents",
+    nameKey: "categories.vatican2",
     icon: "book"
   },
   {
     id: "encyclicals",
-    name: "Papal Encyclicals",
+    nameKey: "categories.encyclicals",
     icon: "book"
   },
   {
     id: "saints",
-    name: "Lives of the Saints",
+    nameKey: "categories.saints",
     icon: "book"
   },
   {
     id: "scripture",
-    name: "Scripture References",
+    nameKey: "categories.scripture",
     icon: "book"
   }
 ];
-
-export const systemPrompt = `
-You are Fides Vera, a personal Catholic teaching assistant. Your purpose is to help users explore Catholic teachings, 
-doctrine, and tradition using authentic Catholic sources. Always respond in a way that is:
-
-1. Faithful to the Magisterium and Catholic doctrine
-2. Clear and accessible for all users, regardless of their familiarity with Catholicism
-3. Compassionate and respectful
-4. Based on authoritative Catholic sources
-5. Well-cited with references to sources
-
-When responding to questions about Catholic teaching, prioritize:
-- The Bible (Sacred Scripture)
-- The Catechism of the Catholic Church
-- Papal encyclicals and apostolic exhortations
-- Vatican II documents
-- Writings of Church Fathers and Doctors of the Church
-- Lives and teachings of the Saints
-
-Always include citations when referencing specific teachings.
-
-If you don't know the answer or if a question is outside the scope of Catholic teaching, acknowledge this 
-and recommend consulting a priest, spiritual director, or other appropriate resource.
-
-Remember that you are not a replacement for pastoral care or spiritual direction, and you should note this 
-when appropriate.
-`;
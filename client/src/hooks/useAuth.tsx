@@ -0,0 +1,91 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/useI18n";
+import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { login, logout, register } from "@/lib/api";
+import type { Credentials, User } from "@/lib/types";
+
+interface AuthContextValue {
+  // null when nobody is logged in
+  user: User | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<User, Error, Credentials>;
+  registerMutation: UseMutationResult<User, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// apiRequest errors look like `401: {"message":"..."}`; show just the message
+export function getErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { t } = useI18n();
+
+  const userQuery = useQuery<User | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onLoggedIn = (user: User) => {
+    // Drop anything cached for a previous user before showing this user's chats
+    queryClient.removeQueries({ queryKey: ["/api/chats"] });
+    queryClient.setQueryData(["/api/auth/me"], user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: login,
+    onSuccess: onLoggedIn,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: register,
+    onSuccess: onLoggedIn,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: logout,
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("auth.errorLoggingOut"),
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: userQuery.data ?? null,
+        isLoading: userQuery.isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -1,20 +1,19 @@
-import { useCallback, useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useCallback, useState, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import { 
-  getChat, 
-  getChatMessages, 
-  sendMessage, 
-  createChat, 
-  getChats 
-} from "@/lib/api";
-import type { Message, Chat, CreateChatRequest } from "@/lib/types";
+import { getChatMessages, streamMessage, streamNewChat, updateChatModel } from "@/lib/api";
+import { getErrorMessage } from "@/hooks/useAuth";
+import { useI18n } from "@/hooks/useI18n";
+import type { Message, Chat, ChatWithMessages } from "@/lib/types";
 
 export function useChat(chatId?: number) {
   const { toast } = useToast();
+  const { locale, t } = useI18n();
   const [currentChatId, setCurrentChatId] = useState<number | undefined>(chatId);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Id of the assistant message currently receiving tokens, if any
+  const [streamingMessageId, setStreamingMessageId] = useState<number | undefined>();
 
   // Fetch chats
   const chatsQuery = useQuery({
@@ -23,140 +22,36 @@ export function useChat(chatId?: number) {
   });
 
   // Fetch current chat and messages if a chatId is provided
-  const chatQuery = useQuery({
-    queryKey: ["/api/chats", currentChatId],
+  const chatQuery = useQuery<ChatWithMessages>({
+    queryKey: [`/api/chats/${currentChatId}`],
     enabled: !!currentChatId,
   });
 
-  // Send message mutation
-  const sendMessageMutation = useMutation({
-    mutationFn: async ({ 
-      chatId, 
-      message 
-    }: { 
-      chatId: number; 
-      message: string 
-    }) => {
-      setIsProcessing(true);
-      const response = await sendMessage(chatId, { content: message });
-      setIsProcessing(false);
-      return response;
-    },
-    onSuccess: (responseMessage, variables) => {
-      // Immediately update the chat with both user message and response
-      queryClient.setQueryData(["/api/chats", variables.chatId], (oldData: any) => {
-        if (!oldData) return oldData;
-        
-        const now = new Date();
-        const newMessages = [
-          ...(oldData.messages || []),
-          {
-            id: oldData.messages?.length + 1 || 1,
-            chatId: variables.chatId,
-            role: "user",
-            content: variables.message,
-            createdAt: now
-          },
-          {
-            id: oldData.messages?.length + 2 || 2,
-            chatId: variables.chatId,
-            role: "assistant",
-            content: responseMessage.content,
-            sources: responseMessage.sources,
-            createdAt: now
-          }
-        ];
-        
-        return {
-          ...oldData,
-          messages: newMessages
-        };
-      });
-      
-      // Also refresh the data
-      queryClient.invalidateQueries({ queryKey: ["/api/chats", currentChatId] });
-    },
-    onError: (error) => {
-      toast({
-        title: "Error sending message",
-        description: error instanceof Error ? error.message : String(error),
-        variant: "destructive",
-      });
-      setIsProcessing(false);
-    },
-  });
+  // Model for the next new chat (undefined for the server default); saved chats keep theirs on the server
+  const [newChatModel, setNewChatModel] = useState<string | undefined>();
+  // Prompt profile for the next new chat (undefined for the server default); it can't be
+  // changed once the chat exists
+  const [newChatProfile, setNewChatProfile] = useState<string | undefined>();
 
-  // Create new chat mutation
-  const createChatMutation = useMutation({
-    mutationFn: async ({ message, title }: CreateChatRequest) => {
-      setIsProcessing(true);
-      const response = await createChat({ message, title });
-      setIsProcessing(false);
-      return response;
-    },
-    onSuccess: (data, variables) => {
-      setCurrentChatId(data.chatId);
-      
-      // Manually update cache to immediately show the assistant's message
-      queryClient.setQueryData(["/api/chats", data.chatId], (oldData: any) => {
-        // If there's no existing data, create a new chat object
-        if (!oldData) {
-          const now = new Date();
-          return {
-            id: data.chatId,
-            title: "New Chat",
-            createdAt: now,
-            messages: [
-              {
-                id: 0,
-                chatId: data.chatId,
-                role: "user",
-                content: variables.message,
-                createdAt: now
-              },
-              {
-                id: 1,
-                chatId: data.chatId,
-                role: "assistant",
-                content: data.message.content,
-                sources: data.message.sources,
-                createdAt: now
-              }
-            ]
-          };
-        }
-        
-        // Otherwise add to existing chat
-        return oldData;
-      });
-      
-      // Then invalidate queries to fetch fresh data
+  // Switch the current chat to another model, or choose one for the chat about to be started
+  const handleChangeModel = useCallback(async (model: string) => {
+    if (!currentChatId) {
+      setNewChatModel(model);
+      return;
+    }
+
+    try {
+      await updateChatModel(currentChatId, model);
       queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/chats", data.chatId] });
-    },
-    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/chats/${currentChatId}`] });
+    } catch (error) {
       toast({
-        title: "Error creating chat",
-        description: error instanceof Error ? error.message : String(error),
+        title: t("chat.errorChangingModel"),
+        description: error instanceof Error ? getErrorMessage(error) : String(error),
         variant: "destructive",
       });
-      setIsProcessing(false);
-    },
-  });
-
-  // Handler for sending a message in an existing chat
-  const handleSendMessage = useCallback(
-    (message: string) => {
-      if (!currentChatId) {
-        // Create a new chat with the message
-        createChatMutation.mutate({ message });
-      } else {
-        // Send message to existing chat
-        sendMessageMutation.mutate({ chatId: currentChatId, message });
-      }
-    },
-    [currentChatId, sendMessageMutation, createChatMutation]
-  );
+    }
+  }, [currentChatId, toast, t]);
 
   // Start a new chat
   const handleNewChat = useCallback(() => {
@@ -170,17 +65,61 @@ export function useChat(chatId?: number) {
 
   // Keep local messages state for immediate display
   const [localMessages, setLocalMessages] = useState<Message[]>([]);
-  
-  // Update local messages when server data changes
+  // Whether the server has messages older than the first one in localMessages
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
+
+  // Id of a chat just created by sending its first message, whose messages are already shown
+  const createdChatIdRef = useRef<number | undefined>();
+
+  // Clear the previous conversation when switching chats
   useEffect(() => {
-    if (chatQuery.data && (chatQuery.data as any).messages) {
-      setLocalMessages((chatQuery.data as any).messages);
-    }
+    if (currentChatId !== undefined && currentChatId === createdChatIdRef.current) return;
+    setLocalMessages([]);
+    setHasOlderMessages(false);
+  }, [currentChatId]);
+
+  // Merge the latest page from the server, keeping older pages that were already loaded.
+  // Optimistic messages have temporary ids and are replaced by their saved versions.
+  useEffect(() => {
+    const chat = chatQuery.data;
+    if (!chat?.messages) return;
+
+    const firstLatestId = chat.messages[0]?.id ?? Infinity;
+
+    setLocalMessages(prev => {
+      const olderLoaded = prev.filter(m => m.chatId === chat.id && m.id < firstLatestId);
+      if (olderLoaded.length === 0) {
+        setHasOlderMessages(chat.nextCursor !== null);
+      }
+      return [...olderLoaded, ...chat.messages];
+    });
   }, [chatQuery.data]);
-  
-  // Override handleSendMessage to update local messages immediately
+
+  // Fetch the page of messages before the oldest one shown
+  const loadOlderMessages = useCallback(async () => {
+    const oldest = localMessages[0];
+    if (!currentChatId || !oldest || !hasOlderMessages || isLoadingOlderMessages) return;
+
+    setIsLoadingOlderMessages(true);
+    try {
+      const page = await getChatMessages(currentChatId, { before: oldest.id });
+      setLocalMessages(prev => [...page.messages, ...prev]);
+      setHasOlderMessages(page.nextCursor !== null);
+    } catch (error) {
+      toast({
+        title: t("chat.errorLoadingOlder"),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingOlderMessages(false);
+    }
+  }, [currentChatId, localMessages, hasOlderMessages, isLoadingOlderMessages, toast, t]);
+
+  // Send a message and grow the assistant's answer in place as tokens stream in
   const handleSendMessageWithLocalUpdate = useCallback(
-    (message: string) => {
+    async (message: string) => {
       // User message
       const userMessage: Message = {
         id: Date.now(),
@@ -189,66 +128,100 @@ export function useChat(chatId?: number) {
         content: message,
         createdAt: new Date()
       };
-      
+
       // Add user message immediately
       setLocalMessages(prev => [...prev, userMessage]);
-      
-      // Show loading state
+
+      // Show loading state until the first token arrives
       setIsProcessing(true);
-      
-      // Send to server
-      if (!currentChatId) {
-        createChatMutation.mutate({ message }, {
-          onSuccess: (data) => {
-            // Add AI response when it comes back
-            const aiMessage: Message = {
-              id: Date.now() + 1,
-              chatId: data.chatId,
+
+      const assistantId = Date.now() + 1;
+      let targetChatId = currentChatId;
+
+      // Insert or update the streaming assistant message
+      const updateAssistantMessage = (update: (existing?: Message) => Partial<Message>) => {
+        setLocalMessages(prev => {
+          const existing = prev.find(m => m.id === assistantId);
+          if (!existing) {
+            return [...prev, {
+              id: assistantId,
+              chatId: targetChatId || 0,
               role: "assistant",
-              content: data.message.content,
-              sources: data.message.sources,
-              createdAt: new Date()
-            };
-            setLocalMessages(prev => [...prev, aiMessage]);
-            setIsProcessing(false);
-          },
-          onError: () => {
-            setIsProcessing(false);
+              content: "",
+              createdAt: new Date(),
+              ...update()
+            }];
           }
+          return prev.map(m => m.id === assistantId ? { ...m, ...update(m) } : m);
         });
-      } else {
-        sendMessageMutation.mutate({ chatId: currentChatId, message }, {
-          onSuccess: (response) => {
-            // Add AI response when it comes back
-            const aiMessage: Message = {
-              id: Date.now() + 1,
-              chatId: currentChatId,
-              role: "assistant", 
-              content: response.content,
-              sources: response.sources,
-              createdAt: new Date()
-            };
-            setLocalMessages(prev => [...prev, aiMessage]);
-            setIsProcessing(false);
-          },
-          onError: () => {
-            setIsProcessing(false);
-          }
+      };
+
+      const handlers = {
+        onChat: (id: number) => {
+          targetChatId = id;
+        },
+        onToken: (delta: string) => {
+          setStreamingMessageId(assistantId);
+          updateAssistantMessage(existing => ({ content: (existing?.content || "") + delta }));
+        }
+      };
+
+      // The interface language is sent for messages too short to detect their own
+      try {
+        const response = currentChatId
+          ? await streamMessage(currentChatId, { content: message, language: locale }, handlers)
+          : await streamNewChat(
+              { message, model: newChatModel, profileId: newChatProfile, language: locale },
+              handlers
+            );
+
+        updateAssistantMessage(() => ({
+          content: response.content,
+          sources: response.sources,
+          metadata: response.metadata
+        }));
+
+        if (!currentChatId && targetChatId) {
+          createdChatIdRef.current = targetChatId;
+          setCurrentChatId(targetChatId);
+        }
+
+        // Refresh the chat list and the current chat from the server
+        queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+        queryClient.invalidateQueries({ queryKey: [`/api/chats/${targetChatId}`] });
+      } catch (error) {
+        toast({
+          title: t(currentChatId ? "chat.errorSending" : "chat.errorCreating"),
+          description: error instanceof Error ? getErrorMessage(error) : String(error),
+          variant: "destructive",
         });
+      } finally {
+        setStreamingMessageId(undefined);
+        setIsProcessing(false);
       }
     },
-    [currentChatId, sendMessageMutation, createChatMutation]
+    [currentChatId, newChatModel, newChatProfile, locale, toast, t]
   );
-  
+
   return {
     chats: chatsQuery.data as Chat[] | undefined,
-    currentChat: { 
-      ...(chatQuery.data as any), 
-      messages: localMessages 
+    currentChat: {
+      ...(chatQuery.data as any),
+      messages: localMessages
     },
     isLoadingChats: chatsQuery.isLoading,
     isLoadingCurrentChat: chatQuery.isLoading,
+    hasOlderMessages,
+    isLoadingOlderMessages,
+    loadOlderMessages,
     isProcessing,
+    streamingMessageId,
+    // The chosen model id, or null/undefined for the server default
+    model: currentChatId ? chatQuery.data?.model : newChatModel,
+    changeModel: handleChangeModel,
+    // The chosen prompt profile id, or null/undefined for the server default
+    profileId: currentChatId ? chatQuery.data?.profileId : newChatProfile,
+    changeProfile: setNewChatProfile,
     sendMessage: handleSendMessageWithLocalUpdate,
     newChat: handleNewChat,
     selectChat: handleSelectChat,
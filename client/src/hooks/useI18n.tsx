@@ -0,0 +1,51 @@
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from "react";
+import {
+  detectLocale,
+  saveLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+  type TranslationParams,
+} from "@/i18n";
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  // The current locale's string for `key`, see translate()
+  t: (key: MessageKey, params?: TranslationParams) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  // Keep the page's lang attribute in step, for screen readers and hyphenation
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, params?: TranslationParams) => translate(locale, key, params),
+    [locale]
+  );
+
+  return (
+    <I18nContext.Provider value={{ locale, setLocale, t }}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useI18n must be used within an I18nProvider");
+  }
+  return context;
+}
@@ -0,0 +1,105 @@
+// English strings, which every other locale translates. `{name}` marks a value filled in
+// when the string is shown; plurals give a string per Intl.PluralRules category.
+export const en = {
+  "header.tagline": "Your Personal Catholic Teaching Assistant",
+  "header.logout": "Log out",
+  "header.language": "Language",
+
+  "sidebar.savedChats": "Saved Chats",
+  "sidebar.noChats": "No saved chats yet",
+  "sidebar.knowledgeBase": "Knowledge Base",
+
+  "categories.catechism": "Catechism of the Catholic Church",
+  "categories.vatican2": "Vatican II Documents",
+  "categories.encyclicals": "Papal Encyclicals",
+  "categories.saints": "Lives of the Saints",
+  "categories.scripture": "Scripture References",
+
+  "chatInput.placeholder": "Ask about Catholic teachings...",
+  "chatInput.send": "Send",
+  "chatInput.disclaimer": "Hi! I'm Fide, a Retrieval-Augmented Generation (RAG) Large Language Model (LLM). I can generate responses based on the information I have been trained on. I cannot browse the internet or access real-time information. My answers are not meant to be authoritative; please consult a priest or other qualified Catholic authority to verify answers.",
+
+  "chat.welcome": "Welcome to Fides Vera, your personal Catholic teaching assistant. I'm here to help you explore Catholic teachings, doctrine, and tradition using authentic Catholic sources. How may I assist you today?",
+  "chat.loading": "Loading conversation...",
+  "chat.loadingOlder": "Loading earlier messages...",
+  "chat.loadOlder": "Load earlier messages",
+  "chat.errorChangingModel": "Error changing model",
+  "chat.errorLoadingOlder": "Error loading earlier messages",
+  "chat.errorSending": "Error sending message",
+  "chat.errorCreating": "Error creating chat",
+
+  "message.sourceLabel": "Source {number}: {title}",
+  "message.uncitedSources": {
+    one: "{count} more retrieved source not cited",
+    other: "{count} more retrieved sources not cited",
+  },
+  "message.retrievedSources": {
+    one: "{count} retrieved source",
+    other: "{count} retrieved sources",
+  },
+
+  "citations.verified": "Verified: ",
+  "citations.unverified": "Unverified: ",
+  "citations.notFound": "Not found in the sources retrieved for this answer",
+  "citations.foundPassage": "Found in the sources retrieved for this answer",
+  "citations.foundDocument": "The cited document was retrieved, but not the exact passage",
+  "citations.stripped": "Unverified citation details were removed from this answer.",
+
+  "sources.from": "From {title}:",
+  "sources.noneMatched": "No sources in the knowledge base matched this question, so this answer is not backed by a specific document.",
+  "sources.used": "Sources Used",
+  "sources.reference": "Reference",
+  "sources.relevance": "Relevance: {percent}%",
+  "sources.paragraphs": "Paragraphs: {paragraphs}",
+
+  "sourcePanel.related": "Related Sources",
+  "sourcePanel.none": "No sources available for this conversation yet.",
+  "sourcePanel.additional": "Additional Resources",
+  "sourcePanel.usccb": "USCCB: United States Conference of Catholic Bishops",
+  "sourcePanel.vatican": "Vatican Official Website",
+  "sourcePanel.viewFull": "View full section",
+
+  "models.label": "Model",
+  "models.deprecated": "deprecated",
+  "models.retired": "retired",
+  "models.contextSize": "{size}k tokens",
+  "models.cost": "${input} / ${output} per 1M",
+
+  "profiles.label": "Answer style",
+  "profiles.short": "short answers",
+  "profiles.medium": "medium answers",
+  "profiles.long": "long answers",
+
+  "auth.login": "Log in",
+  "auth.signup": "Sign up",
+  "auth.createAccount": "Create an account",
+  "auth.signupDescription": "Your conversations are saved to your account.",
+  "auth.loginDescription": "Log in to continue your conversations.",
+  "auth.username": "Username",
+  "auth.password": "Password",
+  "auth.usernameRequired": "Username is required",
+  "auth.passwordRequired": "Password is required",
+  "auth.haveAccount": "Already have an account?",
+  "auth.newHere": "New to Fides Vera?",
+  "auth.errorLoggingOut": "Error logging out",
+
+  "catechism.paragraph": "Paragraph {number}",
+  "catechism.footnotes": "Footnotes",
+  "catechism.loading": "Loading paragraph...",
+  "catechism.unavailable": "Paragraph {number} is not available.",
+  "catechism.backToChat": "Back to chat",
+  "catechism.open": "Open CCC {number}",
+
+  "notFound.title": "404 Page Not Found",
+  "notFound.description": "Did you forget to add the page to the router?",
+};
+
+export type MessageKey = keyof typeof en;
+
+// One string per Intl.PluralRules category the language uses; `other` is always required
+export type PluralForms = { other: string } & Partial<Record<Intl.LDMLPluralRule, string>>;
+
+// What a translation has to provide: every key, with plural forms where English has them
+export type Messages = {
+  [K in MessageKey]: (typeof en)[K] extends string ? string : PluralForms;
+};
@@ -0,0 +1,95 @@
+import type { Messages } from "./en";
+
+export const es: Messages = {
+  "header.tagline": "Tu asistente personal de enseñanza católica",
+  "header.logout": "Cerrar sesión",
+  "header.language": "Idioma",
+
+  "sidebar.savedChats": "Conversaciones guardadas",
+  "sidebar.noChats": "Aún no hay conversaciones guardadas",
+  "sidebar.knowledgeBase": "Base de conocimiento",
+
+  "categories.catechism": "Catecismo de la Iglesia Católica",
+  "categories.vatican2": "Documentos del Concilio Vaticano II",
+  "categories.encyclicals": "Encíclicas papales",
+  "categories.saints": "Vidas de los santos",
+  "categories.scripture": "Referencias bíblicas",
+
+  "chatInput.placeholder": "Pregunta sobre la enseñanza católica...",
+  "chatInput.send": "Enviar",
+  "chatInput.disclaimer": "¡Hola! Soy Fide, un modelo de lenguaje (LLM) con generación aumentada por recuperación (RAG). Genero respuestas a partir de la información con la que fui entrenado. No puedo navegar por internet ni acceder a información en tiempo real. Mis respuestas no tienen autoridad; consulta a un sacerdote u otra autoridad católica competente para verificarlas.",
+
+  "chat.welcome": "Bienvenido a Fides Vera, tu asistente personal de enseñanza católica. Estoy aquí para ayudarte a explorar la enseñanza, la doctrina y la tradición católicas con fuentes católicas auténticas. ¿En qué puedo ayudarte hoy?",
+  "chat.loading": "Cargando la conversación...",
+  "chat.loadingOlder": "Cargando mensajes anteriores...",
+  "chat.loadOlder": "Cargar mensajes anteriores",
+  "chat.errorChangingModel": "Error al cambiar de modelo",
+  "chat.errorLoadingOlder": "Error al cargar mensajes anteriores",
+  "chat.errorSending": "Error al enviar el mensaje",
+  "chat.errorCreating": "Error al crear la conversación",
+
+  "message.sourceLabel": "Fuente {number}: {title}",
+  "message.uncitedSources": {
+    one: "{count} fuente recuperada más sin citar",
+    other: "{count} fuentes recuperadas más sin citar",
+  },
+  "message.retrievedSources": {
+    one: "{count} fuente recuperada",
+    other: "{count} fuentes recuperadas",
+  },
+
+  "citations.verified": "Verificada: ",
+  "citations.unverified": "Sin verificar: ",
+  "citations.notFound": "No se encontró en las fuentes recuperadas para esta respuesta",
+  "citations.foundPassage": "Se encontró en las fuentes recuperadas para esta respuesta",
+  "citations.foundDocument": "Se recuperó el documento citado, pero no el pasaje exacto",
+  "citations.stripped": "Se quitaron de esta respuesta los detalles de citas sin verificar.",
+
+  "sources.from": "De {title}:",
+  "sources.noneMatched": "Ninguna fuente de la base de conocimiento coincidió con esta pregunta, así que esta respuesta no se apoya en un documento concreto.",
+  "sources.used": "Fuentes utilizadas",
+  "sources.reference": "Referencia",
+  "sources.relevance": "Relevancia: {percent} %",
+  "sources.paragraphs": "Párrafos: {paragraphs}",
+
+  "sourcePanel.related": "Fuentes relacionadas",
+  "sourcePanel.none": "Todavía no hay fuentes para esta conversación.",
+  "sourcePanel.additional": "Recursos adicionales",
+  "sourcePanel.usccb": "USCCB: Conferencia de Obispos Católicos de los Estados Unidos",
+  "sourcePanel.vatican": "Sitio web oficial del Vaticano",
+  "sourcePanel.viewFull": "Ver la sección completa",
+
+  "models.label": "Modelo",
+  "models.deprecated": "obsoleto",
+  "models.retired": "retirado",
+  "models.contextSize": "{size}k tokens",
+  "models.cost": "${input} / ${output} por 1M",
+
+  "profiles.label": "Estilo de respuesta",
+  "profiles.short": "respuestas breves",
+  "profiles.medium": "respuestas medianas",
+  "profiles.long": "respuestas extensas",
+
+  "auth.login": "Iniciar sesión",
+  "auth.signup": "Registrarse",
+  "auth.createAccount": "Crear una cuenta",
+  "auth.signupDescription": "Tus conversaciones se guardan en tu cuenta.",
+  "auth.loginDescription": "Inicia sesión para continuar tus conversaciones.",
+  "auth.username": "Nombre de usuario",
+  "auth.password": "Contraseña",
+  "auth.usernameRequired": "El nombre de usuario es obligatorio",
+  "auth.passwordRequired": "La contraseña es obligatoria",
+  "auth.haveAccount": "¿Ya tienes una cuenta?",
+  "auth.newHere": "¿Nuevo en Fides Vera?",
+  "auth.errorLoggingOut": "Error al cerrar sesión",
+
+  "catechism.paragraph": "Párrafo {number}",
+  "catechism.footnotes": "Notas",
+  "catechism.loading": "Cargando el párrafo...",
+  "catechism.unavailable": "El párrafo {number} no está disponible.",
+  "catechism.backToChat": "Volver al chat",
+  "catechism.open": "Abrir CCE {number}",
+
+  "notFound.title": "404: página no encontrada",
+  "notFound.description": "¿Olvidaste añadir la página al enrutador?",
+};
@@ -0,0 +1,72 @@
+import { languageCodes, type LanguageCode } from "@shared/schema";
+import { en, type MessageKey, type Messages } from "./en";
+import { es } from "./es";
+import { pt } from "./pt";
+import { pl } from "./pl";
+import { vi } from "./vi";
+import { tl } from "./tl";
+
+export type { MessageKey, Messages };
+export type Locale = LanguageCode;
+
+// The interface languages, which are also the languages the server detects and answers in
+export const locales = languageCodes;
+
+// Each language's name for itself, for the language picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  pt: "Português",
+  pl: "Polski",
+  vi: "Tiếng Việt",
+  tl: "Tagalog",
+};
+
+const MESSAGES: Record<Locale, Messages> = { en, es, pt, pl, vi, tl };
+
+// Where the chosen interface language is remembered between visits
+const LOCALE_STORAGE_KEY = "fides-vera-locale";
+
+export type TranslationParams = Record<string, string | number>;
+
+function isLocale(value: string | null | undefined): value is Locale {
+  return !!value && (locales as readonly string[]).includes(value);
+}
+
+/**
+ * The interface language: the one chosen before, otherwise the browser's preferred
+ * language if it is supported, otherwise English
+ */
+export function detectLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+
+  for (const language of navigator.languages ?? [navigator.language]) {
+    // "pt-BR" -> "pt"; browsers report Tagalog as Filipino ("fil")
+    const code = language.toLowerCase().split("-")[0];
+    const locale = code === "fil" ? "tl" : code;
+    if (isLocale(locale)) return locale;
+  }
+
+  return "en";
+}
+
+export function saveLocale(locale: Locale): void {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+}
+
+/**
+ * The string for `key` in `locale` with `{name}` placeholders filled in from `params`.
+ * Plural strings are chosen by `params.count`.
+ */
+export function translate(locale: Locale, key: MessageKey, params: TranslationParams = {}): string {
+  const entry = MESSAGES[locale][key] ?? MESSAGES.en[key];
+
+  const text = typeof entry === "string"
+    ? entry
+    : entry[new Intl.PluralRules(locale).select(Number(params.count ?? 0))] ?? entry.other;
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
@@ -0,0 +1,99 @@
+import type { Messages } from "./en";
+
+export const pl: Messages = {
+  "header.tagline": "Twój osobisty asystent nauczania katolickiego",
+  "header.logout": "Wyloguj się",
+  "header.language": "Język",
+
+  "sidebar.savedChats": "Zapisane rozmowy",
+  "sidebar.noChats": "Brak zapisanych rozmów",
+  "sidebar.knowledgeBase": "Baza wiedzy",
+
+  "categories.catechism": "Katechizm Kościoła Katolickiego",
+  "categories.vatican2": "Dokumenty Soboru Watykańskiego II",
+  "categories.encyclicals": "Encykliki papieskie",
+  "categories.saints": "Żywoty świętych",
+  "categories.scripture": "Odnośniki do Pisma Świętego",
+
+  "chatInput.placeholder": "Zapytaj o nauczanie Kościoła katolickiego...",
+  "chatInput.send": "Wyślij",
+  "chatInput.disclaimer": "Cześć! Jestem Fide, duży model językowy (LLM) z generowaniem wspomaganym wyszukiwaniem (RAG). Tworzę odpowiedzi na podstawie informacji, na których mnie wytrenowano. Nie przeglądam internetu i nie mam dostępu do bieżących informacji. Moje odpowiedzi nie są wiążące; aby je zweryfikować, skonsultuj się z kapłanem lub innym kompetentnym autorytetem katolickim.",
+
+  "chat.welcome": "Witaj w Fides Vera, twoim osobistym asystencie nauczania katolickiego. Pomogę ci zgłębiać nauczanie, doktrynę i tradycję Kościoła katolickiego na podstawie autentycznych źródeł katolickich. W czym mogę dziś pomóc?",
+  "chat.loading": "Wczytywanie rozmowy...",
+  "chat.loadingOlder": "Wczytywanie wcześniejszych wiadomości...",
+  "chat.loadOlder": "Wczytaj wcześniejsze wiadomości",
+  "chat.errorChangingModel": "Błąd podczas zmiany modelu",
+  "chat.errorLoadingOlder": "Błąd podczas wczytywania wcześniejszych wiadomości",
+  "chat.errorSending": "Błąd podczas wysyłania wiadomości",
+  "chat.errorCreating": "Błąd podczas tworzenia rozmowy",
+
+  "message.sourceLabel": "Źródło {number}: {title}",
+  "message.uncitedSources": {
+    one: "Jeszcze {count} znalezione źródło bez cytowania",
+    few: "Jeszcze {count} znalezione źródła bez cytowania",
+    many: "Jeszcze {count} znalezionych źródeł bez cytowania",
+    other: "Jeszcze {count} znalezionego źródła bez cytowania",
+  },
+  "message.retrievedSources": {
+    one: "{count} znalezione źródło",
+    few: "{count} znalezione źródła",
+    many: "{count} znalezionych źródeł",
+    other: "{count} znalezionego źródła",
+  },
+
+  "citations.verified": "Zweryfikowane: ",
+  "citations.unverified": "Niezweryfikowane: ",
+  "citations.notFound": "Nie znaleziono w źródłach wyszukanych dla tej odpowiedzi",
+  "citations.foundPassage": "Znaleziono w źródłach wyszukanych dla tej odpowiedzi",
+  "citations.foundDocument": "Znaleziono cytowany dokument, ale nie dokładny fragment",
+  "citations.stripped": "Z tej odpowiedzi usunięto szczegóły niezweryfikowanych cytatów.",
+
+  "sources.from": "Z dokumentu „{title}”:",
+  "sources.noneMatched": "Żadne źródło z bazy wiedzy nie pasowało do tego pytania, więc ta odpowiedź nie opiera się na konkretnym dokumencie.",
+  "sources.used": "Wykorzystane źródła",
+  "sources.reference": "Odnośnik",
+  "sources.relevance": "Trafność: {percent}%",
+  "sources.paragraphs": "Paragrafy: {paragraphs}",
+
+  "sourcePanel.related": "Powiązane źródła",
+  "sourcePanel.none": "Brak jeszcze źródeł dla tej rozmowy.",
+  "sourcePanel.additional": "Dodatkowe materiały",
+  "sourcePanel.usccb": "USCCB: Konferencja Episkopatu Stanów Zjednoczonych",
+  "sourcePanel.vatican": "Oficjalna strona Watykanu",
+  "sourcePanel.viewFull": "Zobacz cały fragment",
+
+  "models.label": "Model",
+  "models.deprecated": "przestarzały",
+  "models.retired": "wycofany",
+  "models.contextSize": "{size} tys. tokenów",
+  "models.cost": "${input} / ${output} za 1 mln",
+
+  "profiles.label": "Styl odpowiedzi",
+  "profiles.short": "krótkie odpowiedzi",
+  "profiles.medium": "średnie odpowiedzi",
+  "profiles.long": "długie odpowiedzi",
+
+  "auth.login": "Zaloguj się",
+  "auth.signup": "Zarejestruj się",
+  "auth.createAccount": "Utwórz konto",
+  "auth.signupDescription": "Twoje rozmowy są zapisywane na twoim koncie.",
+  "auth.loginDescription": "Zaloguj się, aby kontynuować rozmowy.",
+  "auth.username": "Nazwa użytkownika",
+  "auth.password": "Hasło",
+  "auth.usernameRequired": "Nazwa użytkownika jest wymagana",
+  "auth.passwordRequired": "Hasło jest wymagane",
+  "auth.haveAccount": "Masz już konto?",
+  "auth.newHere": "Pierwszy raz w Fides Vera?",
+  "auth.errorLoggingOut": "Błąd podczas wylogowywania",
+
+  "catechism.paragraph": "Punkt {number}",
+  "catechism.footnotes": "Przypisy",
+  "catechism.loading": "Wczytywanie punktu...",
+  "catechism.unavailable": "Punkt {number} jest niedostępny.",
+  "catechism.backToChat": "Wróć do czatu",
+  "catechism.open": "Otwórz KKK {number}",
+
+  "notFound.title": "404: nie znaleziono strony",
+  "notFound.description": "Czy strona została dodana do routera?",
+};
@@ -0,0 +1,95 @@
+import type { Messages } from "./en";
+
+export const pt: Messages = {
+  "header.tagline": "Seu assistente pessoal de ensino católico",
+  "header.logout": "Sair",
+  "header.language": "Idioma",
+
+  "sidebar.savedChats": "Conversas salvas",
+  "sidebar.noChats": "Nenhuma conversa salva ainda",
+  "sidebar.knowledgeBase": "Base de conhecimento",
+
+  "categories.catechism": "Catecismo da Igreja Católica",
+  "categories.vatican2": "Documentos do Concílio Vaticano II",
+  "categories.encyclicals": "Encíclicas papais",
+  "categories.saints": "Vidas dos santos",
+  "categories.scripture": "Referências bíblicas",
+
+  "chatInput.placeholder": "Pergunte sobre o ensino católico...",
+  "chatInput.send": "Enviar",
+  "chatInput.disclaimer": "Olá! Sou a Fide, um modelo de linguagem (LLM) com geração aumentada por recuperação (RAG). Gero respostas com base nas informações com que fui treinada. Não consigo navegar na internet nem acessar informações em tempo real. Minhas respostas não têm autoridade; consulte um sacerdote ou outra autoridade católica qualificada para confirmá-las.",
+
+  "chat.welcome": "Bem-vindo ao Fides Vera, seu assistente pessoal de ensino católico. Estou aqui para ajudar você a explorar o ensino, a doutrina e a tradição católicos com fontes católicas autênticas. Como posso ajudar hoje?",
+  "chat.loading": "Carregando a conversa...",
+  "chat.loadingOlder": "Carregando mensagens anteriores...",
+  "chat.loadOlder": "Carregar mensagens anteriores",
+  "chat.errorChangingModel": "Erro ao trocar de modelo",
+  "chat.errorLoadingOlder": "Erro ao carregar mensagens anteriores",
+  "chat.errorSending": "Erro ao enviar a mensagem",
+  "chat.errorCreating": "Erro ao criar a conversa",
+
+  "message.sourceLabel": "Fonte {number}: {title}",
+  "message.uncitedSources": {
+    one: "Mais {count} fonte recuperada não citada",
+    other: "Mais {count} fontes recuperadas não citadas",
+  },
+  "message.retrievedSources": {
+    one: "{count} fonte recuperada",
+    other: "{count} fontes recuperadas",
+  },
+
+  "citations.verified": "Verificada: ",
+  "citations.unverified": "Não verificada: ",
+  "citations.notFound": "Não encontrada nas fontes recuperadas para esta resposta",
+  "citations.foundPassage": "Encontrada nas fontes recuperadas para esta resposta",
+  "citations.foundDocument": "O documento citado foi recuperado, mas não a passagem exata",
+  "citations.stripped": "Os detalhes de citações não verificadas foram removidos desta resposta.",
+
+  "sources.from": "De {title}:",
+  "sources.noneMatched": "Nenhuma fonte da base de conhecimento correspondeu a esta pergunta, então esta resposta não se apoia em um documento específico.",
+  "sources.used": "Fontes utilizadas",
+  "sources.reference": "Referência",
+  "sources.relevance": "Relevância: {percent}%",
+  "sources.paragraphs": "Parágrafos: {paragraphs}",
+
+  "sourcePanel.related": "Fontes relacionadas",
+  "sourcePanel.none": "Ainda não há fontes para esta conversa.",
+  "sourcePanel.additional": "Recursos adicionais",
+  "sourcePanel.usccb": "USCCB: Conferência dos Bispos Católicos dos Estados Unidos",
+  "sourcePanel.vatican": "Site oficial do Vaticano",
+  "sourcePanel.viewFull": "Ver a seção completa",
+
+  "models.label": "Modelo",
+  "models.deprecated": "obsoleto",
+  "models.retired": "descontinuado",
+  "models.contextSize": "{size}k tokens",
+  "models.cost": "${input} / ${output} por 1M",
+
+  "profiles.label": "Estilo de resposta",
+  "profiles.short": "respostas curtas",
+  "profiles.medium": "respostas médias",
+  "profiles.long": "respostas longas",
+
+  "auth.login": "Entrar",
+  "auth.signup": "Cadastrar-se",
+  "auth.createAccount": "Criar uma conta",
+  "auth.signupDescription": "Suas conversas ficam salvas na sua conta.",
+  "auth.loginDescription": "Entre para continuar suas conversas.",
+  "auth.username": "Nome de usuário",
+  "auth.password": "Senha",
+  "auth.usernameRequired": "O nome de usuário é obrigatório",
+  "auth.passwordRequired": "A senha é obrigatória",
+  "auth.haveAccount": "Já tem uma conta?",
+  "auth.newHere": "Novo no Fides Vera?",
+  "auth.errorLoggingOut": "Erro ao sair",
+
+  "catechism.paragraph": "Parágrafo {number}",
+  "catechism.footnotes": "Notas",
+  "catechism.loading": "Carregando o parágrafo...",
+  "catechism.unavailable": "O parágrafo {number} não está disponível.",
+  "catechism.backToChat": "Voltar ao chat",
+  "catechism.open": "Abrir CIC {number}",
+
+  "notFound.title": "404: página não encontrada",
+  "notFound.description": "Você se esqueceu de adicionar a página ao roteador?",
+};
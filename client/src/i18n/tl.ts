@@ -0,0 +1,93 @@
+import type { Messages } from "./en";
+
+export const tl: Messages = {
+  "header.tagline": "Ang Iyong Personal na Katuwang sa Pagtuturong Katoliko",
+  "header.logout": "Mag-log out",
+  "header.language": "Wika",
+
+  "sidebar.savedChats": "Mga Naka-save na Usapan",
+  "sidebar.noChats": "Wala pang naka-save na usapan",
+  "sidebar.knowledgeBase": "Mga Sanggunian",
+
+  "categories.catechism": "Katesismo ng Simbahang Katolika",
+  "categories.vatican2": "Mga Dokumento ng Vaticano II",
+  "categories.encyclicals": "Mga Ensiklikal ng Papa",
+  "categories.saints": "Buhay ng mga Santo",
+  "categories.scripture": "Mga Sipi mula sa Bibliya",
+
+  "chatInput.placeholder": "Magtanong tungkol sa mga turo ng Simbahang Katolika...",
+  "chatInput.send": "Ipadala",
+  "chatInput.disclaimer": "Kumusta! Ako si Fide, isang Large Language Model (LLM) na gumagamit ng Retrieval-Augmented Generation (RAG). Sumasagot ako batay sa impormasyong pinag-aralan ko. Hindi ako nakapagba-browse sa internet at wala akong access sa kasalukuyang impormasyon. Hindi opisyal na turo ang aking mga sagot; sumangguni sa isang pari o iba pang may-kakayahang awtoridad na Katoliko upang matiyak ang mga ito.",
+
+  "chat.welcome": "Maligayang pagdating sa Fides Vera, ang iyong personal na katuwang sa pagtuturong Katoliko. Narito ako upang tulungan kang tuklasin ang mga turo, doktrina at tradisyon ng Simbahang Katolika gamit ang mga tunay na sangguniang Katoliko. Paano kita matutulungan ngayon?",
+  "chat.loading": "Nilo-load ang usapan...",
+  "chat.loadingOlder": "Nilo-load ang mga naunang mensahe...",
+  "chat.loadOlder": "I-load ang mga naunang mensahe",
+  "chat.errorChangingModel": "Nagka-error sa pagpapalit ng model",
+  "chat.errorLoadingOlder": "Nagka-error sa pag-load ng mga naunang mensahe",
+  "chat.errorSending": "Nagka-error sa pagpapadala ng mensahe",
+  "chat.errorCreating": "Nagka-error sa paggawa ng usapan",
+
+  "message.sourceLabel": "Sanggunian {number}: {title}",
+  "message.uncitedSources": {
+    other: "{count} pang nakuhang sanggunian na hindi binanggit",
+  },
+  "message.retrievedSources": {
+    other: "{count} nakuhang sanggunian",
+  },
+
+  "citations.verified": "Napatunayan: ",
+  "citations.unverified": "Hindi napatunayan: ",
+  "citations.notFound": "Hindi nakita sa mga sangguniang nakuha para sa sagot na ito",
+  "citations.foundPassage": "Nakita sa mga sangguniang nakuha para sa sagot na ito",
+  "citations.foundDocument": "Nakuha ang binanggit na dokumento, ngunit hindi ang eksaktong talata",
+  "citations.stripped": "Inalis sa sagot na ito ang mga detalye ng mga hindi napatunayang pagbanggit.",
+
+  "sources.from": "Mula sa {title}:",
+  "sources.noneMatched": "Walang sanggunian sa koleksiyon na tumugma sa tanong na ito, kaya hindi nakabatay ang sagot sa isang tiyak na dokumento.",
+  "sources.used": "Mga Ginamit na Sanggunian",
+  "sources.reference": "Sanggunian",
+  "sources.relevance": "Kaugnayan: {percent}%",
+  "sources.paragraphs": "Mga talata: {paragraphs}",
+
+  "sourcePanel.related": "Mga Kaugnay na Sanggunian",
+  "sourcePanel.none": "Wala pang sanggunian para sa usapang ito.",
+  "sourcePanel.additional": "Iba Pang Mapagkukunan",
+  "sourcePanel.usccb": "USCCB: Kumperensiya ng mga Obispong Katoliko ng Estados Unidos",
+  "sourcePanel.vatican": "Opisyal na Website ng Vaticano",
+  "sourcePanel.viewFull": "Tingnan ang buong bahagi",
+
+  "models.label": "Model",
+  "models.deprecated": "malapit nang alisin",
+  "models.retired": "inalis na",
+  "models.contextSize": "{size}k token",
+  "models.cost": "${input} / ${output} bawat 1M",
+
+  "profiles.label": "Istilo ng sagot",
+  "profiles.short": "maiikling sagot",
+  "profiles.medium": "katamtamang sagot",
+  "profiles.long": "mahahabang sagot",
+
+  "auth.login": "Mag-log in",
+  "auth.signup": "Mag-sign up",
+  "auth.createAccount": "Gumawa ng account",
+  "auth.signupDescription": "Naka-save sa iyong account ang iyong mga usapan.",
+  "auth.loginDescription": "Mag-log in upang ituloy ang iyong mga usapan.",
+  "auth.username": "Username",
+  "auth.password": "Password",
+  "auth.usernameRequired": "Kailangan ang username",
+  "auth.passwordRequired": "Kailangan ang password",
+  "auth.haveAccount": "May account ka na?",
+  "auth.newHere": "Bago sa Fides Vera?",
+  "auth.errorLoggingOut": "Nagka-error sa pag-log out",
+
+  "catechism.paragraph": "Talata {number}",
+  "catechism.footnotes": "Mga Talababa",
+  "catechism.loading": "Nilo-load ang talata...",
+  "catechism.unavailable": "Hindi available ang talata {number}.",
+  "catechism.backToChat": "Bumalik sa chat",
+  "catechism.open": "Buksan ang KKK {number}",
+
+  "notFound.title": "404: Hindi Nakita ang Pahina",
+  "notFound.description": "Nakalimutan mo bang idagdag ang pahina sa router?",
+};
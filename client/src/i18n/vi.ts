@@ -0,0 +1,93 @@
+import type { Messages } from "./en";
+
+export const vi: Messages = {
+  "header.tagline": "Trợ lý giáo lý Công giáo cá nhân của bạn",
+  "header.logout": "Đăng xuất",
+  "header.language": "Ngôn ngữ",
+
+  "sidebar.savedChats": "Cuộc trò chuyện đã lưu",
+  "sidebar.noChats": "Chưa có cuộc trò chuyện nào được lưu",
+  "sidebar.knowledgeBase": "Kho tài liệu",
+
+  "categories.catechism": "Sách Giáo lý Hội Thánh Công giáo",
+  "categories.vatican2": "Văn kiện Công đồng Vaticanô II",
+  "categories.encyclicals": "Thông điệp của các Đức Giáo hoàng",
+  "categories.saints": "Hạnh các Thánh",
+  "categories.scripture": "Trích dẫn Kinh Thánh",
+
+  "chatInput.placeholder": "Hỏi về giáo huấn Công giáo...",
+  "chatInput.send": "Gửi",
+  "chatInput.disclaimer": "Xin chào! Tôi là Fide, một mô hình ngôn ngữ lớn (LLM) dùng kỹ thuật tạo sinh tăng cường truy xuất (RAG). Tôi trả lời dựa trên những thông tin tôi đã được huấn luyện. Tôi không thể duyệt internet hay truy cập thông tin theo thời gian thực. Câu trả lời của tôi không mang tính thẩm quyền; xin hãy hỏi ý kiến một linh mục hoặc người có thẩm quyền Công giáo để kiểm chứng.",
+
+  "chat.welcome": "Chào mừng bạn đến với Fides Vera, trợ lý giáo lý Công giáo cá nhân của bạn. Tôi ở đây để giúp bạn tìm hiểu giáo huấn, tín lý và truyền thống Công giáo qua các nguồn Công giáo đáng tin cậy. Hôm nay tôi có thể giúp gì cho bạn?",
+  "chat.loading": "Đang tải cuộc trò chuyện...",
+  "chat.loadingOlder": "Đang tải các tin nhắn trước...",
+  "chat.loadOlder": "Tải các tin nhắn trước",
+  "chat.errorChangingModel": "Lỗi khi đổi mô hình",
+  "chat.errorLoadingOlder": "Lỗi khi tải các tin nhắn trước",
+  "chat.errorSending": "Lỗi khi gửi tin nhắn",
+  "chat.errorCreating": "Lỗi khi tạo cuộc trò chuyện",
+
+  "message.sourceLabel": "Nguồn {number}: {title}",
+  "message.uncitedSources": {
+    other: "Thêm {count} nguồn đã truy xuất nhưng không được trích dẫn",
+  },
+  "message.retrievedSources": {
+    other: "{count} nguồn đã truy xuất",
+  },
+
+  "citations.verified": "Đã xác minh: ",
+  "citations.unverified": "Chưa xác minh: ",
+  "citations.notFound": "Không tìm thấy trong các nguồn đã truy xuất cho câu trả lời này",
+  "citations.foundPassage": "Có trong các nguồn đã truy xuất cho câu trả lời này",
+  "citations.foundDocument": "Đã truy xuất được tài liệu được trích dẫn, nhưng không phải đoạn văn chính xác",
+  "citations.stripped": "Chi tiết của các trích dẫn chưa xác minh đã được gỡ khỏi câu trả lời này.",
+
+  "sources.from": "Trích từ {title}:",
+  "sources.noneMatched": "Không có nguồn nào trong kho tài liệu phù hợp với câu hỏi này, nên câu trả lời không dựa trên một tài liệu cụ thể.",
+  "sources.used": "Nguồn đã dùng",
+  "sources.reference": "Tham khảo",
+  "sources.relevance": "Mức liên quan: {percent}%",
+  "sources.paragraphs": "Số: {paragraphs}",
+
+  "sourcePanel.related": "Nguồn liên quan",
+  "sourcePanel.none": "Chưa có nguồn nào cho cuộc trò chuyện này.",
+  "sourcePanel.additional": "Tài liệu khác",
+  "sourcePanel.usccb": "USCCB: Hội đồng Giám mục Công giáo Hoa Kỳ",
+  "sourcePanel.vatican": "Trang web chính thức của Tòa Thánh",
+  "sourcePanel.viewFull": "Xem toàn bộ phần này",
+
+  "models.label": "Mô hình",
+  "models.deprecated": "sắp ngừng",
+  "models.retired": "đã ngừng",
+  "models.contextSize": "{size}k token",
+  "models.cost": "${input} / ${output} cho 1 triệu",
+
+  "profiles.label": "Cách trả lời",
+  "profiles.short": "trả lời ngắn",
+  "profiles.medium": "trả lời vừa",
+  "profiles.long": "trả lời dài",
+
+  "auth.login": "Đăng nhập",
+  "auth.signup": "Đăng ký",
+  "auth.createAccount": "Tạo tài khoản",
+  "auth.signupDescription": "Các cuộc trò chuyện của bạn được lưu vào tài khoản.",
+  "auth.loginDescription": "Đăng nhập để tiếp tục các cuộc trò chuyện.",
+  "auth.username": "Tên đăng nhập",
+  "auth.password": "Mật khẩu",
+  "auth.usernameRequired": "Vui lòng nhập tên đăng nhập",
+  "auth.passwordRequired": "Vui lòng nhập mật khẩu",
+  "auth.haveAccount": "Đã có tài khoản?",
+  "auth.newHere": "Lần đầu dùng Fides Vera?",
+  "auth.errorLoggingOut": "Lỗi khi đăng xuất",
+
+  "catechism.paragraph": "Số {number}",
+  "catechism.footnotes": "Chú thích",
+  "catechism.loading": "Đang tải đoạn...",
+  "catechism.unavailable": "Không có số {number}.",
+  "catechism.backToChat": "Quay lại cuộc trò chuyện",
+  "catechism.open": "Mở GLHTCG {number}",
+
+  "notFound.title": "404: Không tìm thấy trang",
+  "notFound.description": "Bạn đã quên thêm trang này vào bộ định tuyến?",
+};
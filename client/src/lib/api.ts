@@ -1,14 +1,36 @@
 import { apiRequest } from "./queryClient";
 import type { 
+  User,
+  Credentials,
   Chat, 
   ChatWithMessages, 
   Message, 
+  MessagePage,
   Document, 
+  ModelsResponse,
+  ProfilesResponse,
   CreateMessageRequest,
   CreateChatRequest,
-  CreateChatResponse
+  CreateChatResponse,
+  StreamedMessage,
+  StreamHandlers
 } from "./types";
 
+// Auth APIs
+export async function login(credentials: Credentials): Promise<User> {
+  const res = await apiRequest("POST", "/api/auth/login", credentials);
+  return res.json();
+}
+
+export async function register(credentials: Credentials): Promise<User> {
+  const res = await apiRequest("POST", "/api/auth/register", credentials);
+  return res.json();
+}
+
+export async function logout(): Promise<void> {
+  await apiRequest("POST", "/api/auth/logout");
+}
+
 // Document APIs
 export async function getDocuments(): Promise<Document[]> {
   const res = await apiRequest("GET", "/api/documents");
@@ -20,6 +42,18 @@ export async function getDocumentsByCategory(category: string): Promise<Document
   return res.json();
 }
 
+// Model APIs
+export async function getModels(): Promise<ModelsResponse> {
+  const res = await apiRequest("GET", "/api/models");
+  return res.json();
+}
+
+// Prompt profile APIs
+export async function getProfiles(): Promise<ProfilesResponse> {
+  const res = await apiRequest("GET", "/api/profiles");
+  return res.json();
+}
+
 // Chat APIs
 export async function getChats(): Promise<Chat[]> {
   const res = await apiRequest("GET", "/api/chats");
@@ -41,13 +75,27 @@ export async function updateChatTitle(id: number, title: string): Promise<Chat>
   return res.json();
 }
 
+// Pass null to switch the chat back to the server's default model
+export async function updateChatModel(id: number, model: string | null): Promise<Chat> {
+  const res = await apiRequest("PATCH", `/api/chats/${id}`, { model });
+  return res.json();
+}
+
 export async function deleteChat(id: number): Promise<void> {
   await apiRequest("DELETE", `/api/chats/${id}`);
 }
 
 // Message APIs
-export async function getChatMessages(chatId: number): Promise<Message[]> {
-  const res = await apiRequest("GET", `/api/chats/${chatId}/messages`);
+export async function getChatMessages(
+  chatId: number,
+  options: { before?: number; limit?: number } = {}
+): Promise<MessagePage> {
+  const params = new URLSearchParams();
+  if (options.before !== undefined) params.set("before", String(options.before));
+  if (options.limit !== undefined) params.set("limit", String(options.limit));
+  
+  const query = params.toString();
+  const res = await apiRequest("GET", `/api/chats/${chatId}/messages${query ? `?${query}` : ""}`);
   return res.json();
 }
 
@@ -58,3 +106,75 @@ export async function sendMessage(
   const res = await apiRequest("POST", `/api/chats/${chatId}/messages`, data);
   return res.json();
 }
+
+export async function streamMessage(
+  chatId: number,
+  data: CreateMessageRequest,
+  handlers: StreamHandlers
+): Promise<StreamedMessage> {
+  const res = await apiRequest("POST", `/api/chats/${chatId}/messages/stream`, data);
+  return readEventStream(res, handlers);
+}
+
+export async function streamNewChat(
+  data: CreateChatRequest,
+  handlers: StreamHandlers
+): Promise<StreamedMessage> {
+  const res = await apiRequest("POST", "/api/chat/stream", data);
+  return readEventStream(res, handlers);
+}
+
+// Parse the Server-Sent Events sent by the streaming endpoints until the "done" event arrives
+async function readEventStream(
+  res: Response,
+  handlers: StreamHandlers
+): Promise<StreamedMessage> {
+  if (!res.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+  
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+    
+    for (const rawEvent of events) {
+      let event = "message";
+      let data = "";
+      
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) {
+          event = line.slice("event:".length).trim();
+        } else if (line.startsWith("data:")) {
+          data += line.slice("data:".length).trim();
+        }
+      }
+      
+      if (!data) continue;
+      const payload = JSON.parse(data);
+      
+      switch (event) {
+        case "chat":
+          handlers.onChat?.(payload.chatId);
+          break;
+        case "token":
+          handlers.onToken(payload.content);
+          break;
+        case "done":
+          return payload as StreamedMessage;
+        case "error":
+          // LLM failures carry a user-facing message; other failures the underlying error
+          throw new Error(payload.code ? payload.message : payload.error || payload.message);
+      }
+    }
+  }
+  
+  throw new Error("The response stream ended unexpectedly");
+}
@@ -0,0 +1,41 @@
+// Answers mark statements with "[n]", the 1-based number of the source they come from
+const SOURCE_MARKER_PATTERN = /\[(\d{1,2})\]/g;
+
+/**
+ * Split text into plain strings and source numbers. Markers that don't match one of the
+ * message's sources (e.g. while streaming, before sources arrive) are kept as text.
+ */
+export function splitSourceMarkers(text: string, sourceCount: number): Array<string | number> {
+  const parts: Array<string | number> = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(text.matchAll(SOURCE_MARKER_PATTERN))) {
+    const number = Number(match[1]);
+    if (number < 1 || number > sourceCount) continue;
+
+    if (match.index! > lastIndex) {
+      parts.push(text.slice(lastIndex, match.index));
+    }
+    parts.push(number);
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push(text.slice(lastIndex));
+  }
+
+  return parts;
+}
+
+/**
+ * The source numbers an answer refers to, in ascending order
+ */
+export function getCitedSourceNumbers(content: string, sourceCount: number): number[] {
+  const cited = splitSourceMarkers(content, sourceCount).filter((part): part is number => typeof part === "number");
+  return Array.from(new Set(cited)).sort((a, b) => a - b);
+}
+
+// DOM id of a message's source citation, the target of its markers
+export function sourceElementId(messageId: number, sourceNumber: number): string {
+  return `source-${messageId}-${sourceNumber}`;
+}
@@ -1,17 +1,87 @@
+import type { Locale } from "@/i18n";
+
 export interface User {
   id: number;
   username: string;
+  role: "user" | "admin";
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
 }
 
 export interface Chat {
   id: number;
   title: string;
   userId?: number;
+  // Model the chat is answered with; null for the server default
+  model?: string | null;
+  // Prompt profile chosen when the chat was created; null for the server default
+  profileId?: string | null;
   createdAt: Date;
 }
 
+// A chat model offered by the server, see GET /api/models
+export interface ModelInfo {
+  id: string;
+  name: string;
+  description: string;
+  contextTokens: number;
+  maxAnswerTokens: number;
+  // US dollars per million tokens
+  cost?: { input: number; output: number };
+  capabilities: string[];
+  // Retired models can no longer be chosen or answer
+  status: "active" | "deprecated" | "retired";
+  replacement?: string;
+}
+
+export interface ModelsResponse {
+  models: ModelInfo[];
+  defaultModel: string;
+}
+
+// An audience and tone answers can be written for, see GET /api/profiles
+export interface PromptProfile {
+  id: string;
+  name: string;
+  description: string;
+  instructions: string;
+  answerLength: "short" | "medium" | "long";
+  retrieval: { limit?: number; preferredCategories?: string[] } | null;
+  updatedAt: Date;
+}
+
+export interface ProfilesResponse {
+  profiles: PromptProfile[];
+  defaultProfile: string;
+}
+
+// A Catechism paragraph with its place in the Catechism, see GET /api/ccc/:number
+export interface CatechismParagraph {
+  number: number;
+  text: string;
+  part: string;
+  section?: string;
+  chapter?: string;
+  article?: string;
+  footnotes: string[];
+  // The nearest paragraphs before and after it that the server has, for paging
+  previous: number | null;
+  next: number | null;
+}
+
 export interface ChatWithMessages extends Chat {
+  // The latest page of messages, oldest first
   messages: Message[];
+  // Pass as `before` to load the previous page; null when there are no older messages
+  nextCursor: number | null;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  nextCursor: number | null;
 }
 
 export interface Message {
@@ -20,17 +90,52 @@ export interface Message {
   role: "user" | "assistant" | "system";
   content: string;
   sources?: SourceReference[];
+  // Processing details, e.g. `searchQuery` on user messages and `citations` on answers
+  metadata?: MessageMetadata | null;
   createdAt: Date;
 }
 
+export interface MessageMetadata {
+  searchQuery?: string;
+  citations?: CitationReport;
+  // Model and prompt profile that generated an answer
+  model?: string;
+  profile?: string;
+  // Language the question was detected in and the answer written in
+  language?: Locale;
+  [key: string]: any;
+}
+
+// Result of checking an answer's citations against the sources retrieved for it
+export interface CitationReport {
+  citations: CheckedCitation[];
+  verified: number;
+  unverified: number;
+  // True when the server removed unverified citations from the answer
+  stripped: boolean;
+}
+
+export interface CheckedCitation {
+  text: string;
+  kind: "catechism" | "council" | "encyclical" | "scripture";
+  verified: boolean;
+  // "passage" when the exact paragraph or verses were retrieved, "document" when only the document was
+  support?: "passage" | "document";
+  sourceIds: number[];
+  reason?: string;
+}
+
 export interface SourceReference {
   id: number;
+  passageId?: string;
   title: string;
   content?: string;
   source: string;
   category?: string;
   section?: string;
   relevanceScore?: number;
+  // Set for translated documents, e.g. "es"
+  language?: string;
 }
 
 export interface Document {
@@ -44,11 +149,18 @@ export interface Document {
 
 export interface CreateMessageRequest {
   content: string;
+  // The interface language, assumed when the message is too short to detect its own
+  language?: Locale;
 }
 
 export interface CreateChatRequest {
   message: string;
   title?: string;
+  // Omit for the server's default model
+  model?: string;
+  // Omit for the server's default prompt profile
+  profileId?: string;
+  language?: Locale;
 }
 
 export interface CreateChatResponse {
@@ -57,5 +169,19 @@ export interface CreateChatResponse {
     role: "assistant";
     content: string;
     sources: SourceReference[];
+    metadata: MessageMetadata | null;
   };
 }
+
+export interface StreamedMessage {
+  role: "assistant";
+  content: string;
+  sources: SourceReference[];
+  metadata: MessageMetadata | null;
+}
+
+export interface StreamHandlers {
+  // Called once with the id of a newly created chat, before any tokens
+  onChat?: (chatId: number) => void;
+  onToken: (delta: string) => void;
+}
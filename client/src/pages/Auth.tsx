@@ -0,0 +1,135 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Link, Redirect } from "wouter";
+import { GalleryVerticalEnd, Loader2 } from "lucide-react";
+import { credentialsSchema } from "@shared/schema";
+import { useAuth, getErrorMessage } from "@/hooks/useAuth";
+import { useI18n } from "@/hooks/useI18n";
+import LanguagePicker from "@/components/LanguagePicker";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import type { Credentials } from "@/lib/types";
+
+interface AuthPageProps {
+  mode: "login" | "signup";
+}
+
+export default function AuthPage({ mode }: AuthPageProps) {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const { t } = useI18n();
+  const isSignup = mode === "signup";
+  const mutation = isSignup ? registerMutation : loginMutation;
+
+  // Signup enforces the server's username and password rules; login only needs both fields filled in
+  const loginSchema = z.object({
+    username: z.string().trim().min(1, t("auth.usernameRequired")),
+    password: z.string().min(1, t("auth.passwordRequired")),
+  });
+
+  const form = useForm<Credentials>({
+    resolver: zodResolver(isSignup ? credentialsSchema : loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  // Already logged in (or just succeeded): go to the chat
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const onSubmit = (values: Credentials) => {
+    mutation.mutate(values);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#F8F5E6]">
+      <header className="bg-[#4A2C82] text-white shadow-md">
+        <div className="container mx-auto px-4 py-3 flex justify-center items-center space-x-2 relative">
+          <GalleryVerticalEnd className="text-[#FFC107]" size={24} />
+          <h1 className="font-['Cinzel'] text-2xl font-bold">Fides Vera</h1>
+          <LanguagePicker className="absolute right-4" />
+        </div>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center px-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle className="font-['Cinzel'] text-[#4A2C82]">
+              {t(isSignup ? "auth.createAccount" : "auth.login")}
+            </CardTitle>
+            <CardDescription>
+              {t(isSignup ? "auth.signupDescription" : "auth.loginDescription")}
+            </CardDescription>
+          </CardHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)}>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("auth.username")}</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="username" autoFocus {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("auth.password")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          autoComplete={isSignup ? "new-password" : "current-password"}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {mutation.error && (
+                  <p className="text-sm text-red-600">{getErrorMessage(mutation.error)}</p>
+                )}
+              </CardContent>
+
+              <CardFooter className="flex flex-col gap-3">
+                <Button
+                  type="submit"
+                  className="w-full bg-[#4A2C82] hover:bg-[#3A2266]"
+                  disabled={mutation.isPending}
+                >
+                  {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t(isSignup ? "auth.signup" : "auth.login")}
+                </Button>
+                <p className="text-sm text-gray-600">
+                  {t(isSignup ? "auth.haveAccount" : "auth.newHere")}{" "}
+                  <Link href={isSignup ? "/login" : "/signup"} className="text-[#4A2C82] font-medium hover:underline">
+                    {t(isSignup ? "auth.login" : "auth.createAccount")}
+                  </Link>
+                </p>
+              </CardFooter>
+            </form>
+          </Form>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { ArrowLeft, ChevronLeft, ChevronRight, GalleryVerticalEnd, Loader2 } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import LanguagePicker from "@/components/LanguagePicker";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { CatechismParagraph } from "@/lib/types";
+
+// One Catechism paragraph with its place in the Catechism and its footnotes; sources link here
+export default function CatechismPage() {
+  const params = useParams();
+  const number = Number(params.number);
+  const { t } = useI18n();
+
+  const { data: paragraph, isLoading, isError } = useQuery<CatechismParagraph>({
+    queryKey: [`/api/ccc/${number}`],
+    enabled: Number.isInteger(number) && number > 0,
+  });
+
+  // Part > section > chapter > article, as far as the paragraph has them
+  const hierarchy = paragraph
+    ? [paragraph.part, paragraph.section, paragraph.chapter, paragraph.article].filter(Boolean)
+    : [];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#F8F5E6]">
+      <header className="bg-[#4A2C82] text-white shadow-md">
+        <div className="container mx-auto px-4 py-3 flex justify-center items-center space-x-2 relative">
+          <GalleryVerticalEnd className="text-[#FFC107]" size={24} />
+          <h1 className="font-['Cinzel'] text-2xl font-bold">Fides Vera</h1>
+          <LanguagePicker className="absolute right-4" />
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto max-w-2xl px-4 py-6">
+        <Link href="/" className="inline-flex items-center text-sm text-[#4A2C82] hover:underline mb-4">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          {t("catechism.backToChat")}
+        </Link>
+
+        <Card>
+          <CardHeader>
+            <p className="text-xs text-gray-500">{t("categories.catechism")}</p>
+            <CardTitle className="font-['Cinzel'] text-[#4A2C82]">
+              {t("catechism.paragraph", { number: params.number ?? "" })}
+            </CardTitle>
+            {hierarchy.length > 0 && (
+              <ol className="text-xs text-gray-600 space-y-0.5 pt-1">
+                {hierarchy.map((level, index) => (
+                  <li key={index} style={{ paddingLeft: `${index * 0.75}rem` }}>{level}</li>
+                ))}
+              </ol>
+            )}
+          </CardHeader>
+
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {t("catechism.loading")}
+              </div>
+            ) : isError || !paragraph ? (
+              <p className="text-sm text-gray-500 italic">
+                {t("catechism.unavailable", { number: params.number ?? "" })}
+              </p>
+            ) : (
+              <>
+                <p className="leading-relaxed">{paragraph.text}</p>
+
+                {paragraph.footnotes.length > 0 && (
+                  <div className="mt-6 border-t pt-3">
+                    <h2 className="text-xs font-semibold text-gray-700 mb-1">{t("catechism.footnotes")}</h2>
+                    <ol className="list-decimal list-inside text-xs text-gray-600 space-y-0.5">
+                      {paragraph.footnotes.map((footnote, index) => (
+                        <li key={index}>{footnote}</li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
+                <nav className="mt-6 flex justify-between text-sm">
+                  {paragraph.previous !== null ? (
+                    <Link href={`/ccc/${paragraph.previous}`} className="inline-flex items-center text-[#4A2C82] hover:underline">
+                      <ChevronLeft className="h-4 w-4" />
+                      {t("catechism.paragraph", { number: paragraph.previous })}
+                    </Link>
+                  ) : <span />}
+                  {paragraph.next !== null && (
+                    <Link href={`/ccc/${paragraph.next}`} className="inline-flex items-center text-[#4A2C82] hover:underline">
+                      {t("catechism.paragraph", { number: paragraph.next })}
+                      <ChevronRight className="h-4 w-4" />
+                    </Link>
+                  )}
+                </nav>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
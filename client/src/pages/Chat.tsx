@@ -1,14 +1,17 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { useParams } from 'wouter';
 import { useChat } from '@/hooks/useChat';
+import { useI18n } from '@/hooks/useI18n';
 import Header from '@/components/Header';
 import Sidebar from '@/components/Sidebar';
 import ChatInput from '@/components/ChatInput';
+import ModelPicker from '@/components/ModelPicker';
+import ProfilePicker from '@/components/ProfilePicker';
 import ChatMessage, { LoadingMessage } from '@/components/ChatMessage';
 import SourcePanel from '@/components/SourcePanel';
 import { SourcesSection } from '@/components/SourceCitation';
+import { getCitedSourceNumbers } from '@/lib/sourceMarkers';
 import { cn } from '@/lib/utils';
-import { systemPrompt } from '@/data/catholicTexts';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Message } from '@/lib/types';
@@ -17,8 +20,14 @@ export default function Chat() {
   const params = useParams();
   const chatId = params.id ? parseInt(params.id) : undefined;
   const isMobile = useIsMobile();
+  const { t } = useI18n();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll height before older messages are prepended, to keep the visible messages in place
+  const scrollHeightBeforeLoadRef = useRef<number | null>(null);
+  // Chat that has already been scrolled to its latest message after opening
+  const scrolledChatIdRef = useRef<number | undefined>();
   
   const { 
     chats,
@@ -26,7 +35,15 @@ export default function Chat() {
     currentChatId,
     isLoadingChats,
     isLoadingCurrentChat,
+    hasOlderMessages,
+    isLoadingOlderMessages,
+    loadOlderMessages,
     isProcessing,
+    streamingMessageId,
+    model,
+    changeModel,
+    profileId,
+    changeProfile,
     sendMessage,
     newChat,
     selectChat
@@ -37,6 +54,36 @@ export default function Chat() {
   //   messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   // }, [currentChat?.messages]);
 
+  // Show the latest messages when a saved chat is opened
+  useEffect(() => {
+    if (currentChat?.id && currentChat.id !== scrolledChatIdRef.current && currentChat.messages.length > 0) {
+      scrolledChatIdRef.current = currentChat.id;
+      messagesEndRef.current?.scrollIntoView();
+    }
+  }, [currentChat?.id, currentChat?.messages]);
+
+  // Load earlier messages when scrolled to the top of the conversation
+  const handleLoadOlder = () => {
+    if (!hasOlderMessages || isLoadingOlderMessages) return;
+    scrollHeightBeforeLoadRef.current = scrollContainerRef.current?.scrollHeight ?? null;
+    loadOlderMessages();
+  };
+
+  const handleScroll = () => {
+    if ((scrollContainerRef.current?.scrollTop ?? Infinity) < 80) {
+      handleLoadOlder();
+    }
+  };
+
+  // After older messages are prepended, shift the scroll position by the added height
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container || isLoadingOlderMessages || scrollHeightBeforeLoadRef.current === null) return;
+    
+    container.scrollTop += container.scrollHeight - scrollHeightBeforeLoadRef.current;
+    scrollHeightBeforeLoadRef.current = null;
+  }, [currentChat?.messages, isLoadingOlderMessages]);
+
   // Toggle sidebar visibility
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen);
@@ -47,7 +94,7 @@ export default function Chat() {
     id: 0,
     chatId: 0,
     role: 'assistant' as const,
-    content: "Welcome to Fides Vera, your personal Catholic teaching assistant. I'm here to help you explore Catholic teachings, doctrine, and tradition using authentic Catholic sources. How may I assist you today?",
+    content: t('chat.welcome'),
     createdAt: new Date()
   });
 
@@ -68,14 +115,36 @@ export default function Chat() {
         />
         
         <main className="flex-1 flex flex-col bg-[#F8F5E6] overflow-hidden">
-          <div className="flex-1 px-4 py-6 overflow-y-auto" style={{ maxHeight: 'calc(100vh - 140px)' }}>
+          <div 
+            ref={scrollContainerRef}
+            onScroll={handleScroll}
+            className="flex-1 px-4 py-6 overflow-y-auto" 
+            style={{ maxHeight: 'calc(100vh - 140px)' }}
+          >
             <div className="max-w-4xl mx-auto space-y-4">
               {isLoadingCurrentChat ? (
                 <div className="flex items-center justify-center h-32">
-                  <div className="text-sm text-gray-500">Loading conversation...</div>
+                  <div className="text-sm text-gray-500">{t('chat.loading')}</div>
                 </div>
               ) : (
                 <>
+                  {/* Earlier messages load on scroll; the button covers chats too short to scroll */}
+                  {hasOlderMessages && (
+                    <div className="flex justify-center h-8">
+                      {isLoadingOlderMessages ? (
+                        <span className="text-sm text-gray-500">{t('chat.loadingOlder')}</span>
+                      ) : (
+                        <button 
+                          type="button"
+                          onClick={handleLoadOlder}
+                          className="text-sm text-[#4A2C82] hover:underline"
+                        >
+                          {t('chat.loadOlder')}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  
                   {/* Welcome message for new chats */}
                   {showWelcomeMessage && (
                     <ChatMessage message={getWelcomeMessage()} />
@@ -83,11 +152,15 @@ export default function Chat() {
                   
                   {/* Conversation messages */}
                   {messagesToShow.map((message: Message) => (
-                    <ChatMessage key={message.id} message={message} />
+                    <ChatMessage 
+                      key={message.id} 
+                      message={message} 
+                      isStreaming={message.id === streamingMessageId}
+                    />
                   ))}
                   
-                  {/* Loading indicator while processing */}
-                  {isProcessing && <LoadingMessage />}
+                  {/* Loading indicator until the first streamed token arrives */}
+                  {isProcessing && !streamingMessageId && <LoadingMessage />}
                   
                   {/* Sources section (for most recent assistant message) */}
                   {messagesToShow.length > 0 && 
@@ -95,6 +168,10 @@ export default function Chat() {
                    messagesToShow[messagesToShow.length - 1].sources && (
                     <SourcesSection 
                       sources={messagesToShow[messagesToShow.length - 1].sources || []} 
+                      citedNumbers={getCitedSourceNumbers(
+                        messagesToShow[messagesToShow.length - 1].content,
+                        messagesToShow[messagesToShow.length - 1].sources?.length || 0
+                      )}
                     />
                   )}
                 </>
@@ -106,6 +183,16 @@ export default function Chat() {
           <ChatInput 
             onSendMessage={sendMessage} 
             isDisabled={isProcessing}
+            controls={
+              <>
+                <ProfilePicker 
+                  value={profileId} 
+                  onChange={changeProfile} 
+                  disabled={isProcessing || !!currentChatId} 
+                />
+                <ModelPicker value={model} onChange={changeModel} disabled={isProcessing} />
+              </>
+            }
           />
         </main>
         
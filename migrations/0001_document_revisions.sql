@@ -0,0 +1,12 @@
+CREATE TABLE "document_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"revision" integer NOT NULL,
+	"action" text NOT NULL,
+	"title" text NOT NULL,
+	"content" text NOT NULL,
+	"source" text NOT NULL,
+	"category" text NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "metadata" jsonb;
\ No newline at end of file
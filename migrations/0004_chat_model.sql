@@ -0,0 +1 @@
+ALTER TABLE "chats" ADD COLUMN "model" text;
\ No newline at end of file
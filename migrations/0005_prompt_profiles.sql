@@ -0,0 +1,11 @@
+CREATE TABLE "prompt_profiles" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"instructions" text NOT NULL,
+	"answer_length" text DEFAULT 'medium' NOT NULL,
+	"retrieval" jsonb,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "profile_id" text;
\ No newline at end of file
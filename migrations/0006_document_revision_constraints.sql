@@ -0,0 +1,9 @@
+-- Revisions have no foreign key to their document, so the history of a deleted one is kept and it can be restored
+-- Renumber revisions that concurrent updates gave the same number
+UPDATE "document_revisions" SET "revision" = "numbered"."revision" FROM (
+	SELECT "a"."id", count(*) AS "revision" FROM "document_revisions" AS "a"
+	JOIN "document_revisions" AS "b" ON "b"."document_id" = "a"."document_id"
+		AND ("b"."revision" < "a"."revision" OR ("b"."revision" = "a"."revision" AND "b"."id" <= "a"."id"))
+	GROUP BY "a"."id"
+) AS "numbered" WHERE "document_revisions"."id" = "numbered"."id" AND "document_revisions"."revision" <> "numbered"."revision";--> statement-breakpoint
+ALTER TABLE "document_revisions" ADD CONSTRAINT "document_revisions_document_id_revision_unique" UNIQUE("document_id","revision");
\ No newline at end of file
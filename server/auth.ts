@@ -0,0 +1,264 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { credentialsSchema, type PublicUser } from "@shared/schema";
+import { storage } from "./storage";
+import { ExplicitUser as SelectUser } from "./types";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Sessions last 30 days
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Hash a password with scrypt and a random salt, stored as "<hash>.<salt>" in hex
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+/**
+ * Check a password against a hash produced by hashPassword
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  // Accounts without a usable hash (e.g. the legacy guest user) can't log in
+  if (!hash || !salt) return false;
+  
+  const storedHash = Buffer.from(hash, "hex");
+  const suppliedHash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+// Strip the password hash before sending a user to the client
+function toPublicUser(user: SelectUser): PublicUser {
+  return { id: user.id, username: user.username, role: user.role };
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  
+  // Sessions still work, but everyone is logged out whenever the server restarts
+  console.warn("[Auth] SESSION_SECRET not set, using a random secret for this process");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Set up cookie sessions and passport-local login, and register the /api/auth routes:
+ * register, login, logout and me
+ */
+export function setupAuth(app: Express) {
+  // Needed for secure cookies behind a TLS-terminating proxy
+  app.set("trust proxy", 1);
+  
+  app.use(session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      // Only sent over HTTPS when the request came in over HTTPS
+      secure: "auto",
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+  
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // An unknown id (e.g. a deleted account) simply ends the session
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+  
+  // Create an account and log in as it
+  app.post("/api/auth/register", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parseResult = credentialsSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid registration data",
+          errors: parseResult.error.errors
+        });
+      }
+      
+      const { username, password } = parseResult.data;
+      
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+      
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error("Error registering user:", error);
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+  
+  app.post("/api/auth/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false, info?: { message: string }) => {
+      if (error) return next(error);
+      
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+      
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+  
+  app.post("/api/auth/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.status(204).end();
+    });
+  });
+  
+  // The logged-in user, or 401 when nobody is logged in
+  app.get("/api/auth/me", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    
+    res.json(toPublicUser(req.user));
+  });
+}
+
+/**
+ * Reject requests without a logged-in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "You must be logged in" });
+  }
+  
+  next();
+}
+
+/**
+ * Reject requests unless the logged-in user is an admin
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "You must be logged in" });
+  }
+  
+  if (req.user.role !== "admin") {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  
+  next();
+}
+
+/**
+ * Load the chat named by the `:id` route parameter and check the logged-in user may use it.
+ * Responds 401 without a session, 404 when the chat doesn't exist and 403 when it belongs
+ * to someone else. With `allowAdmin`, admins may access any chat (for moderation).
+ * The chat is passed on in `res.locals.chat`.
+ */
+export function requireChatAccess({ allowAdmin = false }: { allowAdmin?: boolean } = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "You must be logged in" });
+    }
+    
+    try {
+      const chat = await storage.getChat(Number(req.params.id));
+      
+      if (!chat) {
+        return res.status(404).json({ message: "Chat not found" });
+      }
+      
+      const isOwner = chat.userId === req.user.id;
+      const isModerator = allowAdmin && req.user.role === "admin";
+      
+      if (!isOwner && !isModerator) {
+        return res.status(403).json({ message: "You do not have access to this chat" });
+      }
+      
+      res.locals.chat = chat;
+      next();
+    } catch (error) {
+      console.error(`Error authorizing access to chat ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to fetch chat" });
+    }
+  };
+}
+
+/**
+ * Require the ADMIN_API_KEY, sent as "Authorization: Bearer <key>" or "X-API-Key: <key>".
+ * Used to protect knowledge base changes; when no key is configured those routes are disabled.
+ */
+export function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.ADMIN_API_KEY;
+  
+  if (!expected) {
+    return res.status(503).json({ 
+      message: "This endpoint is disabled because ADMIN_API_KEY is not configured" 
+    });
+  }
+  
+  const authorization = req.get("authorization") || "";
+  const provided = authorization.startsWith("Bearer ")
+    ? authorization.slice("Bearer ".length).trim()
+    : req.get("x-api-key");
+  
+  if (!provided || !safeEqual(provided, expected)) {
+    return res.status(401).json({ message: "Invalid or missing API key" });
+  }
+  
+  next();
+}
+
+// Constant-time string comparison so the key can't be guessed from response timing
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
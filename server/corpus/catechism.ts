@@ -0,0 +1,104 @@
+/**
+ * Paragraphs of the Catechism of the Catholic Church (second edition), each with its place in
+ * the Catechism's hierarchy and its footnotes, seeded as documents so "CCC 1730" can be
+ * answered exactly.
+ *
+ * This is a selection of often cited paragraphs: the text is copyrighted by the Libreria Editrice
+ * Vaticana, so the complete Catechism isn't bundled. Ingest a JSON array of paragraphs of the same
+ * shape (`npm run ingest -- --catechism`) to serve the complete text.
+ */
+export interface CatechismParagraphText {
+  number: number;
+  text: string;
+  // e.g. "Part Three: Life in Christ"; the Prologue counts as a part
+  part: string;
+  section?: string;
+  chapter?: string;
+  article?: string;
+  // In order of their markers in the text
+  footnotes?: string[];
+}
+
+export const CATECHISM: CatechismParagraphText[] = [
+  {
+    number: 1,
+    part: "Prologue",
+    section: "I. The Life of Man - To Know and Love God",
+    text: "God, infinitely perfect and blessed in himself, in a plan of sheer goodness freely created man to make him share in his own blessed life. For this reason, at every time and in every place, God draws close to man. He calls man to seek him, to know him, to love him with all his strength. He calls together all men, scattered and divided by sin, into the unity of his family, the Church. To accomplish this, when the fullness of time had come, God sent his Son as Redeemer and Saviour. In his Son and through him, he invites men to become, in the Holy Spirit, his adopted children and thus heirs of his blessed life."
+  },
+  {
+    number: 27,
+    part: "Part One: The Profession of Faith",
+    section: "Section One: \"I Believe\" - \"We Believe\"",
+    chapter: "Chapter One: Man's Capacity for God",
+    article: "I. The Desire for God",
+    text: "The desire for God is written in the human heart, because man is created by God and for God; and God never ceases to draw man to himself. Only in God will he find the truth and happiness he never stops searching for: The dignity of man rests above all on the fact that he is called to communion with God. This invitation to converse with God is addressed to man as soon as he comes into being. For if man exists it is because God has created him through love, and through love continues to hold him in existence. He cannot live fully according to truth unless he freely acknowledges that love and entrusts himself to his creator.",
+    footnotes: ["GS 19 § 1."]
+  },
+  {
+    number: 1213,
+    part: "Part Two: The Celebration of the Christian Mystery",
+    section: "Section Two: The Seven Sacraments of the Church",
+    chapter: "Chapter One: The Sacraments of Christian Initiation",
+    article: "Article 1: The Sacrament of Baptism",
+    text: "Holy Baptism is the basis of the whole Christian life, the gateway to life in the Spirit (vitae spiritualis ianua), and the door which gives access to the other sacraments. Through Baptism we are freed from sin and reborn as sons of God; we become members of Christ, are incorporated into the Church and made sharers in her mission: \"Baptism is the sacrament of regeneration through water in the word.\"",
+    footnotes: [
+      "Cf. Council of Florence: DS 1314: vitae spiritualis ianua.",
+      "Roman Catechism II, 2, 5; cf. Council of Florence: DS 1314; CIC, cann. 204 § 1; 849; CCEO, can. 675 § 1."
+    ]
+  },
+  {
+    number: 1324,
+    part: "Part Two: The Celebration of the Christian Mystery",
+    section: "Section Two: The Seven Sacraments of the Church",
+    chapter: "Chapter One: The Sacraments of Christian Initiation",
+    article: "Article 3: The Sacrament of the Eucharist",
+    text: "The Eucharist is \"the source and summit of the Christian life.\" \"The other sacraments, and indeed all ecclesiastical ministries and works of the apostolate, are bound up with the Eucharist and are oriented toward it. For in the blessed Eucharist is contained the whole spiritual good of the Church, namely Christ himself, our Pasch.\"",
+    footnotes: ["LG 11.", "PO 5."]
+  },
+  {
+    number: 1730,
+    part: "Part Three: Life in Christ",
+    section: "Section One: Man's Vocation: Life in the Spirit",
+    chapter: "Chapter One: The Dignity of the Human Person",
+    article: "Article 3: Man's Freedom",
+    text: "God created man a rational being, conferring on him the dignity of a person who can initiate and control his own actions. \"God willed that man should be left in the hand of his own counsel, so that he might of his own accord seek his Creator and freely attain his full and blessed perfection by cleaving to him.\"",
+    footnotes: ["GS 17; Sir 15:14."]
+  },
+  {
+    number: 1731,
+    part: "Part Three: Life in Christ",
+    section: "Section One: Man's Vocation: Life in the Spirit",
+    chapter: "Chapter One: The Dignity of the Human Person",
+    article: "Article 3: Man's Freedom",
+    text: "Freedom is the power, rooted in reason and will, to act or not to act, to do this or that, and so to perform deliberate actions on one's own responsibility. By free will one shapes one's own life. Human freedom is a force for growth and maturity in truth and goodness; it attains its perfection when directed toward God, our beatitude."
+  },
+  {
+    number: 1732,
+    part: "Part Three: Life in Christ",
+    section: "Section One: Man's Vocation: Life in the Spirit",
+    chapter: "Chapter One: The Dignity of the Human Person",
+    article: "Article 3: Man's Freedom",
+    text: "As long as freedom has not bound itself definitively to its ultimate good which is God, there is the possibility of choosing between good and evil, and thus of growing in perfection or of failing and sinning. This freedom characterizes properly human acts. It is the basis of praise or blame, merit or reproach."
+  },
+  {
+    number: 2558,
+    part: "Part Four: Christian Prayer",
+    section: "Section One: Prayer in the Christian Life",
+    text: "\"Great is the mystery of the faith!\" The Church professes this mystery in the Apostles' Creed (Part One) and celebrates it in the sacramental liturgy (Part Two), so that the life of the faithful may be conformed to Christ in the Holy Spirit to the glory of God the Father (Part Three). This mystery, then, requires that the faithful believe in it, that they celebrate it, and that they live from it in a vital and personal relationship with the living and true God. This relationship is prayer.",
+    footnotes: ["1 Tim 3:16."]
+  },
+  {
+    number: 2559,
+    part: "Part Four: Christian Prayer",
+    section: "Section One: Prayer in the Christian Life",
+    text: "\"Prayer is the raising of one's mind and heart to God or the requesting of good things from God.\" But when we pray, do we speak from the height of our pride and will, or \"out of the depths\" of a humble and contrite heart? He who humbles himself will be exalted; humility is the foundation of prayer. Only when we humbly acknowledge that \"we do not know how to pray as we ought,\" are we ready to receive freely the gift of prayer. \"Man is a beggar before God.\"",
+    footnotes: [
+      "St. John Damascene, De fide orth. 3, 24: PG 94, 1089C.",
+      "Ps 130:1.",
+      "Cf. Lk 18:9-14.",
+      "Rom 8:26.",
+      "St. Augustine, Sermo 56, 6, 9: PL 38, 381."
+    ]
+  }
+];
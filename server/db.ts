@@ -0,0 +1,29 @@
+import path from "path";
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+/**
+ * Create a connection pool and Drizzle client for the given Postgres URL.
+ * Any pg-compatible Pool (e.g. pg-mem's adapter) can be passed instead of a URL.
+ */
+export function createDatabase(connection: string | pg.Pool): { pool: pg.Pool; db: Database } {
+  const pool = typeof connection === "string"
+    ? new pg.Pool({ connectionString: connection })
+    : connection;
+
+  const db = drizzle(pool, { schema });
+  return { pool, db };
+}
+
+/**
+ * Apply the SQL migrations generated by drizzle-kit into ./migrations
+ */
+export async function runMigrations(db: Database): Promise<void> {
+  // Resolves to the repo root both from server/ (tsx) and dist/ (bundled build)
+  const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+  await migrate(db, { migrationsFolder });
+}
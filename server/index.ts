@@ -7,7 +7,8 @@ import { setupVite, serveStatic, log } from "./vite";
 dotenv.config();
 
 const app = express();
-app.use(express.json());
+// Allow large bodies so whole corpora can be posted to /api/documents in one batch
+app.use(express.json({ limit: "25mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
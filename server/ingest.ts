@@ -0,0 +1,186 @@
+/**
+ * Add documents to a running Fides Vera server's knowledge base.
+ *
+ * Usage: npm run ingest -- [options] <file or directory>...
+ *
+ *   --category <name>  Category for documents that don't set one
+ *   --source <name>    Source for documents that don't set one
+ *   --url <url>        Server URL (default http://localhost:$PORT or :5000)
+ *   --api-key <key>    Admin API key (default $ADMIN_API_KEY)
+ *   --bible <name>     The files are Bibles in this translation, as JSON of books, chapters and
+ *                      verses; each chapter becomes a Scripture document (e.g. --bible Douay-Rheims)
+ *   --catechism        The files are Catechism paragraphs, as a JSON array in the CATECHISM_PATH
+ *                      shape; each run of paragraphs in one article becomes a Catechism document
+ *   --skip <n>         Don't send the first n documents, e.g. to resume an interrupted import
+ *   --dry-run          Parse and validate only; nothing is sent
+ *
+ * Supported files: .json, .jsonl, .md and .txt. Directories are read recursively.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { detectFormat, parseBible, parseCatechism, parseDocuments } from "./services/documentParser";
+import { ExplicitInsertDocument as InsertDocument } from "./types";
+
+interface IngestOptions {
+  category?: string;
+  source?: string;
+  url: string;
+  apiKey?: string;
+  bible?: string;
+  catechism: boolean;
+  skip: number;
+  dryRun: boolean;
+  paths: string[];
+}
+
+// Documents are posted in batches to keep request bodies reasonably small
+const BATCH_SIZE = 50;
+
+function parseArgs(args: string[]): IngestOptions {
+  const options: IngestOptions = {
+    url: `http://localhost:${process.env.PORT || 5000}`,
+    apiKey: process.env.ADMIN_API_KEY,
+    catechism: false,
+    skip: 0,
+    dryRun: false,
+    paths: []
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+
+    switch (arg) {
+      case "--category": options.category = value(); break;
+      case "--source": options.source = value(); break;
+      case "--url": options.url = value(); break;
+      case "--api-key": options.apiKey = value(); break;
+      case "--bible": options.bible = value(); break;
+      case "--catechism": options.catechism = true; break;
+      case "--skip":
+        options.skip = Number(value());
+        if (!Number.isInteger(options.skip) || options.skip < 0) throw new Error("--skip takes a number of documents");
+        break;
+      case "--dry-run": options.dryRun = true; break;
+      default:
+        if (arg.startsWith("--")) throw new Error(`Unknown option ${arg}`);
+        options.paths.push(arg);
+    }
+  }
+
+  return options;
+}
+
+async function collectFiles(target: string): Promise<string[]> {
+  const stats = await fs.stat(target);
+  if (!stats.isDirectory()) return [target];
+
+  const entries = await fs.readdir(target, { withFileTypes: true });
+  const files = await Promise.all(
+    entries
+      .filter(entry => !entry.name.startsWith("."))
+      .map(entry => {
+        const fullPath = path.join(target, entry.name);
+        return entry.isDirectory()
+          ? collectFiles(fullPath)
+          : Promise.resolve(detectFormat(entry.name) ? [fullPath] : []);
+      })
+  );
+  return files.flat();
+}
+
+async function postBatch(options: IngestOptions, documents: InsertDocument[]): Promise<number> {
+  const response = await fetch(new URL("/api/documents", options.url), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${options.apiKey}`
+    },
+    body: JSON.stringify({ documents })
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const details = Array.isArray(body.errors)
+      ? "\n" + body.errors.map((e: { index: number; message: string }) => `  [${e.index}] ${e.message}`).join("\n")
+      : "";
+    throw new Error(`Server responded ${response.status}: ${body.message || response.statusText}${details}`);
+  }
+
+  return body.count ?? 0;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.paths.length === 0) {
+    console.error("Usage: npm run ingest -- [--category <name>] [--source <name>] [--url <url>] [--api-key <key>] [--bible <translation>] [--catechism] [--skip <n>] [--dry-run] <file or directory>...");
+    process.exit(1);
+  }
+
+  const defaults: Partial<InsertDocument> = {};
+  if (options.category) defaults.category = options.category;
+  if (options.source) defaults.source = options.source;
+
+  const documents: InsertDocument[] = [];
+  let errorCount = 0;
+
+  for (const target of options.paths) {
+    for (const file of await collectFiles(target)) {
+      const format = detectFormat(file);
+      if (!format || ((options.bible || options.catechism) && format !== "json")) {
+        console.warn(`Skipping ${file}: unsupported file type`);
+        continue;
+      }
+
+      const raw = await fs.readFile(file, "utf8");
+      const parsed = options.bible
+        ? parseBible(raw, options.bible, { origin: file })
+        : options.catechism
+          ? parseCatechism(raw, { origin: file })
+          : parseDocuments(raw, format, { origin: file, defaults });
+
+      for (const error of parsed.errors) {
+        console.error(`${file} [${error.index}]: ${error.message}`);
+      }
+      errorCount += parsed.errors.length;
+      documents.push(...parsed.documents);
+    }
+  }
+
+  // Nothing is sent unless every file is valid. Each batch is saved all or nothing, but earlier
+  // batches stay saved when a later one fails; that failure reports where to resume from.
+  if (errorCount > 0) {
+    console.error(`\n${errorCount} invalid document(s); nothing was ingested`);
+    process.exit(1);
+  }
+
+  console.log(`Parsed ${documents.length} document(s)`);
+  if (options.dryRun || documents.length === 0) return;
+
+  if (!options.apiKey) {
+    console.error("An API key is required: set ADMIN_API_KEY or pass --api-key");
+    process.exit(1);
+  }
+
+  let ingested = 0;
+  for (let i = options.skip; i < documents.length; i += BATCH_SIZE) {
+    try {
+      ingested += await postBatch(options, documents.slice(i, i + BATCH_SIZE));
+    } catch (error) {
+      console.error(`Ingested ${ingested} document(s) before this failure; rerun with --skip ${i} to resume`);
+      throw error;
+    }
+  }
+
+  console.log(`Ingested ${ingested} document(s) into ${options.url}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
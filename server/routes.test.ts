@@ -0,0 +1,302 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import express, { type Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const API_KEY = "test-admin-key";
+const EMBEDDING_INDEX_PATH = path.join(os.tmpdir(), `routes-test-${process.pid}.json`);
+
+let app: Express;
+
+// Usernames are unique per test, since every test shares the in-memory storage
+const unique = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+beforeAll(async () => {
+  // Storage, sessions and the embedding index read their settings when first imported
+  delete process.env.DATABASE_URL;
+  process.env.ADMIN_API_KEY = API_KEY;
+  process.env.SESSION_SECRET = "test-session-secret";
+  process.env.EMBEDDING_INDEX_PATH = EMBEDDING_INDEX_PATH;
+  // The mock answers with a fixed placeholder, streamed word by word
+  process.env.LLM_PROVIDER = "mock";
+
+  const { registerRoutes } = await import("./routes");
+  app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+});
+
+afterAll(async () => {
+  await fs.promises.rm(EMBEDDING_INDEX_PATH, { force: true });
+});
+
+// Register a user and return an agent that keeps their session cookie
+async function signUp(prefix: string) {
+  const agent = request.agent(app);
+  const credentials = { username: unique(prefix), password: "correct horse" };
+  const res = await agent.post("/api/auth/register").send(credentials).expect(201);
+  return { agent, credentials, user: res.body as { id: number; username: string; role: string } };
+}
+
+// The events of a Server-Sent Events response body, in order
+function sseEvents(body: string): Array<{ event: string; data: any }> {
+  return body
+    .split("\n\n")
+    .filter(Boolean)
+    .map(block => {
+      const event = block.match(/^event: (.*)$/m)?.[1] ?? "message";
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      return { event, data: data === undefined ? undefined : JSON.parse(data) };
+    });
+}
+
+async function promote(userId: number) {
+  await request(app)
+    .patch(`/api/users/${userId}/role`)
+    .set("Authorization", `Bearer ${API_KEY}`)
+    .send({ role: "admin" })
+    .expect(200);
+}
+
+describe("auth", () => {
+  it("registers a user and logs them in", async () => {
+    const { agent, credentials, user } = await signUp("alice");
+
+    expect(user).toMatchObject({ username: credentials.username, role: "user" });
+    expect(user).not.toHaveProperty("password");
+    expect((await agent.get("/api/auth/me").expect(200)).body).toEqual(user);
+  });
+
+  it("rejects invalid and duplicate registrations", async () => {
+    const { credentials } = await signUp("bob");
+
+    await request(app).post("/api/auth/register").send(credentials).expect(409);
+    await request(app).post("/api/auth/register").send({ username: "b", password: "correct horse" }).expect(400);
+    await request(app).post("/api/auth/register").send({ username: unique("carol"), password: "short" }).expect(400);
+  });
+
+  it("logs in with the right password only", async () => {
+    const { credentials, user } = await signUp("dave");
+    const agent = request.agent(app);
+
+    await agent.post("/api/auth/login").send({ ...credentials, password: "wrong password" }).expect(401);
+    await agent.get("/api/auth/me").expect(401);
+
+    const res = await agent.post("/api/auth/login").send(credentials).expect(200);
+    expect(res.body).toEqual(user);
+    await agent.get("/api/auth/me").expect(200);
+  });
+
+  it("ends the session on logout", async () => {
+    const { agent } = await signUp("erin");
+
+    await agent.post("/api/auth/logout").expect(204);
+    await agent.get("/api/auth/me").expect(401);
+    await agent.get("/api/chats").expect(401);
+  });
+});
+
+describe("chats", () => {
+  it("requires a logged-in user", async () => {
+    const { agent } = await signUp("frank");
+    const chat = (await agent.post("/api/chats").send({ title: "Mine" }).expect(201)).body;
+
+    await request(app).post("/api/chats").send({ title: "Anonymous" }).expect(401);
+    await request(app).get("/api/chats").expect(401);
+    await request(app).get(`/api/chats/${chat.id}`).expect(401);
+    await request(app).get(`/api/chats/${chat.id}/messages`).expect(401);
+    await request(app).delete(`/api/chats/${chat.id}`).expect(401);
+  });
+
+  it("lets the owner read, rename and delete their chat", async () => {
+    const { agent, user } = await signUp("grace");
+    const chat = (await agent.post("/api/chats").send({ title: "Mine" }).expect(201)).body;
+
+    expect(chat).toMatchObject({ title: "Mine", userId: user.id });
+    expect((await agent.get("/api/chats").expect(200)).body.map((c: { id: number }) => c.id)).toEqual([chat.id]);
+    expect((await agent.get(`/api/chats/${chat.id}`).expect(200)).body).toMatchObject({ id: chat.id, messages: [] });
+    expect((await agent.patch(`/api/chats/${chat.id}`).send({ title: "Renamed" }).expect(200)).body.title).toBe("Renamed");
+
+    await agent.delete(`/api/chats/${chat.id}`).expect(204);
+    await agent.get(`/api/chats/${chat.id}`).expect(404);
+  });
+
+  it("checks the model and prompt profile a chat is created with", async () => {
+    const { agent } = await signUp("gwen");
+
+    const chat = (await agent.post("/api/chats").send({ title: "Youth group", profileId: "youth", model: null }).expect(201)).body;
+    expect(chat).toMatchObject({ profileId: "youth", model: null });
+
+    await agent.post("/api/chats").send({ title: "Bad model", model: 42 }).expect(400);
+    expect((await agent.post("/api/chats").send({ title: "Unknown model", model: "no-such-model" }).expect(400)).body.code)
+      .toBe("unknown_model");
+    expect((await agent.post("/api/chats").send({ title: "Unknown profile", profileId: "no-such-profile" }).expect(400)).body.code)
+      .toBe("unknown_profile");
+  });
+
+  it("keeps other users out of a chat", async () => {
+    const owner = await signUp("heidi");
+    const other = await signUp("ivan");
+    const chat = (await owner.agent.post("/api/chats").send({ title: "Private" }).expect(201)).body;
+
+    await other.agent.get(`/api/chats/${chat.id}`).expect(403);
+    await other.agent.get(`/api/chats/${chat.id}/messages`).expect(403);
+    await other.agent.patch(`/api/chats/${chat.id}`).send({ title: "Taken" }).expect(403);
+    await other.agent.post(`/api/chats/${chat.id}/messages`).send({ content: "Hello" }).expect(403);
+    await other.agent.delete(`/api/chats/${chat.id}`).expect(403);
+    await other.agent.get(`/api/chats?userId=${owner.user.id}`).expect(403);
+
+    expect((await owner.agent.get(`/api/chats/${chat.id}`).expect(200)).body.title).toBe("Private");
+  });
+});
+
+describe("user roles", () => {
+  it("changes roles only with the admin API key", async () => {
+    const { user } = await signUp("judy");
+
+    await request(app).patch(`/api/users/${user.id}/role`).send({ role: "admin" }).expect(401);
+    await request(app)
+      .patch(`/api/users/${user.id}/role`)
+      .set("X-API-Key", "wrong-key")
+      .send({ role: "admin" })
+      .expect(401);
+    await request(app)
+      .patch(`/api/users/${user.id}/role`)
+      .set("X-API-Key", API_KEY)
+      .send({ role: "pope" })
+      .expect(400);
+    await request(app)
+      .patch("/api/users/999999/role")
+      .set("X-API-Key", API_KEY)
+      .send({ role: "admin" })
+      .expect(404);
+
+    const res = await request(app)
+      .patch(`/api/users/${user.id}/role`)
+      .set("X-API-Key", API_KEY)
+      .send({ role: "admin" })
+      .expect(200);
+    expect(res.body).toEqual({ id: user.id, username: user.username, role: "admin" });
+  });
+
+  it("applies a role change to an existing session", async () => {
+    const { agent, user } = await signUp("mallory");
+
+    await promote(user.id);
+
+    expect((await agent.get("/api/auth/me").expect(200)).body.role).toBe("admin");
+  });
+});
+
+describe("admin moderation", () => {
+  it("lets an admin read and delete another user's chat", async () => {
+    const owner = await signUp("niaj");
+    const admin = await signUp("olivia");
+    await promote(admin.user.id);
+    const chat = (await owner.agent.post("/api/chats").send({ title: "Reported" }).expect(201)).body;
+
+    const listed = await admin.agent.get(`/api/chats?userId=${owner.user.id}`).expect(200);
+    expect(listed.body.map((c: { id: number }) => c.id)).toEqual([chat.id]);
+    await admin.agent.get(`/api/chats/${chat.id}`).expect(200);
+    await admin.agent.get(`/api/chats/${chat.id}/messages`).expect(200);
+
+    await admin.agent.delete(`/api/chats/${chat.id}`).expect(204);
+    await owner.agent.get(`/api/chats/${chat.id}`).expect(404);
+  });
+
+  it("doesn't let an admin write to another user's chat", async () => {
+    const owner = await signUp("peggy");
+    const admin = await signUp("rupert");
+    await promote(admin.user.id);
+    const chat = (await owner.agent.post("/api/chats").send({ title: "Someone else's" }).expect(201)).body;
+
+    await admin.agent.patch(`/api/chats/${chat.id}`).send({ title: "Moderated" }).expect(403);
+    await admin.agent.post(`/api/chats/${chat.id}/messages`).send({ content: "Hello" }).expect(403);
+  });
+
+  it("limits prompt profile changes to admins", async () => {
+    const { agent } = await signUp("sybil");
+    const profile = {
+      id: unique("profile"),
+      name: "Test profile",
+      description: "For tests",
+      instructions: "Answer briefly.",
+      answerLength: "short"
+    };
+
+    await request(app).post("/api/profiles").send(profile).expect(401);
+    await agent.post("/api/profiles").send(profile).expect(403);
+  });
+});
+
+describe("Catechism lookup", () => {
+  it("rejects backwards and out-of-range paragraph ranges", async () => {
+    const res = await request(app).get("/api/ccc?range=200-100").expect(400);
+    expect(res.body).toEqual({ message: "The paragraph range 200-100 runs backwards", code: "invalid_paragraph" });
+
+    await request(app).get("/api/ccc?range=2860-2870").expect(400);
+    await request(app).get("/api/ccc/0").expect(400);
+  });
+
+  it("marks valid paragraphs that aren't loaded", async () => {
+    expect((await request(app).get("/api/ccc/1000").expect(404)).body).toMatchObject({ code: "not_loaded" });
+    expect((await request(app).get("/api/ccc?range=1000-1002").expect(404)).body)
+      .toMatchObject({ code: "not_loaded", missing: [1000, 1001, 1002] });
+  });
+});
+
+describe("Scripture lookup", () => {
+  it("quotes bundled verses and marks others as not loaded", async () => {
+    const res = await request(app).get("/api/scripture").query({ ref: "Jn 3:16" }).expect(200);
+    expect(res.body.passages[0]).toMatchObject({ reference: "John 3:16" });
+
+    const missing = await request(app).get("/api/scripture").query({ ref: "Obadiah 1:1" }).expect(404);
+    expect(missing.body).toMatchObject({ code: "not_loaded", missing: ["Obadiah 1:1"] });
+    await request(app).get("/api/scripture").query({ ref: "Foo 1:1" }).expect(400);
+  });
+});
+
+describe("streamed answers", () => {
+  it("streams tokens and then the saved answer", async () => {
+    const { agent } = await signUp("joan");
+    const chat = (await agent.post("/api/chats").send({ title: "Streaming" }).expect(201)).body;
+
+    const res = await agent.post(`/api/chats/${chat.id}/messages/stream`).send({ content: "What is grace?" }).expect(200);
+    expect(res.headers["content-type"]).toMatch(/^text\/event-stream/);
+
+    const events = sseEvents(res.text);
+    const done = events[events.length - 1];
+    const tokens = events.slice(0, -1);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.every(e => e.event === "token")).toBe(true);
+    expect(done).toMatchObject({ event: "done", data: { role: "assistant" } });
+    expect(tokens.map(e => e.data.content).join("")).toBe(done.data.content);
+
+    const { messages } = (await agent.get(`/api/chats/${chat.id}/messages`).expect(200)).body;
+    expect(messages.map((m: { role: string; content: string }) => [m.role, m.content])).toEqual([
+      ["user", "What is grace?"],
+      ["assistant", done.data.content]
+    ]);
+  });
+
+  it("starts a new chat with a chat event", async () => {
+    const { agent } = await signUp("kateri");
+
+    const events = sseEvents((await agent.post("/api/chat/stream").send({ message: "What is grace?" }).expect(200)).text);
+    expect(events[0].event).toBe("chat");
+    expect(events[events.length - 1].event).toBe("done");
+    await agent.get(`/api/chats/${events[0].data.chatId}`).expect(200);
+  });
+
+  it("answers invalid requests with JSON before the stream opens", async () => {
+    const { agent } = await signUp("louis");
+    const chat = (await agent.post("/api/chats").send({ title: "Streaming" }).expect(201)).body;
+
+    await agent.post(`/api/chats/${chat.id}/messages/stream`).send({ content: "" }).expect(400).expect("Content-Type", /json/);
+    expect((await agent.post("/api/chat/stream").send({ message: "Hi", model: "no-such-model" }).expect(400)).body.code)
+      .toBe("unknown_model");
+    await request(app).post("/api/chat/stream").send({ message: "Hi" }).expect(401);
+  });
+});
@@ -1,15 +1,123 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
-import { storage } from "./storage";
-import { ragService } from "./services/ragService";
+import { storage, type MessagePage } from "./storage";
+import { ragService, type AnswerSettings } from "./services/ragService";
+import { LLMError } from "./services/llmErrors";
+import { embeddingCache } from "./services/embeddings";
+import { completionCache } from "./services/completionCache";
+import { modelRegistry, ModelSelectionError } from "./services/models";
+import { promptProfileService, ProfileSelectionError } from "./services/promptProfiles";
+import { scriptureService } from "./services/scripture";
+import { ScriptureReferenceError } from "./services/scriptureReference";
+import { catechismService, CatechismReferenceError } from "./services/catechism";
+import { liturgicalDay, liturgicalYear, CalendarDateError } from "./services/liturgicalCalendar";
+import { setupAuth, requireAuth, requireAdmin, requireChatAccess, requireApiKey } from "./auth";
+import { 
+  detectFormat, 
+  parseDocuments, 
+  validateDocuments, 
+  type ParsedDocuments 
+} from "./services/documentParser";
 import { 
   insertChatSchema, 
   insertMessageSchema,
-  messageWithRole 
+  insertDocumentSchema,
+  updateDocumentSchema,
+  insertPromptProfileSchema,
+  updatePromptProfileSchema,
+  languageCodes,
+  userRoles,
+  type LanguageCode
 } from "@shared/schema";
 
+// Messages per page when loading a conversation
+const MESSAGE_PAGE_SIZE = 20;
+
+const messagePageQuerySchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(MESSAGE_PAGE_SIZE),
+});
+
+// Cursor for the page before this one: the id of its oldest message, or null at the start of the chat
+function nextCursor(page: MessagePage): number | null {
+  return page.hasMore && page.messages.length > 0 ? page.messages[0].id : null;
+}
+
+// Write a single Server-Sent Event to an open event-stream response
+function writeSseEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Retry-After in whole seconds, for LLM errors that say when to try again
+function retryAfterSeconds(error: LLMError): number | undefined {
+  const retryAfterMs = (error as { retryAfterMs?: number }).retryAfterMs;
+  return retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) : undefined;
+}
+
+// Answer with the LLM error's status and user-facing message; the upstream error text is only logged
+function sendLlmError(res: Response, error: LLMError): void {
+  const retryAfter = retryAfterSeconds(error);
+  if (retryAfter !== undefined) {
+    res.set("Retry-After", String(retryAfter));
+  }
+  
+  res.status(error.status).json({ message: error.userMessage, code: error.code, retryAfter });
+}
+
+// Reject an unknown or retired model, or an unknown prompt profile, with a message the user can act on
+function sendSelectionError(res: Response, error: ModelSelectionError | ProfileSelectionError): void {
+  const replacement = error instanceof ModelSelectionError ? error.replacement : undefined;
+  res.status(error.status).json({ message: error.message, code: error.code, replacement });
+}
+
+// The model and prompt profile a chat is answered with, and the user's interface language.
+// Throws ModelSelectionError when the chat's model has been retired.
+async function answerSettings(
+  chat: { model: string | null; profileId: string | null },
+  languageHint?: LanguageCode
+): Promise<AnswerSettings> {
+  return {
+    model: modelRegistry.resolve(chat.model),
+    profile: await promptProfileService.resolve(chat.profileId),
+    languageHint
+  };
+}
+
+// The "error" event sent when a stream fails after it has started
+function streamErrorEvent(error: unknown) {
+  if (error instanceof LLMError) {
+    return { message: error.userMessage, code: error.code, status: error.status, retryAfter: retryAfterSeconds(error) };
+  }
+  
+  return { 
+    message: "Failed to process message",
+    error: error instanceof Error ? error.message : String(error)
+  };
+}
+
+// Switch a response into event-stream mode and abort `controller` if the client goes away
+function openSseStream(res: Response, controller: AbortController): void {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+    // Disable response buffering in nginx-style proxies so tokens arrive immediately
+    "X-Accel-Buffering": "no"
+  });
+  res.flushHeaders();
+  
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and the /api/auth routes
+  setupAuth(app);
+  
   // API Routes - all prefixed with /api
   
   // Get all documents (knowledge base)
@@ -23,6 +131,208 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Add documents to the knowledge base (requires ADMIN_API_KEY)
+  // Accepts a JSON document, a JSON array or { documents: [...] }, JSONL, or a
+  // Markdown / plain-text file with front matter. New documents are searchable immediately.
+  app.post(
+    "/api/documents",
+    express.text({ 
+      type: ["text/*", "application/x-ndjson", "application/jsonl"], 
+      limit: "25mb" 
+    }),
+    requireApiKey,
+    async (req: Request, res: Response) => {
+      try {
+        let parsed: ParsedDocuments;
+        let isBatch = true;
+        
+        if (req.is("application/json")) {
+          const body = req.body;
+          isBatch = Array.isArray(body) || Array.isArray(body?.documents);
+          const candidates = Array.isArray(body) ? body : (body?.documents ?? [body]);
+          parsed = validateDocuments(candidates);
+        } else {
+          const format = detectFormat(req.get("content-type") || "");
+          
+          if (!format || typeof req.body !== "string") {
+            return res.status(415).json({ 
+              message: "Unsupported content type. Use JSON, JSONL, Markdown or plain text." 
+            });
+          }
+          
+          // Optional file name, used as the title fallback for text files
+          const origin = req.get("x-filename") || undefined;
+          parsed = parseDocuments(req.body, format, { origin });
+          isBatch = format === "jsonl";
+        }
+        
+        if (parsed.errors.length > 0) {
+          return res.status(400).json({ 
+            message: "Invalid document data", 
+            errors: parsed.errors 
+          });
+        }
+        
+        if (parsed.documents.length === 0) {
+          return res.status(400).json({ message: "No documents provided" });
+        }
+        
+        // In one transaction, so a failure leaves none of the documents saved
+        const created = await storage.createDocuments(parsed.documents);
+        
+        await ragService.indexDocuments(created);
+        
+        res.status(201).json(isBatch ? { count: created.length, documents: created } : created[0]);
+      } catch (error) {
+        console.error("Error creating documents:", error);
+        res.status(500).json({ message: "Failed to create documents" });
+      }
+    }
+  );
+
+  // Rebuild the search index from storage (requires ADMIN_API_KEY)
+  app.post("/api/documents/reindex", requireApiKey, async (req: Request, res: Response) => {
+    try {
+      const count = await ragService.rebuildIndex();
+      res.json({ count });
+    } catch (error) {
+      console.error("Error rebuilding document index:", error);
+      res.status(500).json({ message: "Failed to rebuild document index" });
+    }
+  });
+
+  // Get a specific document
+  app.get("/api/documents/:id", async (req: Request, res: Response) => {
+    try {
+      const document = await storage.getDocument(Number(req.params.id));
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      res.json(document);
+    } catch (error) {
+      console.error(`Error fetching document ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to fetch document" });
+    }
+  });
+
+  // Replace a document (requires ADMIN_API_KEY)
+  app.put("/api/documents/:id", requireApiKey, async (req: Request, res: Response) => {
+    try {
+      const documentId = Number(req.params.id);
+      const parseResult = insertDocumentSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid document data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      // A full replacement clears metadata that isn't resent
+      const document = await storage.updateDocument(documentId, {
+        ...parseResult.data,
+        metadata: parseResult.data.metadata ?? null
+      });
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      await ragService.reindexDocument(document);
+      res.json(document);
+    } catch (error) {
+      console.error(`Error replacing document ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to update document" });
+    }
+  });
+
+  // Update some fields of a document (requires ADMIN_API_KEY)
+  app.patch("/api/documents/:id", requireApiKey, async (req: Request, res: Response) => {
+    try {
+      const documentId = Number(req.params.id);
+      const parseResult = updateDocumentSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid document data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const document = await storage.updateDocument(documentId, parseResult.data);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      await ragService.reindexDocument(document);
+      res.json(document);
+    } catch (error) {
+      console.error(`Error updating document ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to update document" });
+    }
+  });
+
+  // Delete a document, keeping its revision history (requires ADMIN_API_KEY)
+  app.delete("/api/documents/:id", requireApiKey, async (req: Request, res: Response) => {
+    try {
+      const documentId = Number(req.params.id);
+      const success = await storage.deleteDocument(documentId);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      await ragService.removeDocument(documentId);
+      res.status(204).end();
+    } catch (error) {
+      console.error(`Error deleting document ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
+
+  // Get a document's revision history, oldest first (requires ADMIN_API_KEY)
+  app.get("/api/documents/:id/revisions", requireApiKey, async (req: Request, res: Response) => {
+    try {
+      const revisions = await storage.getDocumentRevisions(Number(req.params.id));
+      
+      if (revisions.length === 0) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      res.json(revisions);
+    } catch (error) {
+      console.error(`Error fetching revisions for document ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to fetch document revisions" });
+    }
+  });
+
+  // Roll a document back to an earlier revision, or bring a deleted one back (requires ADMIN_API_KEY)
+  // The rollback is itself recorded as a new revision
+  app.post(
+    "/api/documents/:id/revisions/:revision/restore", 
+    requireApiKey, 
+    async (req: Request, res: Response) => {
+      try {
+        const documentId = Number(req.params.id);
+        const revision = Number(req.params.revision);
+        const document = await storage.restoreDocumentRevision(documentId, revision);
+        
+        if (!document) {
+          return res.status(404).json({ message: "Revision not found" });
+        }
+        
+        await ragService.reindexDocument(document);
+        res.json(document);
+      } catch (error) {
+        console.error(`Error restoring document ${req.params.id} to revision ${req.params.revision}:`, error);
+        res.status(500).json({ message: "Failed to restore document revision" });
+      }
+    }
+  );
+
   // Get documents by category
   app.get("/api/documents/category/:category", async (req: Request, res: Response) => {
     try {
@@ -35,8 +345,224 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Grant or revoke the admin role (requires ADMIN_API_KEY)
+  app.patch("/api/users/:id/role", requireApiKey, async (req: Request, res: Response) => {
+    try {
+      const parseResult = z.object({ role: z.enum(userRoles) }).safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid role", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const user = await storage.updateUserRole(Number(req.params.id), parseResult.data.role);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json({ id: user.id, username: user.username, role: user.role });
+    } catch (error) {
+      console.error(`Error updating role for user ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+
+  // Embedding and completion cache sizes and hit rates (requires ADMIN_API_KEY)
+  app.get("/api/admin/cache", requireApiKey, (req: Request, res: Response) => {
+    res.json({
+      embeddings: embeddingCache.stats(),
+      completions: completionCache.stats()
+    });
+  });
+
+  // Empty both caches, e.g. after changing the prompt or the documents (requires ADMIN_API_KEY)
+  app.delete("/api/admin/cache", requireApiKey, (req: Request, res: Response) => {
+    const cleared = {
+      embeddings: embeddingCache.clear(),
+      completions: completionCache.clear()
+    };
+    console.log(`[Cache] Flushed ${cleared.embeddings} embedding(s) and ${cleared.completions} completion(s)`);
+    res.json({ cleared });
+  });
+
+  // Models answers can be generated with, and the default for chats that don't choose one
+  // Retired models are listed with their replacement but can't be selected
+  app.get("/api/models", (req: Request, res: Response) => {
+    res.json({
+      models: modelRegistry.list(),
+      defaultModel: modelRegistry.defaultModel.id
+    });
+  });
+
+  // Prompt profiles a new chat can be answered with, and the default for chats that don't choose one
+  app.get("/api/profiles", async (req: Request, res: Response) => {
+    try {
+      const profiles = await storage.getPromptProfiles();
+      res.json({ profiles, defaultProfile: promptProfileService.defaultProfileId });
+    } catch (error) {
+      console.error("Error fetching prompt profiles:", error);
+      res.status(500).json({ message: "Failed to fetch prompt profiles" });
+    }
+  });
+
+  // Add a prompt profile (admins only)
+  app.post("/api/profiles", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertPromptProfileSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid profile data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      if (await storage.getPromptProfile(parseResult.data.id)) {
+        return res.status(409).json({ message: `A profile with the id "${parseResult.data.id}" already exists` });
+      }
+      
+      const profile = await storage.createPromptProfile(parseResult.data);
+      res.status(201).json(profile);
+    } catch (error) {
+      console.error("Error creating prompt profile:", error);
+      res.status(500).json({ message: "Failed to create prompt profile" });
+    }
+  });
+
+  // Edit a prompt profile (admins only); chats using it are answered with the new version
+  // from their next message on
+  app.patch("/api/profiles/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parseResult = updatePromptProfileSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid profile data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const profile = await storage.updatePromptProfile(req.params.id, parseResult.data);
+      
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      
+      res.json(profile);
+    } catch (error) {
+      console.error(`Error updating prompt profile ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to update prompt profile" });
+    }
+  });
+
+  // Exact text of Scripture references, e.g. ?ref=Mt 5:44-45; Jn 3:16
+  app.get("/api/scripture", (req: Request, res: Response) => {
+    try {
+      const ref = typeof req.query.ref === "string" ? req.query.ref : "";
+      const { passages, missing } = scriptureService.lookup(ref);
+      
+      if (passages.length === 0) {
+        // Only a selection of verses is bundled, so a valid reference may just not be loaded
+        return res.status(404).json({
+          message: `Not loaded: these verses are not in the available ${scriptureService.translation} text`,
+          code: "not_loaded",
+          missing
+        });
+      }
+      
+      res.json({ translation: scriptureService.translation, passages, missing });
+    } catch (error) {
+      if (error instanceof ScriptureReferenceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      console.error("Error looking up Scripture:", error);
+      res.status(500).json({ message: "Failed to look up Scripture" });
+    }
+  });
+
+  // Catechism paragraphs by range or list, e.g. ?range=1730-1732
+  app.get("/api/ccc", (req: Request, res: Response) => {
+    try {
+      const range = typeof req.query.range === "string" ? req.query.range : "";
+      const { paragraphs, missing } = catechismService.range(range);
+      
+      if (paragraphs.length === 0) {
+        // Only a selection of paragraphs is bundled, so a valid number may just not be loaded
+        return res.status(404).json({
+          message: "Not loaded: these paragraphs are not in the available Catechism text",
+          code: "not_loaded",
+          missing
+        });
+      }
+      
+      res.json({ paragraphs, missing });
+    } catch (error) {
+      if (error instanceof CatechismReferenceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      console.error("Error looking up Catechism paragraphs:", error);
+      res.status(500).json({ message: "Failed to look up Catechism paragraphs" });
+    }
+  });
+
+  // One Catechism paragraph with its part, section, chapter and article and its footnotes
+  app.get("/api/ccc/:number", (req: Request, res: Response) => {
+    try {
+      const paragraph = catechismService.paragraph(Number(req.params.number));
+      
+      if (!paragraph) {
+        return res.status(404).json({
+          message: `Not loaded: paragraph ${req.params.number} is not in the available Catechism text`,
+          code: "not_loaded"
+        });
+      }
+      
+      res.json(paragraph);
+    } catch (error) {
+      if (error instanceof CatechismReferenceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      console.error(`Error looking up Catechism paragraph ${req.params.number}:`, error);
+      res.status(500).json({ message: "Failed to look up Catechism paragraph" });
+    }
+  });
+
+  // Every liturgical day of a year, with Easter, Ash Wednesday, Pentecost and Advent
+  app.get("/api/calendar/year/:year", (req: Request, res: Response) => {
+    try {
+      res.json(liturgicalYear(Number(req.params.year)));
+    } catch (error) {
+      if (error instanceof CalendarDateError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      console.error(`Error computing the liturgical year ${req.params.year}:`, error);
+      res.status(500).json({ message: "Failed to compute the liturgical calendar" });
+    }
+  });
+
+  // The liturgical day of a date, e.g. /api/calendar/2025-12-08
+  app.get("/api/calendar/:date", (req: Request, res: Response) => {
+    try {
+      res.json(liturgicalDay(req.params.date));
+    } catch (error) {
+      if (error instanceof CalendarDateError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      console.error(`Error computing the liturgical day ${req.params.date}:`, error);
+      res.status(500).json({ message: "Failed to compute the liturgical calendar" });
+    }
+  });
+
   // Create a new chat
-  app.post("/api/chats", async (req: Request, res: Response) => {
+  app.post("/api/chats", requireAuth, async (req: Request, res: Response) => {
     try {
       const parseResult = insertChatSchema.safeParse(req.body);
       
@@ -47,57 +573,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const chat = await storage.createChat(parseResult.data);
+      // Reject models that can't answer and unknown profiles before the chat exists
+      const { model, profileId } = parseResult.data;
+      if (model) {
+        modelRegistry.resolve(model);
+      }
+      if (profileId) {
+        await promptProfileService.select(profileId);
+      }
+      
+      const chat = await storage.createChat({ ...parseResult.data, userId: req.user!.id });
       res.status(201).json(chat);
     } catch (error) {
+      if (error instanceof ModelSelectionError || error instanceof ProfileSelectionError) {
+        return sendSelectionError(res, error);
+      }
+      
       console.error("Error creating chat:", error);
       res.status(500).json({ message: "Failed to create chat" });
     }
   });
 
-  // Get all chats (optionally filtered by userId) - with memory optimization
-  app.get("/api/chats", async (req: Request, res: Response) => {
+  // Get the logged-in user's chats, newest first
+  // Admins can list another user's chats with ?userId=
+  app.get("/api/chats", requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = req.query.userId ? Number(req.query.userId) : undefined;
-      
-      if (userId) {
-        // For a specific user, get their chats directly 
-        const chats = await storage.getChatsByUserId(userId);
-        return res.json(chats);
-      } else {
-        // For demo purposes, get all chats but limit the number
-        // This is more memory efficient for auto-scaling
-        const userId = 1; // Default user
-        const chats = await storage.getChatsByUserId(userId);
-        
-        // Only return the 10 most recent chats to save memory
-        const recentChats = chats
-          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-          .slice(0, 10);
-          
-        return res.json(recentChats);
+      const userId = req.query.userId ? Number(req.query.userId) : req.user!.id;
+      
+      if (userId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You do not have access to these chats" });
       }
+      
+      const chats = await storage.getChatsByUserId(userId);
+      
+      res.json(chats.sort((a, b) => 
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      ));
     } catch (error) {
       console.error("Error fetching chats:", error);
       res.status(500).json({ message: "Failed to fetch chats" });
     }
   });
 
-  // Get a specific chat with its messages
-  app.get("/api/chats/:id", async (req: Request, res: Response) => {
+  // Get a specific chat with its latest page of messages (owner or admin)
+  // Older messages are fetched from /api/chats/:id/messages with the returned `nextCursor`
+  app.get("/api/chats/:id", requireChatAccess({ allowAdmin: true }), async (req: Request, res: Response) => {
     try {
-      const chatId = Number(req.params.id);
-      const chat = await storage.getChat(chatId);
-      
-      if (!chat) {
-        return res.status(404).json({ message: "Chat not found" });
-      }
-      
-      const messages = await storage.getMessagesByChatId(chatId);
+      const chat = res.locals.chat;
+      const page = await storage.getMessagesPage(chat.id, { limit: MESSAGE_PAGE_SIZE });
       
       res.json({
         ...chat,
-        messages
+        messages: page.messages,
+        nextCursor: nextCursor(page)
       });
     } catch (error) {
       console.error(`Error fetching chat ${req.params.id}:`, error);
@@ -105,17 +633,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update chat title
-  app.patch("/api/chats/:id", async (req: Request, res: Response) => {
+  // Update a chat's title and/or model (null for the server default)
+  app.patch("/api/chats/:id", requireChatAccess(), async (req: Request, res: Response) => {
     try {
       const chatId = Number(req.params.id);
-      const { title } = req.body;
+      const parseResult = z.object({
+        title: z.string().min(1).optional(),
+        model: z.string().min(1).nullable().optional(),
+      }).refine(
+        changes => changes.title !== undefined || changes.model !== undefined,
+        { message: "A title or model is required" }
+      ).safeParse(req.body);
       
-      if (!title || typeof title !== "string") {
-        return res.status(400).json({ message: "Valid title is required" });
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid chat data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const { title, model } = parseResult.data;
+      let updatedChat = res.locals.chat;
+      
+      if (model !== undefined) {
+        if (model !== null) {
+          modelRegistry.resolve(model);
+        }
+        updatedChat = await storage.updateChatModel(chatId, model);
       }
       
-      const updatedChat = await storage.updateChatTitle(chatId, title);
+      if (title !== undefined) {
+        updatedChat = await storage.updateChatTitle(chatId, title);
+      }
       
       if (!updatedChat) {
         return res.status(404).json({ message: "Chat not found" });
@@ -123,13 +672,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(updatedChat);
     } catch (error) {
+      if (error instanceof ModelSelectionError || error instanceof ProfileSelectionError) {
+        return sendSelectionError(res, error);
+      }
+      
       console.error(`Error updating chat ${req.params.id}:`, error);
       res.status(500).json({ message: "Failed to update chat" });
     }
   });
 
-  // Delete a chat
-  app.delete("/api/chats/:id", async (req: Request, res: Response) => {
+  // Delete a chat (owner, or an admin removing it for moderation)
+  app.delete("/api/chats/:id", requireChatAccess({ allowAdmin: true }), async (req: Request, res: Response) => {
     try {
       const chatId = Number(req.params.id);
       const success = await storage.deleteChat(chatId);
@@ -145,12 +698,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get messages for a chat
-  app.get("/api/chats/:id/messages", async (req: Request, res: Response) => {
+  // Get a page of a chat's messages, oldest first (owner or admin)
+  // `before` is the `nextCursor` from the previous page; omit it for the latest messages
+  app.get("/api/chats/:id/messages", requireChatAccess({ allowAdmin: true }), async (req: Request, res: Response) => {
     try {
       const chatId = Number(req.params.id);
-      const messages = await storage.getMessagesByChatId(chatId);
-      res.json(messages);
+      const parseResult = messagePageQuerySchema.safeParse(req.query);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid pagination parameters", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const page = await storage.getMessagesPage(chatId, parseResult.data);
+      
+      res.json({
+        messages: page.messages,
+        nextCursor: nextCursor(page)
+      });
     } catch (error) {
       console.error(`Error fetching messages for chat ${req.params.id}:`, error);
       res.status(500).json({ message: "Failed to fetch messages" });
@@ -158,18 +725,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send a message and get a response (main RAG endpoint)
-  app.post("/api/chats/:id/messages", async (req: Request, res: Response) => {
+  // Only the owner can add to a chat, even admins can't
+  app.post("/api/chats/:id/messages", requireChatAccess(), async (req: Request, res: Response) => {
     try {
       const chatId = Number(req.params.id);
-      const chat = await storage.getChat(chatId);
-      
-      if (!chat) {
-        return res.status(404).json({ message: "Chat not found" });
-      }
       
       // Validate the message
       const messageSchema = z.object({
         content: z.string().min(1, "Message content is required"),
+        // The interface language, assumed when the message is too short to detect its own
+        language: z.enum(languageCodes).optional(),
       });
       
       const parseResult = messageSchema.safeParse(req.body);
@@ -181,30 +746,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Get minimal conversation history (only the most recent few messages)
-      // The storage layer already limits to the 5 most recent messages
-      const previousMessages = await storage.getMessagesByChatId(chatId);
-      const conversationHistory: z.infer<typeof messageWithRole>[] = previousMessages.map(msg => ({
-        role: msg.role as any,
-        content: msg.content,
-        // Don't send source objects to save memory - these aren't used in the prompt anyway
-        sources: undefined
-      }));
+      // Fails before anything is saved when the chat's model has been retired
+      const settings = await answerSettings(res.locals.chat, parseResult.data.language);
       
-      // Process the query through the RAG service
-      const { content, sources } = await ragService.processQuery(
+      // Process the query through the RAG service, which adds the recent conversation history
+      const { content, sources, metadata } = await ragService.processQuery(
         chatId,
         parseResult.data.content,
-        conversationHistory
+        settings
       );
       
       res.json({
         role: "assistant",
         content,
-        sources
+        sources,
+        metadata
       });
     } catch (error) {
+      if (error instanceof ModelSelectionError || error instanceof ProfileSelectionError) {
+        return sendSelectionError(res, error);
+      }
+      
       console.error(`Error processing message for chat ${req.params.id}:`, error);
+      
+      if (error instanceof LLMError) {
+        return sendLlmError(res, error);
+      }
+      
       res.status(500).json({ 
         message: "Failed to process message",
         error: error instanceof Error ? error.message : String(error)
@@ -212,13 +780,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Send a message and stream the response as Server-Sent Events
+  // Emits "token" events with content deltas, then "done" with the full content, sources and metadata
+  // (the content may differ from the streamed tokens when unverified citations are stripped)
+  app.post("/api/chats/:id/messages/stream", requireChatAccess(), async (req: Request, res: Response) => {
+    const chatId = Number(req.params.id);
+    const controller = new AbortController();
+    
+    try {
+      const messageSchema = z.object({
+        content: z.string().min(1, "Message content is required"),
+        // The interface language, assumed when the message is too short to detect its own
+        language: z.enum(languageCodes).optional(),
+      });
+      
+      const parseResult = messageSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid message data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const settings = await answerSettings(res.locals.chat, parseResult.data.language);
+      
+      openSseStream(res, controller);
+      
+      const { content, sources, metadata } = await ragService.processQueryStream(
+        chatId,
+        parseResult.data.content,
+        settings,
+        (delta) => writeSseEvent(res, "token", { content: delta }),
+        controller.signal
+      );
+      
+      writeSseEvent(res, "done", { role: "assistant", content, sources, metadata });
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      
+      if (error instanceof ModelSelectionError || error instanceof ProfileSelectionError) {
+        return sendSelectionError(res, error);
+      }
+      
+      console.error(`Error streaming message for chat ${req.params.id}:`, error);
+      
+      if (!res.headersSent) {
+        if (error instanceof LLMError) {
+          return sendLlmError(res, error);
+        }
+        
+        return res.status(500).json({ 
+          message: "Failed to process message",
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+      
+      writeSseEvent(res, "error", streamErrorEvent(error));
+      res.end();
+    }
+  });
+
   // Create a new chat with first message
-  app.post("/api/chat", async (req: Request, res: Response) => {
+  app.post("/api/chat", requireAuth, async (req: Request, res: Response) => {
     try {
       // Validate the request
       const chatRequestSchema = z.object({
         message: z.string().min(1, "Message content is required"),
         title: z.string().optional(),
+        model: z.string().min(1).optional(),
+        profileId: z.string().min(1).optional(),
+        language: z.enum(languageCodes).optional(),
       });
       
       const parseResult = chatRequestSchema.safeParse(req.body);
@@ -230,15 +863,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Create a new chat
+      // Create a new chat, unless its model can't answer or its profile doesn't exist
+      const { model, profileId } = parseResult.data;
+      const settings = {
+        model: modelRegistry.resolve(model),
+        profile: profileId ? await promptProfileService.select(profileId) : await promptProfileService.resolve(),
+        languageHint: parseResult.data.language
+      };
       const title = parseResult.data.title || "New Chat";
-      const chat = await storage.createChat({ title, userId: 1 }); // Default user for now
+      const chat = await storage.createChat({ 
+        title, 
+        userId: req.user!.id, 
+        model: model ?? null, 
+        profileId: profileId ?? null 
+      });
       
       // Process the message through the RAG service
-      const { content, sources } = await ragService.processQuery(
+      const { content, sources, metadata } = await ragService.processQuery(
         chat.id,
         parseResult.data.message,
-        []
+        settings
       );
       
       res.status(201).json({
@@ -246,11 +890,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: {
           role: "assistant",
           content,
-          sources
+          sources,
+          metadata
         }
       });
     } catch (error) {
+      if (error instanceof ModelSelectionError || error instanceof ProfileSelectionError) {
+        return sendSelectionError(res, error);
+      }
+      
       console.error("Error creating new chat with message:", error);
+      
+      if (error instanceof LLMError) {
+        return sendLlmError(res, error);
+      }
+      
       res.status(500).json({ 
         message: "Failed to create chat and process message",
         error: error instanceof Error ? error.message : String(error)
@@ -258,6 +912,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Create a new chat with first message and stream the response as Server-Sent Events
+  // Emits "chat" with the new chat id first, then the same events as the per-chat stream
+  app.post("/api/chat/stream", requireAuth, async (req: Request, res: Response) => {
+    const controller = new AbortController();
+    
+    try {
+      const chatRequestSchema = z.object({
+        message: z.string().min(1, "Message content is required"),
+        title: z.string().optional(),
+        model: z.string().min(1).optional(),
+        profileId: z.string().min(1).optional(),
+        language: z.enum(languageCodes).optional(),
+      });
+      
+      const parseResult = chatRequestSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid request data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const { model, profileId } = parseResult.data;
+      const settings = {
+        model: modelRegistry.resolve(model),
+        profile: profileId ? await promptProfileService.select(profileId) : await promptProfileService.resolve(),
+        languageHint: parseResult.data.language
+      };
+      const title = parseResult.data.title || "New Chat";
+      const chat = await storage.createChat({ 
+        title, 
+        userId: req.user!.id, 
+        model: model ?? null, 
+        profileId: profileId ?? null 
+      });
+      
+      openSseStream(res, controller);
+      writeSseEvent(res, "chat", { chatId: chat.id });
+      
+      const { content, sources, metadata } = await ragService.processQueryStream(
+        chat.id,
+        parseResult.data.message,
+        settings,
+        (delta) => writeSseEvent(res, "token", { content: delta }),
+        controller.signal
+      );
+      
+      writeSseEvent(res, "done", { role: "assistant", content, sources, metadata });
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      
+      if (error instanceof ModelSelectionError || error instanceof ProfileSelectionError) {
+        return sendSelectionError(res, error);
+      }
+      
+      console.error("Error creating new chat with streamed message:", error);
+      
+      if (!res.headersSent) {
+        if (error instanceof LLMError) {
+          return sendLlmError(res, error);
+        }
+        
+        return res.status(500).json({ 
+          message: "Failed to create chat and process message",
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+      
+      writeSseEvent(res, "error", streamErrorEvent(error));
+      res.end();
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
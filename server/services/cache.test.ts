@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LRUCache } from "./cache";
+import { CompletionCache } from "./completionCache";
+import type { SourceReference } from "@shared/schema";
+
+describe("LRUCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("evicts the least recently used entry", () => {
+    const cache = new LRUCache<string, number>({ maxSize: 2, ttlMs: 0 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.stats()).toEqual({ size: 2, maxSize: 2, ttlMs: 0, hits: 3, misses: 1, evictions: 1, hitRate: 0.75 });
+  });
+
+  it("treats entries past their time to live as missing", () => {
+    vi.useFakeTimers();
+    const cache = new LRUCache<string, number>({ maxSize: 10, ttlMs: 1000 });
+    cache.set("a", 1);
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get("a")).toBe(1);
+
+    // Reading doesn't extend the time to live; setting again does
+    vi.advanceTimersByTime(1);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.size).toBe(0);
+
+    cache.set("a", 2);
+    vi.advanceTimersByTime(999);
+    expect(cache.get("a")).toBe(2);
+  });
+
+  it("keeps its counters when cleared", () => {
+    const cache = new LRUCache<string, number>({ maxSize: 10, ttlMs: 0 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+
+    expect(cache.clear()).toBe(2);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ size: 0, hits: 1, misses: 1 });
+  });
+});
+
+describe("CompletionCache", () => {
+  const sources = [{ id: 1, passageId: "1:0", title: "Prayer", content: "...", source: "CCC", category: "Catechism" }] as SourceReference[];
+  const question = [{ role: "user" as const, content: "What is prayer?" }];
+
+  it("reuses an answer for the same prompt, sources and model", () => {
+    const cache = new CompletionCache({ enabled: true, maxSize: 10, ttlMs: 0 });
+    const key = cache.key(question, sources, "gpt-4o", 0.7);
+    cache.set(key, "Prayer is the raising of the heart to God [1].");
+
+    // Case and spacing differences don't matter
+    expect(cache.get(cache.key([{ role: "user", content: "  what is   PRAYER? " }], sources, "gpt-4o", 0.7)))
+      .toBe("Prayer is the raising of the heart to God [1].");
+
+    expect(cache.key(question, sources, "gpt-4o-mini", 0.7)).not.toBe(key);
+    expect(cache.key(question, sources, "gpt-4o", 0.2)).not.toBe(key);
+    expect(cache.key(question, [{ ...sources[0], passageId: "1:1" }], "gpt-4o", 0.7)).not.toBe(key);
+    expect(cache.key([{ role: "system", content: "What is prayer?" }], sources, "gpt-4o", 0.7)).not.toBe(key);
+  });
+
+  it("stores nothing when disabled or given an empty answer", () => {
+    const disabled = new CompletionCache({ enabled: false, maxSize: 10, ttlMs: 0 });
+    disabled.set("key", "An answer");
+    expect(disabled.get("key")).toBeUndefined();
+    expect(disabled.stats()).toMatchObject({ enabled: false, size: 0 });
+
+    const enabled = new CompletionCache({ enabled: true, maxSize: 10, ttlMs: 0 });
+    enabled.set("key", "  \n");
+    expect(enabled.get("key")).toBeUndefined();
+  });
+});
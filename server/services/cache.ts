@@ -0,0 +1,103 @@
+export interface CacheOptions {
+  // Entries beyond this are evicted, least recently used first
+  maxSize: number;
+  // Entries older than this are treated as missing; 0 keeps them until evicted
+  ttlMs: number;
+}
+
+export interface CacheStats {
+  size: number;
+  maxSize: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  // hits / (hits + misses), or 0 before the first lookup
+  hitRate: number;
+}
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * In-memory LRU cache with a per-entry time to live.
+ * A Map keeps insertion order, so re-inserting on every read makes its first key the least
+ * recently used one.
+ */
+export class LRUCache<K, V> {
+  private entries = new Map<K, CacheEntry<V>>();
+  private options: CacheOptions;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: CacheOptions) {
+    this.options = options;
+  }
+
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || this.isExpired(entry)) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: this.options.ttlMs > 0 ? Date.now() + this.options.ttlMs : Infinity
+    });
+
+    while (this.entries.size > this.options.maxSize) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  delete(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry. Counters are kept so hit rates stay comparable across flushes.
+   */
+  clear(): number {
+    const removed = this.entries.size;
+    this.entries.clear();
+    return removed;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      maxSize: this.options.maxSize,
+      ttlMs: this.options.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+
+  private isExpired(entry: CacheEntry<V>): boolean {
+    return entry.expiresAt <= Date.now();
+  }
+}
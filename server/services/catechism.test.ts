@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { CatechismReferenceError, CatechismService, parseRanges } from "./catechism";
+import { parseCatechism } from "./documentParser";
+import type { CatechismParagraphText } from "../corpus/catechism";
+import type { ExplicitDocument as Document } from "../types";
+
+const freedom: CatechismParagraphText[] = [
+  {
+    number: 1730,
+    part: "Part Three: Life in Christ",
+    section: "Section One: Man's Vocation: Life in the Spirit",
+    chapter: "Chapter One: The Dignity of the Human Person",
+    article: "Article 3: Man's Freedom",
+    text: "God created man a rational being, conferring on him the dignity of a person.",
+    footnotes: ["GS 17; Sir 15:14."]
+  },
+  {
+    number: 1731,
+    part: "Part Three: Life in Christ",
+    section: "Section One: Man's Vocation: Life in the Spirit",
+    chapter: "Chapter One: The Dignity of the Human Person",
+    article: "Article 3: Man's Freedom",
+    text: "Freedom is the power, rooted in reason and will, to act or not to act."
+  },
+  {
+    number: 2558,
+    part: "Part Four: Christian Prayer",
+    text: "\"Great is the mystery of the faith!\""
+  }
+];
+
+// Ingest paragraphs the way `npm run ingest -- --catechism` does, numbering the stored documents from `firstId`
+function ingest(paragraphs: CatechismParagraphText[], firstId = 1): Document[] {
+  const { documents, errors } = parseCatechism(JSON.stringify(paragraphs));
+  expect(errors).toEqual([]);
+  return documents.map((document, i) => ({ ...document, id: firstId + i, metadata: document.metadata ?? null }));
+}
+
+describe("parseCatechism", () => {
+  it("makes one document per run of paragraphs in an article", () => {
+    const documents = ingest(freedom);
+
+    expect(documents.map(d => d.title)).toEqual([
+      "Catechism of the Catholic Church 1730-1731: Article 3: Man's Freedom",
+      "Catechism of the Catholic Church 2558: Part Four: Christian Prayer"
+    ]);
+    expect(documents[0]).toMatchObject({
+      source: "Catechism of the Catholic Church",
+      category: "Catechism",
+      metadata: {
+        part: "Part Three: Life in Christ",
+        article: "Article 3: Man's Freedom",
+        paragraphs: "1730-1731",
+        footnotes: { "1730": ["GS 17; Sir 15:14."] }
+      }
+    });
+    expect(documents[0].content.split("\n\n")).toEqual([
+      "1730 God created man a rational being, conferring on him the dignity of a person.",
+      "1731 Freedom is the power, rooted in reason and will, to act or not to act."
+    ]);
+  });
+
+  it("reports invalid paragraphs and JSON", () => {
+    const { documents, errors } = parseCatechism(JSON.stringify([{ number: 3000, part: "Prologue", text: "..." }, freedom[2]]));
+    expect(documents).toHaveLength(1);
+    expect(errors).toEqual([{ index: 0, origin: undefined, message: "Invalid paragraph number 3000" }]);
+
+    expect(parseCatechism(JSON.stringify({ number: 1 })).errors).toHaveLength(1);
+    expect(parseCatechism("[").errors).toHaveLength(1);
+  });
+});
+
+describe("CatechismService", () => {
+  it("looks up the paragraphs of stored documents", () => {
+    const catechism = new CatechismService([]);
+    ingest(freedom).forEach(document => catechism.addDocument(document));
+
+    expect(catechism.paragraph(1730)).toMatchObject({
+      part: "Part Three: Life in Christ",
+      article: "Article 3: Man's Freedom",
+      text: freedom[0].text,
+      footnotes: ["GS 17; Sir 15:14."],
+      previous: null,
+      next: 1731
+    });
+    expect(catechism.paragraph(2558)).toMatchObject({ footnotes: [], previous: 1731, next: null });
+
+    const lookup = catechism.range("1730-1732, 2558");
+    expect(lookup.paragraphs.map(p => p.number)).toEqual([1730, 1731, 2558]);
+    expect(lookup.missing).toEqual([1732]);
+  });
+
+  it("ignores documents in other categories", () => {
+    const catechism = new CatechismService([]);
+    catechism.addDocument({ ...ingest(freedom)[0], category: "Encyclicals" });
+
+    expect(catechism.paragraph(1730)).toBeUndefined();
+  });
+
+  it("drops the paragraphs of removed documents", () => {
+    const catechism = new CatechismService([freedom[2]]);
+    const [article, prayer] = ingest(freedom);
+    catechism.addDocument(article);
+    catechism.addDocument({ ...prayer, content: "2558 Edited." });
+
+    catechism.removeDocument(article.id);
+    expect(catechism.paragraph(1730)).toBeUndefined();
+    expect(catechism.paragraph(2558)?.text).toBe("Edited.");
+
+    catechism.clearDocuments();
+    expect(catechism.paragraph(2558)?.text).toBe(freedom[2].text);
+  });
+
+  it("rejects backwards, oversized and unreadable ranges", () => {
+    const catechism = new CatechismService(freedom);
+
+    expect(() => catechism.range("200-100")).toThrow(CatechismReferenceError);
+    expect(() => catechism.range("1731-1730")).toThrow("The paragraph range 1731-1730 runs backwards");
+    expect(() => catechism.range("1-101")).toThrow(CatechismReferenceError);
+    expect(() => catechism.range("2866")).toThrow(CatechismReferenceError);
+    expect(() => catechism.range("CCC")).toThrow(CatechismReferenceError);
+  });
+});
+
+describe("parseRanges", () => {
+  it("keeps ranges as written", () => {
+    expect(parseRanges("1730-1732, 1735 and 200–100")).toEqual([[1730, 1732], [1735, 1735], [200, 100]]);
+  });
+});
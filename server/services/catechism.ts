@@ -0,0 +1,273 @@
+import fs from "fs";
+import { SourceReference } from "@shared/schema";
+import { type CatechismParagraphText } from "../corpus/catechism";
+import { parseCatechismParagraphs } from "./chunking";
+import { ExplicitDocument as Document } from "../types";
+
+// The Catechism is numbered 1 to 2865
+export const CCC_LAST_PARAGRAPH = 2865;
+
+// Most paragraphs one range lookup returns
+const MAX_RANGE_PARAGRAPHS = 100;
+
+// "12", "1730-1732" or "1730–1732"
+const NUMBER_RANGE = String.raw`\d{1,4}(?:\s*[-–]\s*\d{1,4})?`;
+
+// "CCC 1730", "Catechism of the Catholic Church, 1730-1732" or "CCC §§ 1730, 1735 and 1740"
+export const CATECHISM_PATTERN = new RegExp(
+  String.raw`\b(Catechism of the Catholic Church|Catechism|CCC)(?:\s*(?:§§?|¶|paragraphs?|paras?\.?|nos?\.?))?[,\s]*` +
+  String.raw`(${NUMBER_RANGE}(?:\s*(?:,|and|&)\s*${NUMBER_RANGE})*)(?![\w:])`,
+  "g"
+);
+
+/**
+ * A paragraph with its place in the Catechism, and the nearest paragraphs before and
+ * after it that are in the text, for paging through it
+ */
+export interface CatechismParagraph extends CatechismParagraphText {
+  footnotes: string[];
+  previous: number | null;
+  next: number | null;
+}
+
+export interface CatechismLookup {
+  paragraphs: CatechismParagraph[];
+  // Paragraph numbers in the range that aren't in the text
+  missing: number[];
+}
+
+/**
+ * A paragraph number or range outside the Catechism, or one that can't be read
+ */
+export class CatechismReferenceError extends Error {
+  readonly status = 400;
+  readonly code = "invalid_paragraph";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "CatechismReferenceError";
+  }
+}
+
+// Passage ids of looked-up paragraphs, which don't belong to a stored document
+const CATECHISM_PASSAGE_PREFIX = "ccc:";
+
+/**
+ * Looks up Catechism paragraphs by number, so "CCC 1730" is answered with paragraph 1730
+ * itself rather than whatever retrieval finds closest to it. Paragraphs come from stored
+ * Catechism documents, which is how the complete text is loaded
+ * (`npm run ingest -- --catechism`), and from CATECHISM_PATH when it is set.
+ */
+export class CatechismService {
+  // Paragraphs from CATECHISM_PATH
+  private base = new Map<number, CatechismParagraphText>();
+  // Paragraphs of stored documents by document id; they take precedence over CATECHISM_PATH
+  private documentParagraphs = new Map<number, Map<number, CatechismParagraphText>>();
+  // Both of the above merged
+  private paragraphs = new Map<number, CatechismParagraphText>();
+  // Paragraph numbers in the text, ascending
+  private numbers: number[] = [];
+
+  constructor(paragraphs: CatechismParagraphText[]) {
+    for (const paragraph of paragraphs) {
+      if (!isParagraphNumber(paragraph.number)) {
+        console.warn(`[Catechism] Skipping paragraph numbered ${paragraph.number}`);
+        continue;
+      }
+      this.base.set(paragraph.number, paragraph);
+    }
+    this.merge();
+  }
+
+  /**
+   * Serve the numbered paragraphs ("1730 God created man...") of a stored Catechism document,
+   * placed by its `metadata.part` (or its title), `section`, `chapter` and `article`, with
+   * footnotes from `metadata.footnotes` by paragraph number. Other documents are ignored.
+   * A document added again replaces its earlier paragraphs.
+   */
+  addDocument(document: Document): void {
+    const metadata: Record<string, any> = document.metadata || {};
+    const paragraphs = new Map<number, CatechismParagraphText>();
+
+    if (document.category === "Catechism") {
+      for (const { number, text } of parseCatechismParagraphs(document.content)) {
+        if (!isParagraphNumber(number)) continue;
+
+        const footnotes = metadata.footnotes?.[number];
+        paragraphs.set(number, {
+          number,
+          text,
+          part: typeof metadata.part === "string" ? metadata.part : document.title,
+          section: metadata.section,
+          chapter: metadata.chapter,
+          article: metadata.article,
+          footnotes: Array.isArray(footnotes) ? footnotes : undefined
+        });
+      }
+    }
+
+    this.documentParagraphs.delete(document.id);
+    if (paragraphs.size > 0) {
+      this.documentParagraphs.set(document.id, paragraphs);
+    }
+    this.merge();
+  }
+
+  /**
+   * Stop serving the paragraphs of a deleted or edited document
+   */
+  removeDocument(documentId: number): void {
+    if (this.documentParagraphs.delete(documentId)) {
+      this.merge();
+    }
+  }
+
+  /**
+   * Forget the paragraphs of every stored document, keeping those from CATECHISM_PATH
+   */
+  clearDocuments(): void {
+    this.documentParagraphs.clear();
+    this.merge();
+  }
+
+  /**
+   * One paragraph, or undefined when it isn't in the text.
+   * Throws CatechismReferenceError for a number outside 1-2865.
+   */
+  paragraph(number: number): CatechismParagraph | undefined {
+    checkParagraphNumber(number);
+
+    const paragraph = this.paragraphs.get(number);
+    if (!paragraph) return undefined;
+
+    const index = this.numbers.indexOf(number);
+    return {
+      ...paragraph,
+      footnotes: paragraph.footnotes ?? [],
+      previous: this.numbers[index - 1] ?? null,
+      next: this.numbers[index + 1] ?? null
+    };
+  }
+
+  /**
+   * The paragraphs of a range or list such as "1730-1732" or "1730-1732, 1735".
+   * Throws CatechismReferenceError when it can't be read, runs backwards or is too long.
+   */
+  range(text: string): CatechismLookup {
+    const ranges = parseRanges(text);
+    if (ranges.length === 0 || !/^[\d\s,–-]+$/.test(text)) {
+      throw new CatechismReferenceError(`Cannot read the paragraph range "${text}"`);
+    }
+
+    const numbers = ranges.flatMap(([first, last]) => {
+      checkParagraphNumber(first);
+      checkParagraphNumber(last);
+      if (last < first) {
+        throw new CatechismReferenceError(`The paragraph range ${first}-${last} runs backwards`);
+      }
+      return Array.from({ length: last - first + 1 }, (_, offset) => first + offset);
+    });
+    if (numbers.length > MAX_RANGE_PARAGRAPHS) {
+      throw new CatechismReferenceError(`Ask for at most ${MAX_RANGE_PARAGRAPHS} paragraphs at a time`);
+    }
+
+    const lookup: CatechismLookup = { paragraphs: [], missing: [] };
+    for (const number of Array.from(new Set(numbers))) {
+      const paragraph = this.paragraph(number);
+      if (paragraph) {
+        lookup.paragraphs.push(paragraph);
+      } else {
+        lookup.missing.push(number);
+      }
+    }
+
+    return lookup;
+  }
+
+  /**
+   * Sources with the exact text of the Catechism paragraphs a question cites, e.g. "CCC 1730"
+   */
+  sourcesIn(text: string): SourceReference[] {
+    const numbers = new Set<number>();
+
+    for (const match of Array.from(text.matchAll(CATECHISM_PATTERN))) {
+      for (const [first, last] of parseRanges(match[2])) {
+        for (let number = first; number <= Math.min(last, first + MAX_RANGE_PARAGRAPHS - 1); number++) {
+          if (this.paragraphs.has(number)) numbers.add(number);
+        }
+      }
+    }
+
+    return Array.from(numbers).map(number => this.toSource(this.paragraphs.get(number)!));
+  }
+
+  /**
+   * The paragraph number of a source made by this service, in the shape of a Catechism
+   * passage's metadata; undefined for any other source
+   */
+  passageMetadata(source: SourceReference): Record<string, any> | undefined {
+    if (!source.passageId?.startsWith(CATECHISM_PASSAGE_PREFIX)) return undefined;
+
+    return { paragraph: Number(source.passageId.slice(CATECHISM_PASSAGE_PREFIX.length)) };
+  }
+
+  // Rebuild the merged paragraphs and their numbers after a change
+  private merge(): void {
+    this.paragraphs = new Map(this.base);
+    this.documentParagraphs.forEach(paragraphs => {
+      paragraphs.forEach((paragraph, number) => this.paragraphs.set(number, paragraph));
+    });
+    this.numbers = Array.from(this.paragraphs.keys()).sort((a, b) => a - b);
+  }
+
+  private toSource(paragraph: CatechismParagraphText): SourceReference {
+    return {
+      id: 0,
+      passageId: `${CATECHISM_PASSAGE_PREFIX}${paragraph.number}`,
+      title: `Catechism of the Catholic Church: ${paragraph.part}`,
+      content: paragraph.text,
+      source: "Catechism of the Catholic Church",
+      category: "Catechism",
+      section: `CCC ${paragraph.number}`
+    };
+  }
+}
+
+/**
+ * Parse "1730-1732, 1735 and 1740" into [[1730, 1732], [1735, 1735], [1740, 1740]].
+ * Ranges are kept as written, so a backwards one like "200-100" comes back as [200, 100].
+ */
+export function parseRanges(text: string): Array<[number, number]> {
+  return Array.from(text.matchAll(/(\d+)(?:\s*[-–]\s*(\d+))?/g)).map(match => {
+    const first = Number(match[1]);
+    return [first, match[2] ? Number(match[2]) : first] as [number, number];
+  });
+}
+
+function isParagraphNumber(number: number): boolean {
+  return Number.isInteger(number) && number >= 1 && number <= CCC_LAST_PARAGRAPH;
+}
+
+function checkParagraphNumber(number: number): void {
+  if (!isParagraphNumber(number)) {
+    throw new CatechismReferenceError(`The Catechism's paragraphs are numbered 1 to ${CCC_LAST_PARAGRAPH}`);
+  }
+}
+
+/**
+ * The paragraphs of CATECHISM_PATH; without it, paragraphs come only from stored documents
+ * (the bundled selection is seeded as documents)
+ */
+function loadCatechism(path?: string): CatechismParagraphText[] {
+  if (!path) return [];
+
+  try {
+    return JSON.parse(fs.readFileSync(path, "utf-8"));
+  } catch (error) {
+    console.error(`[Catechism] Failed to load ${path}:`, error);
+    return [];
+  }
+}
+
+// Export a singleton instance
+export const catechismService = new CatechismService(loadCatechism(process.env.CATECHISM_PATH));
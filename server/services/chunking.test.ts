@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { chunkDocument, parseCatechismParagraphs, parseVerses } from "./chunking";
+import type { ExplicitDocument as Document } from "../types";
+
+function document(category: string, content: string, metadata: Record<string, unknown> | null = null): Document {
+  return { id: 7, title: "Test", content, source: "Test", category, metadata };
+}
+
+describe("chunkDocument", () => {
+  it("makes one passage per numbered Catechism paragraph", () => {
+    const passages = chunkDocument(document(
+      "Catechism",
+      "Article 3: Man's Freedom\n\n1730 God created man a rational being.\n\n1731 Freedom is the power to act.",
+      { part: "Part Three" }
+    ));
+
+    expect(passages.map(p => [p.id, p.section, p.content])).toEqual([
+      ["7:0", "Passage 1", "Article 3: Man's Freedom"],
+      ["7:1", "CCC 1730", "God created man a rational being."],
+      ["7:2", "CCC 1731", "Freedom is the power to act."]
+    ]);
+    expect(passages[1].metadata).toEqual({ part: "Part Three", paragraph: 1730 });
+  });
+
+  it("anchors council documents and encyclicals at their numbered sections", () => {
+    const passages = chunkDocument(document("Encyclicals", "1. Faith and reason are like two wings.\n2. Philosophy is a search."));
+
+    expect(passages.map(p => [p.section, p.metadata.sectionNumber])).toEqual([["Section 1", 1], ["Section 2", 2]]);
+  });
+
+  it("groups Scripture verses by chapter", () => {
+    const passages = chunkDocument(document(
+      "Scripture",
+      "5:43 You have heard that it hath been said.\n5:44 But I say to you, Love your enemies.\n6:1 Take heed.",
+      { book: "Matthew" }
+    ));
+
+    expect(passages.map(p => p.section)).toEqual(["Matthew 5:43-44", "Matthew 6:1"]);
+    expect(passages[0]).toMatchObject({
+      content: "43 You have heard that it hath been said. 44 But I say to you, Love your enemies.",
+      metadata: { book: "Matthew", chapter: 5, verseStart: 43, verseEnd: 44 }
+    });
+  });
+
+  it("keeps unstructured text whole and splits long text at sentence boundaries", () => {
+    expect(chunkDocument(document("Theology", "1 short line only"))).toEqual([
+      { id: "7:0", documentId: 7, index: 0, content: "1 short line only", section: undefined, metadata: {} }
+    ]);
+
+    const sentence = "Grace builds on nature and does not destroy it. ";
+    const passages = chunkDocument(document("Theology", sentence.repeat(60)));
+
+    expect(passages.length).toBeGreaterThan(1);
+    passages.forEach((passage, i) => {
+      expect(passage.content.length).toBeLessThanOrEqual(1200);
+      expect(passage.content.endsWith("destroy it.")).toBe(true);
+      expect(passage.section).toBe(`Passage ${i + 1}`);
+    });
+    expect(passages.map(p => p.content).join(" ")).toBe(sentence.repeat(60).trim());
+  });
+});
+
+describe("parseVerses and parseCatechismParagraphs", () => {
+  it("read the numbered lines in order", () => {
+    expect(parseVerses("3:16 For God so loved the world\nnot a verse\n3:17 For God sent not")).toEqual([
+      { chapter: 3, verse: 16, text: "For God so loved the world" },
+      { chapter: 3, verse: 17, text: "For God sent not" }
+    ]);
+    expect(parseCatechismParagraphs("27 The desire for God\nis written.\n28 In many ways")).toEqual([
+      { number: 27, text: "The desire for God\nis written." },
+      { number: 28, text: "In many ways" }
+    ]);
+  });
+});
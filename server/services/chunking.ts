@@ -0,0 +1,212 @@
+import { ExplicitDocument as Document } from "../types";
+
+/**
+ * A retrievable slice of a document, such as one Catechism paragraph or a run of Bible verses
+ */
+export interface Passage {
+  // `${documentId}:${index}`, stable as long as the document content doesn't change
+  id: string;
+  documentId: number;
+  index: number;
+  content: string;
+  // Human-readable anchor for citations, e.g. "CCC 1730", "Section 14" or "Matthew 5:44-45"
+  section?: string;
+  // Parent document metadata plus passage-specific fields (paragraph, chapter, verses...)
+  metadata: Record<string, any>;
+}
+
+interface Segment {
+  label?: string;
+  content: string;
+  metadata?: Record<string, any>;
+}
+
+// Passages longer than this are split further at sentence boundaries
+const MAX_PASSAGE_CHARS = 1200;
+
+// "1730 God created man a rational being..."
+const CATECHISM_PARAGRAPH = /^(\d{1,4})\s+(?=\S)/gm;
+
+/**
+ * Split a document into passages, using its category to find natural anchors:
+ * numbered paragraphs in the Catechism, numbered sections in council documents and
+ * encyclicals, and chapter:verse markers in Scripture. Documents without any
+ * recognizable structure are split on blank lines.
+ */
+export function chunkDocument(document: Document): Passage[] {
+  const content = document.content.trim();
+  const parentMetadata: Record<string, any> = document.metadata || {};
+
+  let segments: Segment[] | null = null;
+
+  switch (document.category) {
+    case "Catechism":
+      segments = splitNumbered(content, CATECHISM_PARAGRAPH, number => ({
+        label: `CCC ${number}`,
+        metadata: { paragraph: number }
+      }));
+      break;
+
+    case "Council Documents":
+    case "Encyclicals":
+      // "14. This Sacred Council wishes to turn its attention..."
+      segments = splitNumbered(content, /^(\d{1,3})\.\s+/gm, number => ({
+        label: `Section ${number}`,
+        metadata: { sectionNumber: number }
+      }));
+      break;
+
+    case "Scripture":
+      segments = splitVerses(content, parentMetadata.book || document.title);
+      break;
+  }
+
+  if (!segments) {
+    segments = [{ content }];
+  }
+
+  // Oversized segments keep their anchor but are split into several passages
+  const pieces = segments.flatMap(segment =>
+    packText(segment.content).map(text => ({ ...segment, content: text }))
+  );
+
+  return pieces.map((piece, index) => ({
+    id: `${document.id}:${index}`,
+    documentId: document.id,
+    index,
+    content: piece.content,
+    section: piece.label
+      ?? (pieces.length > 1 ? `Passage ${index + 1}` : undefined)
+      ?? (typeof parentMetadata.section === "string" ? parentMetadata.section : undefined),
+    metadata: { ...parentMetadata, ...piece.metadata }
+  }));
+}
+
+/**
+ * Split text at line-start markers like "1730 " or "14. ".
+ * Returns null when fewer than two markers are found, i.e. the text isn't numbered.
+ */
+function splitNumbered(
+  content: string,
+  marker: RegExp,
+  describe: (number: number) => { label: string; metadata: Record<string, any> }
+): Segment[] | null {
+  const matches = Array.from(content.matchAll(marker));
+  if (matches.length < 2) return null;
+
+  const segments: Segment[] = [];
+
+  // Any introduction before the first marker becomes its own passage
+  const preamble = content.slice(0, matches[0].index).trim();
+  if (preamble) {
+    segments.push({ content: preamble });
+  }
+
+  matches.forEach((match, i) => {
+    const start = match.index! + match[0].length;
+    const end = i + 1 < matches.length ? matches[i + 1].index! : content.length;
+    const text = content.slice(start, end).trim();
+    if (!text) return;
+
+    segments.push({ content: text, ...describe(Number(match[1])) });
+  });
+
+  return segments;
+}
+
+/**
+ * The "chapter:verse text" lines of a Scripture document, in order
+ */
+export function parseVerses(content: string): Array<{ chapter: number; verse: number; text: string }> {
+  return Array.from(content.matchAll(/^(\d{1,3}):(\d{1,3})\s+(.+)$/gm)).map(match => ({
+    chapter: Number(match[1]),
+    verse: Number(match[2]),
+    text: match[3].trim()
+  }));
+}
+
+/**
+ * The numbered paragraphs of a Catechism document, in order
+ */
+export function parseCatechismParagraphs(content: string): Array<{ number: number; text: string }> {
+  const matches = Array.from(content.matchAll(CATECHISM_PARAGRAPH));
+
+  return matches
+    .map((match, i) => ({
+      number: Number(match[1]),
+      text: content.slice(match.index! + match[0].length, matches[i + 1]?.index ?? content.length).trim()
+    }))
+    .filter(paragraph => paragraph.text);
+}
+
+/**
+ * Group "chapter:verse text" lines into passages of consecutive verses within a chapter
+ */
+function splitVerses(content: string, book: string): Segment[] | null {
+  const verses = parseVerses(content);
+  if (verses.length < 2) return null;
+
+  const segments: Segment[] = [];
+  let group: typeof verses = [];
+
+  const flush = () => {
+    if (group.length === 0) return;
+    const first = group[0];
+    const last = group[group.length - 1];
+    const range = first.verse === last.verse ? `${first.verse}` : `${first.verse}-${last.verse}`;
+
+    segments.push({
+      label: `${book} ${first.chapter}:${range}`,
+      content: group.map(v => `${v.verse} ${v.text}`).join(" "),
+      metadata: { book, chapter: first.chapter, verseStart: first.verse, verseEnd: last.verse }
+    });
+    group = [];
+  };
+
+  for (const verse of verses) {
+    const length = group.reduce((sum, v) => sum + v.text.length + 1, 0);
+    if (group.length > 0 && (verse.chapter !== group[0].chapter || length + verse.text.length > MAX_PASSAGE_CHARS)) {
+      flush();
+    }
+    group.push(verse);
+  }
+  flush();
+
+  return segments;
+}
+
+/**
+ * Split text into pieces of at most MAX_PASSAGE_CHARS, preferring blank lines and then
+ * sentence boundaries as break points
+ */
+function packText(text: string): string[] {
+  if (text.length <= MAX_PASSAGE_CHARS) return [text];
+
+  // Each unit remembers how it joins the previous one: sentences with a space, paragraphs with a blank line
+  const units = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => {
+      if (paragraph.length <= MAX_PASSAGE_CHARS) {
+        return [{ text: paragraph, joiner: "\n\n" }];
+      }
+      const sentences = paragraph.match(/[^.!?]+[.!?]+["”’)]*\s*|[^.!?]+$/g) || [paragraph];
+      return sentences.map((sentence, i) => ({ text: sentence.trim(), joiner: i === 0 ? "\n\n" : " " }));
+    });
+
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const unit of units) {
+    if (current && current.length + unit.text.length + 1 > MAX_PASSAGE_CHARS) {
+      pieces.push(current);
+      current = "";
+    }
+    // A single sentence longer than the limit is kept whole rather than cut mid-word
+    current = current ? `${current}${unit.joiner}${unit.text}` : unit.text;
+  }
+  if (current) pieces.push(current);
+
+  return pieces;
+}
@@ -0,0 +1,145 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { CitationVerifier } from "./citationVerifier";
+import { chunkDocument, type Passage } from "./chunking";
+import { vectorStore } from "./vectorStore";
+import type { SourceReference } from "@shared/schema";
+import type { ExplicitDocument as Document } from "../types";
+
+const catechism: Document = {
+  id: 101,
+  title: "Man's Freedom",
+  content: [
+    "1730 God created man a rational being, conferring on him the dignity of a person.",
+    "1731 Freedom is the power, rooted in reason and will, to act or not to act.",
+    "1732 As long as freedom has not bound itself definitively to its ultimate good, there is the possibility of choosing between good and evil.",
+    "1733 The more one does what is good, the freer one becomes."
+  ].join("\n\n"),
+  source: "Catechism of the Catholic Church",
+  category: "Catechism",
+  metadata: null
+};
+
+const catechismOverview: Document = {
+  id: 102,
+  title: "Life in Christ",
+  content: "An overview of the Catechism's teaching on the dignity of the human person.",
+  source: "Catechism of the Catholic Church",
+  category: "Catechism",
+  metadata: { paragraphs: "1700-1876" }
+};
+
+const council: Document = {
+  id: 103,
+  title: "Gaudium et Spes",
+  content: [
+    "14. Though made of body and soul, man is one.",
+    "15. Man judges rightly that by his intellect he surpasses the material universe.",
+    "16. In the depths of his conscience, man detects a law which he does not impose upon himself."
+  ].join("\n\n"),
+  source: "Second Vatican Council",
+  category: "Council Documents",
+  metadata: { document: "Gaudium et Spes", year: 1965 }
+};
+
+const gospel: Document = {
+  id: 104,
+  title: "Matthew 5",
+  content: [
+    "5:3 Blessed are the poor in spirit, for theirs is the kingdom of heaven.",
+    "5:4 Blessed are they who mourn, for they shall be comforted.",
+    "5:5 Blessed are the meek, for they shall inherit the land."
+  ].join("\n"),
+  source: "New American Bible",
+  category: "Scripture",
+  metadata: { book: "Matthew" }
+};
+
+const passages = new Map<number, Passage[]>();
+
+function toSource(document: Document, passage?: Passage): SourceReference {
+  return {
+    id: document.id,
+    passageId: passage?.id,
+    title: document.title,
+    content: passage?.content ?? document.content,
+    source: document.source,
+    category: document.category
+  };
+}
+
+// The sources for the given passages of a document, picked by their position
+function sourcesOf(document: Document, ...indexes: number[]): SourceReference[] {
+  return indexes.map(index => toSource(document, passages.get(document.id)![index]));
+}
+
+const verifier = new CitationVerifier("flag");
+const check = (content: string, sources: SourceReference[]) => verifier.verify(content, sources).report.citations[0];
+
+beforeAll(() => {
+  for (const document of [catechism, catechismOverview, council, gospel]) {
+    const documentPassages = chunkDocument(document);
+    passages.set(document.id, documentPassages);
+    vectorStore.addDocument(document, documentPassages.map(passage => ({ passage })));
+  }
+});
+
+describe("CitationVerifier", () => {
+  describe("Catechism ranges", () => {
+    it("verifies a range when the retrieved passages contain every paragraph", () => {
+      expect(check("See CCC 1730-1732.", sourcesOf(catechism, 0, 1, 2))).toMatchObject({
+        verified: true,
+        support: "passage",
+        sourceIds: [catechism.id]
+      });
+    });
+
+    it("doesn't verify a range from a passage at one end of it", () => {
+      expect(check("See CCC 1730-1732.", sourcesOf(catechism, 0)).verified).toBe(false);
+      expect(check("See CCC 1730-1733.", sourcesOf(catechism, 0, 1, 3)).verified).toBe(false);
+    });
+
+    it("verifies a range within a retrieved document's paragraphs", () => {
+      expect(check("See CCC 1730-1733.", [toSource(catechismOverview)])).toMatchObject({
+        verified: true,
+        support: "document"
+      });
+      expect(check("See CCC 1690-1710.", [toSource(catechismOverview)]).verified).toBe(false);
+    });
+
+    it("combines passages and document ranges", () => {
+      expect(check("See CCC 1876-1877.", [toSource(catechismOverview)]).verified).toBe(false);
+      expect(check("See CCC 1730-1733.", [...sourcesOf(catechism, 0), toSource(catechismOverview)])).toMatchObject({
+        verified: true,
+        support: "document"
+      });
+    });
+
+    it("doesn't verify a backwards range", () => {
+      expect(check("See CCC 1732-1730.", sourcesOf(catechism, 0, 1, 2))).toMatchObject({
+        verified: false,
+        reason: "The paragraph range 1732-1730 runs backwards"
+      });
+    });
+  });
+
+  describe("council sections", () => {
+    it("needs every cited section in the retrieved text", () => {
+      expect(check("(Gaudium et Spes 14-16)", sourcesOf(council, 0, 1, 2))).toMatchObject({
+        verified: true,
+        support: "passage"
+      });
+      expect(check("(Gaudium et Spes 14-16)", sourcesOf(council, 0, 2)).verified).toBe(false);
+      expect(check("(Gaudium et Spes 16-14)", sourcesOf(council, 0, 1, 2)).verified).toBe(false);
+    });
+  });
+
+  describe("Scripture verses", () => {
+    it("needs every cited verse in the retrieved passages", () => {
+      expect(check("as Jesus taught (Matthew 5:3-5)", sourcesOf(gospel, 0))).toMatchObject({
+        verified: true,
+        support: "passage"
+      });
+      expect(check("as Jesus taught (Matthew 5:3-12)", sourcesOf(gospel, 0)).verified).toBe(false);
+    });
+  });
+});
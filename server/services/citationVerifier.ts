@@ -0,0 +1,452 @@
+import { SourceReference } from "@shared/schema";
+import { vectorStore } from "./vectorStore";
+import { BOOK_ALIASES, bookName } from "./scriptureReference";
+import { scriptureService } from "./scripture";
+import { catechismService, CATECHISM_PATTERN, CCC_LAST_PARAGRAPH, parseRanges } from "./catechism";
+
+export type CitationKind = "catechism" | "council" | "encyclical" | "scripture";
+
+export interface CheckedCitation {
+  // The citation as written in the answer, e.g. "Catechism of the Catholic Church, 1730-1732"
+  text: string;
+  kind: CitationKind;
+  verified: boolean;
+  // "passage" when retrieved passages contain every cited paragraph, section or verse;
+  // "document" when the retrieved documents' metadata is needed to cover them (e.g. a paragraph range)
+  support?: "passage" | "document";
+  // Ids of the retrieved documents that support the citation
+  sourceIds: number[];
+  // Why an unverified citation could not be matched
+  reason?: string;
+}
+
+export interface CitationReport {
+  citations: CheckedCitation[];
+  verified: number;
+  unverified: number;
+  // True when unverified citations were removed from the answer
+  stripped: boolean;
+}
+
+export type CitationCheckMode = "flag" | "strip" | "off";
+
+interface ParsedCitation {
+  kind: CitationKind;
+  text: string;
+  start: number;
+  end: number;
+  // What the citation is reduced to when stripped, e.g. just the document name
+  general?: string;
+  catechismParagraphs?: Array<[number, number]>;
+  document?: string;
+  sectionRange?: [number, number];
+  pope?: string;
+  year?: number;
+  book?: string;
+  chapter?: number;
+  verseRange?: [number, number];
+}
+
+interface CitedSource {
+  reference: SourceReference;
+  // Passage metadata (document metadata plus paragraph, section or verse anchors)
+  passageMetadata: Record<string, any>;
+  // Metadata of the whole document
+  documentMetadata: Record<string, any>;
+}
+
+// Vatican II documents and their usual abbreviations
+const COUNCIL_DOCUMENTS: Record<string, string> = {
+  "Lumen Gentium": "LG",
+  "Dei Verbum": "DV",
+  "Gaudium et Spes": "GS",
+  "Sacrosanctum Concilium": "SC",
+  "Dignitatis Humanae": "DH",
+  "Nostra Aetate": "NA",
+  "Unitatis Redintegratio": "UR",
+  "Ad Gentes": "AG",
+  "Apostolicam Actuositatem": "AA",
+  "Presbyterorum Ordinis": "PO",
+  "Optatam Totius": "OT",
+  "Perfectae Caritatis": "PC",
+  "Christus Dominus": "CD",
+  "Gravissimum Educationis": "GE",
+  "Inter Mirifica": "IM",
+  "Orientalium Ecclesiarum": "OE",
+};
+
+// Well-known encyclicals, recognized even when cited without pope and year
+const KNOWN_ENCYCLICALS = [
+  "Aeterni Patris", "Rerum Novarum", "Providentissimus Deus", "Pascendi Dominici Gregis",
+  "Casti Connubii", "Quadragesimo Anno", "Mit brennender Sorge", "Divini Redemptoris",
+  "Mystici Corporis Christi", "Divino Afflante Spiritu", "Mediator Dei", "Humani Generis",
+  "Mater et Magistra", "Pacem in Terris", "Ecclesiam Suam", "Populorum Progressio",
+  "Humanae Vitae", "Redemptor Hominis", "Dives in Misericordia", "Laborem Exercens",
+  "Redemptoris Mater", "Sollicitudo Rei Socialis", "Centesimus Annus", "Veritatis Splendor",
+  "Evangelium Vitae", "Ut Unum Sint", "Fides et Ratio", "Ecclesia de Eucharistia",
+  "Deus Caritas Est", "Spe Salvi", "Caritas in Veritate", "Lumen Fidei", "Laudato Si'",
+  "Fratelli Tutti", "Dilexit Nos",
+];
+
+const COUNCIL_PATTERN = new RegExp(
+  String.raw`\b(${[...Object.keys(COUNCIL_DOCUMENTS), ...Object.values(COUNCIL_DOCUMENTS)].join("|")})\b` +
+  String.raw`(?:,?\s*(?:§|no\.|nos\.|art\.|section)?\s*(\d{1,3}(?:\s*[-–]\s*\d{1,3})?)(?![\d:]))?`,
+  "g"
+);
+
+const SCRIPTURE_PATTERN = new RegExp(
+  String.raw`\b(${BOOK_ALIASES.map(([alias]) => alias).sort((a, b) => b.length - a.length).map(escapeRegExp).join("|")})\.?` +
+  String.raw`\s+(\d{1,3}):(\d{1,3})(?:\s*[-–]\s*(?:(\d{1,3}):)?(\d{1,3}))?`,
+  // Case-sensitive, so a time like "is 5:30" isn't read as Isaiah
+  "g"
+);
+
+// "Humanae Vitae, Pope Paul VI, 1968", also for encyclicals missing from KNOWN_ENCYCLICALS
+const ENCYCLICAL_WITH_POPE_PATTERN = /\b([A-Z][a-z']+(?:\s+(?:et|in|de|[A-Z][a-z']+)){1,3}),?\s*\(?(?:(?:St\.|Saint)\s+)?Pope\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?(?:\s+[IVXL]+)?),\s*(\d{4})\)?/g;
+
+// Words that can precede a title in a sentence but aren't part of it, e.g. "In Humanae Vitae, ..."
+const LEADING_WORDS = /^(?:(?:In|The|See|As|From|And|Also|Cf|Both|Read)\s+)+/;
+
+/**
+ * Checks the citations in a generated answer against the sources that were retrieved for it.
+ * The system prompt tells the model to cite only what it was given; this catches the
+ * paragraph numbers, sections and verses it cites anyway.
+ */
+export class CitationVerifier {
+  private mode: CitationCheckMode;
+
+  constructor(mode: CitationCheckMode) {
+    this.mode = mode;
+  }
+
+  get enabled(): boolean {
+    return this.mode !== "off";
+  }
+
+  /**
+   * Find the citations in `content` and check each against `sources`.
+   * In "strip" mode unverified citations are reduced to the bare document name
+   * (or removed when parenthesized) in the returned content.
+   */
+  verify(content: string, sources: SourceReference[]): { content: string; report: CitationReport } {
+    const cited = sources.map(reference => this.describeSource(reference));
+    const parsed = parseCitations(content);
+
+    const checked = parsed.map(citation => ({ citation, result: checkCitation(citation, cited) }));
+    const unverified = checked.filter(({ result }) => !result.verified);
+
+    let finalContent = content;
+    const strip = this.mode === "strip" && unverified.length > 0;
+    if (strip) {
+      finalContent = stripCitations(content, unverified.map(({ citation }) => citation));
+    }
+
+    return {
+      content: finalContent,
+      report: {
+        citations: checked.map(({ result }) => result),
+        verified: checked.length - unverified.length,
+        unverified: unverified.length,
+        stripped: strip
+      }
+    };
+  }
+
+  private describeSource(reference: SourceReference): CitedSource {
+    // Verses and paragraphs looked up in the bundled texts aren't in the vector store,
+    // and support only themselves
+    const lookedUp = scriptureService.passageMetadata(reference) ?? catechismService.passageMetadata(reference);
+    if (lookedUp) {
+      return { reference, passageMetadata: lookedUp, documentMetadata: {} };
+    }
+
+    const passage = reference.passageId ? vectorStore.getPassageById(reference.passageId) : undefined;
+    const document = vectorStore.getDocumentById(reference.id);
+    const documentMetadata: Record<string, any> = document?.metadata || {};
+
+    return {
+      reference,
+      passageMetadata: passage?.metadata || documentMetadata,
+      documentMetadata
+    };
+  }
+}
+
+/**
+ * Parse every citation in the text, in order of appearance. Where patterns overlap
+ * (an encyclical cited with its pope contains a known title) the longest match wins.
+ */
+export function parseCitations(text: string): ParsedCitation[] {
+  const found: ParsedCitation[] = [];
+
+  for (const match of Array.from(text.matchAll(CATECHISM_PATTERN))) {
+    found.push({
+      kind: "catechism",
+      text: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+      general: match[1] === "CCC" ? "Catechism" : match[1],
+      catechismParagraphs: parseRanges(match[2])
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(COUNCIL_PATTERN))) {
+    const name = councilName(match[1]);
+    // Bare abbreviations like "GS" are only citations when a section number follows
+    if (name !== match[1] && !match[2]) continue;
+
+    found.push({
+      kind: "council",
+      text: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+      general: name,
+      document: name,
+      sectionRange: match[2] ? parseRanges(match[2])[0] : undefined
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(ENCYCLICAL_WITH_POPE_PATTERN))) {
+    const leading = match[1].match(LEADING_WORDS)?.[0].length ?? 0;
+    const title = match[1].slice(leading);
+    // Council documents are matched by their own pattern
+    if (!title.includes(" ") || title in COUNCIL_DOCUMENTS) continue;
+
+    found.push({
+      kind: "encyclical",
+      text: match[0].slice(leading),
+      start: match.index! + leading,
+      end: match.index! + match[0].length,
+      general: title,
+      document: title,
+      pope: match[2],
+      year: Number(match[3])
+    });
+  }
+
+  const titles = KNOWN_ENCYCLICALS.map(escapeRegExp).join("|");
+  const knownPattern = new RegExp(String.raw`\b(${titles})(?:,?\s*(?:§|no\.)?\s*(\d{1,3})(?![\d:]))?`, "g");
+  for (const match of Array.from(text.matchAll(knownPattern))) {
+    found.push({
+      kind: "encyclical",
+      text: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+      general: match[1],
+      document: match[1],
+      sectionRange: match[2] ? [Number(match[2]), Number(match[2])] : undefined
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(SCRIPTURE_PATTERN))) {
+    const book = bookName(match[1])!;
+    // "Acts 2:38-3:1" spans chapters; only the first chapter is checked
+    const lastVerse = match[5] && !match[4] ? Number(match[5]) : Number(match[3]);
+
+    found.push({
+      kind: "scripture",
+      text: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+      general: book,
+      book,
+      chapter: Number(match[2]),
+      verseRange: [Number(match[3]), Math.max(Number(match[3]), lastVerse)]
+    });
+  }
+
+  // Keep the longest of any overlapping matches
+  const sorted = found.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const citations: ParsedCitation[] = [];
+  for (const citation of sorted) {
+    const previous = citations[citations.length - 1];
+    if (previous && citation.start < previous.end) continue;
+    citations.push(citation);
+  }
+
+  return citations;
+}
+
+function checkCitation(citation: ParsedCitation, sources: CitedSource[]): CheckedCitation {
+  const result = (support: CheckedCitation["support"], supporting: CitedSource[], reason?: string): CheckedCitation => ({
+    text: citation.text,
+    kind: citation.kind,
+    verified: support !== undefined,
+    ...(support ? { support } : {}),
+    sourceIds: Array.from(new Set(supporting.map(source => source.reference.id))),
+    ...(reason ? { reason } : {})
+  });
+
+  switch (citation.kind) {
+    case "catechism": {
+      const catechism = sources.filter(source => source.reference.category === "Catechism");
+      const paragraphs = citation.catechismParagraphs!;
+
+      if (paragraphs.some(([, last]) => last > CCC_LAST_PARAGRAPH)) {
+        return result(undefined, [], `The Catechism has no paragraph above ${CCC_LAST_PARAGRAPH}`);
+      }
+      const backwards = paragraphs.find(([first, last]) => last < first);
+      if (backwards) {
+        return result(undefined, [], `The paragraph range ${formatRange(backwards)} runs backwards`);
+      }
+
+      // Every cited paragraph must be in a retrieved passage or within a retrieved document's range
+      const passageRanges = (source: CitedSource): Array<[number, number]> =>
+        typeof source.passageMetadata.paragraph === "number"
+          ? [[source.passageMetadata.paragraph, source.passageMetadata.paragraph]]
+          : [];
+      const documentRanges = (source: CitedSource) =>
+        parseRanges(String(source.documentMetadata.paragraphs ?? source.documentMetadata.paragraph ?? ""));
+      const inPassages = catechism.flatMap(passageRanges);
+      const inDocuments = catechism.flatMap(documentRanges);
+
+      if (!paragraphs.every(range => covers([...inPassages, ...inDocuments], range))) {
+        return result(undefined, [], "The retrieved Catechism sources don't contain all of these paragraphs");
+      }
+
+      const supporting = catechism.filter(source =>
+        [...passageRanges(source), ...documentRanges(source)].some(covered => paragraphs.some(range => overlaps(covered, range)))
+      );
+      const exact = paragraphs.every(range => covers(inPassages, range));
+      return result(exact ? "passage" : "document", supporting);
+    }
+
+    case "council":
+    case "encyclical": {
+      const category = citation.kind === "council" ? "Council Documents" : "Encyclicals";
+      const name = citation.document!.toLowerCase();
+
+      const documents = sources.filter(source =>
+        source.reference.category === category &&
+        (String(source.documentMetadata.document || "").toLowerCase() === name ||
+          source.reference.title.toLowerCase().includes(name))
+      );
+
+      if (documents.length === 0) {
+        return result(undefined, [], `${citation.document} was not among the retrieved sources`);
+      }
+
+      if (citation.pope && documents.every(source => !samePope(citation.pope!, source))) {
+        return result(undefined, [], `${citation.document} is not by Pope ${citation.pope}`);
+      }
+
+      if (citation.year && documents.every(source => Number(source.documentMetadata.year) !== citation.year)) {
+        return result(undefined, [], `${citation.document} is not from ${citation.year}`);
+      }
+
+      if (citation.sectionRange) {
+        if (citation.sectionRange[1] < citation.sectionRange[0]) {
+          return result(undefined, [], `The section range ${formatRange(citation.sectionRange)} runs backwards`);
+        }
+
+        const bySection = documents.filter(source =>
+          typeof source.passageMetadata.sectionNumber === "number" &&
+          overlaps(citation.sectionRange!, [source.passageMetadata.sectionNumber, source.passageMetadata.sectionNumber])
+        );
+        const sections = bySection.map((source): [number, number] =>
+          [source.passageMetadata.sectionNumber, source.passageMetadata.sectionNumber]
+        );
+        // Every cited section has to be in the retrieved text, not just one of them
+        return covers(sections, citation.sectionRange)
+          ? result("passage", bySection)
+          : result(undefined, [], `Section ${formatRange(citation.sectionRange)} of ${citation.document} was not in the retrieved text`);
+      }
+
+      return result("document", documents);
+    }
+
+    case "scripture": {
+      const scripture = sources.filter(source => source.reference.category === "Scripture");
+      const book = citation.book!;
+
+      const byPassage = scripture.filter(source =>
+        source.passageMetadata.book && bookName(String(source.passageMetadata.book)) === book &&
+        source.passageMetadata.chapter === citation.chapter &&
+        typeof source.passageMetadata.verseStart === "number" &&
+        overlaps(citation.verseRange!, [source.passageMetadata.verseStart, source.passageMetadata.verseEnd])
+      );
+      const verses = byPassage.map((source): [number, number] =>
+        [source.passageMetadata.verseStart, source.passageMetadata.verseEnd ?? source.passageMetadata.verseStart]
+      );
+      // Together the passages have to contain every cited verse
+      if (covers(verses, citation.verseRange!)) {
+        return result("passage", byPassage);
+      }
+
+      // Overview documents list the books they cover, e.g. "Matthew, Mark, Luke, John".
+      // Passages with verse numbers only support the verses they contain.
+      const byDocument = scripture.filter(source =>
+        typeof source.passageMetadata.verseStart !== "number" &&
+        String(source.documentMetadata.books || source.documentMetadata.book || "")
+          .split(/\s*,\s*/)
+          .some(name => bookName(name) === book)
+      );
+      return byDocument.length > 0
+        ? result("document", byDocument)
+        : result(undefined, [], `No retrieved Scripture source contains ${book} ${citation.chapter}`);
+    }
+  }
+}
+
+/**
+ * Replace unverified citations with the bare document name; parenthesized ones are removed
+ */
+function stripCitations(content: string, citations: ParsedCitation[]): string {
+  let result = content;
+
+  // Work backwards so earlier offsets stay valid
+  for (const citation of [...citations].sort((a, b) => b.start - a.start)) {
+    const before = result.slice(0, citation.start);
+    const after = result.slice(citation.end);
+
+    if (/\(\s*$/.test(before) && /^\s*\)/.test(after)) {
+      result = before.replace(/\s*\(\s*$/, "") + after.replace(/^\s*\)/, "");
+    } else if (citation.general && citation.general !== citation.text) {
+      result = before + citation.general + after;
+    }
+  }
+
+  return result;
+}
+
+function councilName(nameOrAbbreviation: string): string {
+  const entry = Object.entries(COUNCIL_DOCUMENTS).find(([, abbreviation]) => abbreviation === nameOrAbbreviation);
+  return entry ? entry[0] : nameOrAbbreviation;
+}
+
+function samePope(pope: string, source: CitedSource): boolean {
+  const known = `${source.documentMetadata.pope || ""} ${source.reference.source}`.toLowerCase();
+  return known.includes(pope.toLowerCase());
+}
+
+function overlaps(a: [number, number], b: [number, number]): boolean {
+  return a[0] <= b[1] && b[0] <= a[1];
+}
+
+/**
+ * Whether the union of `ranges` contains every number in `target`
+ */
+function covers(ranges: Array<[number, number]>, target: [number, number]): boolean {
+  let next = target[0];
+
+  for (const [first, last] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    if (first > next) break;
+    next = Math.max(next, last + 1);
+    if (next > target[1]) return true;
+  }
+
+  return next > target[1];
+}
+
+function formatRange([first, last]: [number, number]): string {
+  return first === last ? `${first}` : `${first}-${last}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Export a singleton instance
+export const citationVerifier = new CitationVerifier(
+  (process.env.CITATION_CHECK as CitationCheckMode) || "flag"
+);
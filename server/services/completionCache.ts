@@ -0,0 +1,64 @@
+import { createHash } from "crypto";
+import { MessageWithRole, SourceReference } from "@shared/schema";
+import { LRUCache, type CacheStats } from "./cache";
+
+export interface CompletionCacheOptions {
+  enabled: boolean;
+  maxSize: number;
+  ttlMs: number;
+}
+
+/**
+ * Reuses LLM answers for prompts that have already been answered. The key covers the
+ * normalized prompt, the retrieved passages and the model, so an answer is only reused
+ * when the model would see the same question with the same sources. Opt-in, since a
+ * cached answer never varies the way a sampled one does.
+ */
+export class CompletionCache {
+  readonly enabled: boolean;
+  private cache: LRUCache<string, string>;
+
+  constructor(options: CompletionCacheOptions) {
+    this.enabled = options.enabled;
+    this.cache = new LRUCache<string, string>({ maxSize: options.maxSize, ttlMs: options.ttlMs });
+  }
+
+  key(messages: MessageWithRole[], sources: SourceReference[], model: string, temperature: number): string {
+    const prompt = messages.map(msg => `${msg.role}:${normalizePrompt(msg.content)}`).join("\n");
+    const sourceIds = sources.map(source => source.passageId ?? String(source.id)).join(",");
+
+    return createHash("sha256")
+      .update(`${model}\n${temperature}\n${sourceIds}\n${prompt}`)
+      .digest("hex");
+  }
+
+  get(key: string): string | undefined {
+    return this.enabled ? this.cache.get(key) : undefined;
+  }
+
+  set(key: string, response: string): void {
+    if (this.enabled && response.trim()) {
+      this.cache.set(key, response);
+    }
+  }
+
+  clear(): number {
+    return this.cache.clear();
+  }
+
+  stats(): CacheStats & { enabled: boolean } {
+    return { enabled: this.enabled, ...this.cache.stats() };
+  }
+}
+
+// Case and spacing differences shouldn't defeat the cache
+function normalizePrompt(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// Export a singleton instance
+export const completionCache = new CompletionCache({
+  enabled: process.env.COMPLETION_CACHE === "on",
+  maxSize: process.env.COMPLETION_CACHE_SIZE ? parseInt(process.env.COMPLETION_CACHE_SIZE) : 100,
+  ttlMs: process.env.COMPLETION_CACHE_TTL_MS ? parseInt(process.env.COMPLETION_CACHE_TTL_MS) : 60 * 60 * 1000
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { ContextBuilder, type ContextRequest } from "./contextBuilder";
+import { countTokens, truncateToTokens } from "./tokenizer";
+import type { SourceReference } from "@shared/schema";
+
+// Every "word" is one token, so a text of n words is n tokens
+const words = (n: number, word = "word") => Array(n).fill(word).join(" ");
+
+const source = (id: number, tokens: number): SourceReference => ({
+  id, title: `Source ${id}`, content: words(tokens), source: "Test", category: "Theology"
+});
+
+function request(overrides: Partial<ContextRequest> = {}): ContextRequest {
+  return {
+    systemPrompt: "You answer questions.",
+    contextHeader: "\nSources:\n",
+    emptyContextNote: "\nNo sources.",
+    sources: [],
+    formatSource: (source, number) => `[${number}] ${source.title}\n${source.content}`,
+    history: [],
+    query: "What is grace?",
+    ...overrides
+  };
+}
+
+// A prompt budget of 800 tokens, less the system prompt and chat template overhead
+const builder = new ContextBuilder({ contextTokens: 1000, answerTokens: 200, safetyMargin: 0, historyShare: 0.3, minItemTokens: 20 });
+
+describe("countTokens and truncateToTokens", () => {
+  it("counts words, long words, punctuation and unspaced scripts", () => {
+    expect(countTokens("God is love.")).toBe(4);
+    expect(countTokens("transubstantiation")).toBe(5);
+    expect(countTokens("天主教")).toBe(3);
+    expect(countTokens("")).toBe(0);
+  });
+
+  it("shortens to the budget, ending at a sentence where it can", () => {
+    const text = `${words(30)}. ${words(10)}`;
+
+    expect(truncateToTokens(text, 100)).toBe(text);
+    expect(truncateToTokens(text, 35)).toBe(`${words(30)}.…`);
+    expect(countTokens(truncateToTokens(text, 20))).toBeLessThanOrEqual(20);
+  });
+});
+
+describe("ContextBuilder", () => {
+  it("keeps everything that fits, in order", () => {
+    const history = [
+      { role: "user" as const, content: "What is faith?" },
+      { role: "assistant" as const, content: "Faith is assent to God [1]." }
+    ];
+    const context = builder.build(request({ sources: [source(1, 10), source(2, 10)], history }));
+
+    expect(context.messages.map(m => m.role)).toEqual(["system", "user", "assistant", "user"]);
+    expect(context.messages[0].content).toBe(`You answer questions.\nSources:\n[1] Source 1\n${words(10)}\n[2] Source 2\n${words(10)}`);
+    expect(context.messages.slice(1)).toEqual([...history, { role: "user", content: "What is grace?" }]);
+    expect(context.breakdown).toMatchObject({
+      contextTokens: 1000,
+      answerTokens: 200,
+      sourcesIncluded: 2,
+      sourcesDropped: 0,
+      historyIncluded: 2,
+      historyDropped: 0,
+      queryShortened: false
+    });
+    const { system, sources, history: historyTokens, query, overhead, prompt } = context.breakdown;
+    expect(prompt).toBe(system + sources + historyTokens + query + overhead);
+  });
+
+  it("shortens the lowest-ranked source that still fits an excerpt and drops the rest", () => {
+    const context = builder.build(request({ sources: [source(1, 300), source(2, 300), source(3, 300), source(4, 300)] }));
+
+    expect(context.sources.map(s => s.id)).toEqual([1, 2, 3]);
+    expect(context.messages[0].content).toContain(`[2] Source 2\n${words(300)}\n[3] Source 3\nword`);
+    expect(context.messages[0].content.endsWith("…")).toBe(true);
+    expect(context.breakdown).toMatchObject({ sourcesIncluded: 3, sourcesShortened: 1, sourcesDropped: 1 });
+    expect(context.breakdown.prompt).toBeLessThanOrEqual(800);
+  });
+
+  it("holds back room for the conversation so sources can't crowd it out", () => {
+    const history = [
+      { role: "user" as const, content: words(50) },
+      { role: "assistant" as const, content: words(50) }
+    ];
+    const context = builder.build(request({ sources: [1, 2, 3, 4, 5].map(id => source(id, 300)), history }));
+
+    expect(context.breakdown).toMatchObject({
+      historyIncluded: 2,
+      historyShortened: 0,
+      historyDropped: 0,
+      sourcesShortened: 1,
+      sourcesDropped: 2
+    });
+    expect(context.breakdown.prompt).toBeLessThanOrEqual(800);
+  });
+
+  it("drops the oldest messages first, shortening the oldest one kept", () => {
+    const history = [1, 2, 3, 4, 5].map(n => ({ role: "user" as const, content: words(300, `m${n}`) }));
+    const context = builder.build(request({ history }));
+
+    const kept = context.messages.slice(1, -1);
+    expect(kept.map(m => m.content.split(" ")[0])).toEqual(["m3", "m4", "m5"]);
+    expect(kept[0].content.endsWith("…")).toBe(true);
+    expect(kept.slice(1).map(m => m.content)).toEqual([history[3].content, history[4].content]);
+    expect(context.breakdown).toMatchObject({ historyIncluded: 3, historyShortened: 1, historyDropped: 2 });
+    expect(context.messages[0].content).toBe("You answer questions.\nNo sources.");
+    expect(context.breakdown.prompt).toBeLessThanOrEqual(800);
+  });
+
+  it("shortens a question that can't fit on its own and takes per-request budgets", () => {
+    const context = builder.build(request({ query: words(1000), sources: [source(1, 10)] }));
+
+    expect(context.breakdown.queryShortened).toBe(true);
+    expect(context.sources).toEqual([]);
+    expect(context.breakdown.prompt).toBeLessThanOrEqual(800);
+
+    const smaller = builder.build(request({ sources: [source(1, 300)] }), { contextTokens: 400 });
+    expect(smaller.breakdown).toMatchObject({ contextTokens: 400, sourcesShortened: 1 });
+    expect(smaller.breakdown.prompt).toBeLessThanOrEqual(200);
+  });
+});
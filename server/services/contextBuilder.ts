@@ -0,0 +1,235 @@
+import { MessageWithRole, SourceReference } from "@shared/schema";
+import { countTokens, truncateToTokens, MESSAGE_OVERHEAD_TOKENS } from "./tokenizer";
+
+export interface ContextBudgetOptions {
+  // The model's context window, shared by the prompt and the answer
+  contextTokens: number;
+  // Kept free for the answer and sent to the LLM as max_tokens
+  answerTokens: number;
+  // Share of the window left unused to absorb errors in the token estimate
+  safetyMargin: number;
+  // Share of the prompt budget held for conversation history before sources are added
+  historyShare: number;
+  // Sources and history messages that can't keep at least this many tokens are dropped
+  // rather than shortened
+  minItemTokens: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudgetOptions = {
+  contextTokens: 8192,
+  answerTokens: 2400,
+  safetyMargin: 0.05,
+  historyShare: 0.3,
+  minItemTokens: 64,
+};
+
+/**
+ * Where the prompt's tokens went, saved with each assistant message as `metadata.tokens`.
+ * Counts are estimates (see tokenizer.ts).
+ */
+export interface TokenBreakdown {
+  contextTokens: number;
+  // Reserved for the answer
+  answerTokens: number;
+  system: number;
+  sources: number;
+  history: number;
+  query: number;
+  // Per-message chat template overhead
+  overhead: number;
+  // Everything sent: system + sources + history + query + overhead
+  prompt: number;
+  sourcesIncluded: number;
+  sourcesShortened: number;
+  sourcesDropped: number;
+  historyIncluded: number;
+  historyShortened: number;
+  historyDropped: number;
+  queryShortened: boolean;
+  // Estimated size of the generated answer, filled in once it is complete
+  completion?: number;
+}
+
+export interface ContextRequest {
+  systemPrompt: string;
+  // Introduces the sources appended to the system prompt
+  contextHeader: string;
+  // Appended to the system prompt instead when no source is included
+  emptyContextNote: string;
+  // Best match first; the numbers passed to formatSource follow this order
+  sources: SourceReference[];
+  formatSource: (source: SourceReference, number: number) => string;
+  // Oldest first
+  history: MessageWithRole[];
+  query: string;
+}
+
+export interface AssembledContext {
+  messages: MessageWithRole[];
+  // The sources that made it into the prompt, numbered as the model saw them
+  sources: SourceReference[];
+  breakdown: TokenBreakdown;
+}
+
+/**
+ * Fits the system prompt, retrieved sources, conversation history and question into the
+ * model's context window, leaving room for the answer. The system prompt and the
+ * question are always kept. The least valuable items go first: the lowest-ranked
+ * sources and the oldest messages are shortened to an excerpt when that still leaves
+ * something useful, and dropped otherwise.
+ */
+export class ContextBuilder {
+  private options: ContextBudgetOptions;
+
+  constructor(options: Partial<ContextBudgetOptions> = {}) {
+    this.options = { ...DEFAULT_CONTEXT_BUDGET, ...options };
+  }
+
+  get answerTokens(): number {
+    return this.options.answerTokens;
+  }
+
+  /**
+   * Assemble the messages for `request`. `budget` overrides the builder's options for
+   * this request, e.g. with the chosen model's context window.
+   */
+  build(request: ContextRequest, budget: Partial<ContextBudgetOptions> = {}): AssembledContext {
+    const { contextTokens, answerTokens, safetyMargin, historyShare, minItemTokens } = { ...this.options, ...budget };
+
+    const systemTokens = countTokens(request.systemPrompt) +
+      Math.max(countTokens(request.contextHeader), countTokens(request.emptyContextNote));
+    let overhead = 2 * MESSAGE_OVERHEAD_TOKENS;
+    const promptLimit = Math.floor(contextTokens * (1 - safetyMargin)) - answerTokens;
+    const promptBudget = promptLimit - systemTokens - overhead;
+
+    // The question always goes in, shortened only if it can't fit on its own
+    let query = request.query;
+    let queryTokens = countTokens(query);
+    const queryShortened = queryTokens > promptBudget;
+    if (queryShortened) {
+      query = truncateToTokens(query, Math.max(minItemTokens, promptBudget));
+      queryTokens = countTokens(query);
+      console.warn(`[ContextBuilder] Question shortened to ${queryTokens} tokens to fit the context window`);
+    }
+
+    let available = promptBudget - queryTokens;
+
+    // Hold back part of the budget for history so sources can't crowd out the conversation
+    const historyWanted = request.history.reduce(
+      (total, message) => total + countTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0
+    );
+    const historyReserve = Math.min(historyWanted, Math.floor(Math.max(0, available) * historyShare));
+
+    // Sources in rank order; stop at the first one that can't keep a useful excerpt
+    const sources: SourceReference[] = [];
+    const formatted: string[] = [];
+    let sourceTokens = 0;
+    let sourcesShortened = 0;
+    let sourceBudget = available - historyReserve;
+
+    for (const source of request.sources) {
+      const number = sources.length + 1;
+      const full = request.formatSource(source, number);
+      const fullTokens = countTokens(full);
+
+      if (fullTokens <= sourceBudget) {
+        formatted.push(full);
+        sources.push(source);
+        sourceTokens += fullTokens;
+        sourceBudget -= fullTokens;
+        continue;
+      }
+
+      // The source's title, citation details and numbering without its text
+      const frameTokens = countTokens(request.formatSource({ ...source, content: "" }, number));
+      const contentBudget = sourceBudget - frameTokens;
+      if (contentBudget < minItemTokens) break;
+
+      const excerpt = request.formatSource(
+        { ...source, content: truncateToTokens(source.content || "", contentBudget) },
+        number
+      );
+      const excerptTokens = countTokens(excerpt);
+      formatted.push(excerpt);
+      sources.push(source);
+      sourceTokens += excerptTokens;
+      sourceBudget -= excerptTokens;
+      sourcesShortened++;
+    }
+
+    available -= sourceTokens;
+
+    // History newest first, then back in chronological order
+    const history: MessageWithRole[] = [];
+    let historyTokens = 0;
+    let historyShortened = 0;
+
+    for (let i = request.history.length - 1; i >= 0; i--) {
+      const message = request.history[i];
+      const contentBudget = available - MESSAGE_OVERHEAD_TOKENS;
+      const tokens = countTokens(message.content);
+
+      let content = message.content;
+      if (tokens > contentBudget) {
+        if (contentBudget < minItemTokens) break;
+        content = truncateToTokens(message.content, contentBudget);
+        historyShortened++;
+      }
+
+      const used = countTokens(content);
+      history.unshift({ role: message.role, content });
+      historyTokens += used;
+      overhead += MESSAGE_OVERHEAD_TOKENS;
+      available -= used + MESSAGE_OVERHEAD_TOKENS;
+    }
+
+    // Tell the model explicitly when no source was included, so it doesn't cite any
+    const contextSection = sources.length > 0
+      ? request.contextHeader + formatted.join("\n")
+      : request.emptyContextNote;
+    const system = request.systemPrompt + contextSection;
+
+    const breakdown: TokenBreakdown = {
+      contextTokens,
+      answerTokens,
+      system: countTokens(request.systemPrompt) + countTokens(sources.length > 0 ? request.contextHeader : request.emptyContextNote),
+      sources: sourceTokens,
+      history: historyTokens,
+      query: queryTokens,
+      overhead,
+      prompt: 0,
+      sourcesIncluded: sources.length,
+      sourcesShortened,
+      sourcesDropped: request.sources.length - sources.length,
+      historyIncluded: history.length,
+      historyShortened,
+      historyDropped: request.history.length - history.length,
+      queryShortened,
+    };
+    breakdown.prompt = breakdown.system + breakdown.sources + breakdown.history + breakdown.query + breakdown.overhead;
+
+    if (breakdown.sourcesDropped > 0 || breakdown.historyDropped > 0 || sourcesShortened > 0 || historyShortened > 0) {
+      console.log(
+        `[ContextBuilder] ${breakdown.prompt}/${promptLimit} prompt tokens; ` +
+        `dropped ${breakdown.sourcesDropped} source(s) and ${breakdown.historyDropped} message(s), ` +
+        `shortened ${sourcesShortened} source(s) and ${historyShortened} message(s)`
+      );
+    }
+
+    return {
+      messages: [
+        { role: "system", content: system },
+        ...history,
+        { role: "user", content: query }
+      ],
+      sources,
+      breakdown
+    };
+  }
+}
+
+// Export a singleton instance; answers are capped at LLM_MAX_ANSWER_TOKENS, and each
+// request passes its model's context window
+export const contextBuilder = new ContextBuilder({
+  answerTokens: process.env.LLM_MAX_ANSWER_TOKENS ? parseInt(process.env.LLM_MAX_ANSWER_TOKENS) : DEFAULT_CONTEXT_BUDGET.answerTokens,
+});
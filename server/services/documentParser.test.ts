@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { detectFormat, parseDocuments, parseFrontMatter, validateDocuments } from "./documentParser";
+
+const prayer = { title: "Prayer", content: "Prayer is the raising of one's mind and heart to God.", source: "CCC 2559", category: "Catechism" };
+
+describe("detectFormat", () => {
+  it.each([
+    ["documents.jsonl", "jsonl"],
+    ["application/x-ndjson", "jsonl"],
+    ["application/json", "json"],
+    ["Lumen Gentium.md", "markdown"],
+    ["text/markdown", "markdown"],
+    ["notes.txt", "text"],
+    ["text/plain", "text"],
+    ["scan.pdf", undefined]
+  ])("reads %s as %s", (value, format) => {
+    expect(detectFormat(value)).toBe(format);
+  });
+});
+
+describe("parseFrontMatter", () => {
+  it("reads numbers, booleans, lists and quoted strings", () => {
+    const { attributes, body } = parseFrontMatter(
+      "---\ntitle: \"Dei Verbum: On Divine Revelation\"\nyear: 1965\npromulgated: true\n# a comment\ntopics: [Scripture, Tradition, 10]\n---\nBody text\n"
+    );
+
+    expect(attributes).toEqual({
+      title: "Dei Verbum: On Divine Revelation",
+      year: 1965,
+      promulgated: true,
+      topics: ["Scripture", "Tradition", 10]
+    });
+    expect(body).toBe("Body text\n");
+  });
+
+  it("leaves text without front matter alone and rejects lines without a key", () => {
+    expect(parseFrontMatter("No front matter")).toEqual({ attributes: {}, body: "No front matter" });
+    expect(() => parseFrontMatter("---\njust a line\n---\n")).toThrow('Invalid front matter line: "just a line"');
+  });
+});
+
+describe("parseDocuments", () => {
+  it("reads a JSON array, a { documents } object or a single document", () => {
+    expect(parseDocuments(JSON.stringify([prayer, prayer]), "json").documents).toHaveLength(2);
+    expect(parseDocuments(JSON.stringify({ documents: [prayer] }), "json").documents).toEqual([prayer]);
+    expect(parseDocuments(JSON.stringify(prayer), "json").documents).toEqual([prayer]);
+  });
+
+  it("reads one document per JSONL line and reports the line that isn't JSON", () => {
+    const lines = `${JSON.stringify(prayer)}\n\n${JSON.stringify({ ...prayer, title: "Grace" })}\r\n`;
+    expect(parseDocuments(lines, "jsonl").documents.map(d => d.title)).toEqual(["Prayer", "Grace"]);
+
+    expect(parseDocuments(`${JSON.stringify(prayer)}\n{`, "jsonl", { origin: "bad.jsonl" })).toEqual({
+      documents: [],
+      errors: [{ index: 0, origin: "bad.jsonl", message: "Invalid JSON on line 2" }]
+    });
+  });
+
+  it("takes Markdown fields from front matter and the rest into metadata", () => {
+    const { documents, errors } = parseDocuments(
+      "---\nsource: Second Vatican Council\ncategory: Council Documents\nyear: 1965\n---\n# Dei Verbum\n\n1. Hearing the word of God.",
+      "markdown",
+      { origin: "docs/dei-verbum.md" }
+    );
+
+    expect(errors).toEqual([]);
+    expect(documents).toEqual([{
+      title: "Dei Verbum",
+      content: "# Dei Verbum\n\n1. Hearing the word of God.",
+      source: "Second Vatican Council",
+      category: "Council Documents",
+      metadata: { year: 1965 }
+    }]);
+  });
+
+  it("titles plain text after its file and fills missing fields from the defaults", () => {
+    const { documents } = parseDocuments("# Not a heading here\nSome text", "text", {
+      origin: "notes/on-grace.txt",
+      defaults: { source: "Notes", category: "Theology" }
+    });
+
+    expect(documents).toEqual([
+      { title: "on-grace", content: "# Not a heading here\nSome text", source: "Notes", category: "Theology" }
+    ]);
+  });
+});
+
+describe("validateDocuments", () => {
+  it("reports each invalid document by its position", () => {
+    const { documents, errors } = validateDocuments([prayer, { ...prayer, title: 3, source: undefined }, "text"], {
+      origin: "upload"
+    });
+
+    expect(documents).toEqual([prayer]);
+    expect(errors.map(error => [error.index, error.origin])).toEqual([[1, "upload"], [2, "upload"]]);
+    expect(errors[0].message).toMatch(/^title: .*; source: /);
+    expect(errors[1].message).toMatch(/^document: /);
+  });
+});
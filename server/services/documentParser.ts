@@ -0,0 +1,366 @@
+import path from "path";
+import { insertDocumentSchema } from "@shared/schema";
+import { ExplicitInsertDocument as InsertDocument } from "../types";
+import { bookName } from "./scriptureReference";
+import type { BibleText } from "./scripture";
+import { CCC_LAST_PARAGRAPH } from "./catechism";
+import type { CatechismParagraphText } from "../corpus/catechism";
+
+export type DocumentFormat = "json" | "jsonl" | "markdown" | "text";
+
+export interface ParsedDocuments {
+  documents: InsertDocument[];
+  errors: DocumentValidationError[];
+}
+
+export interface DocumentValidationError {
+  // Position of the document within the input, starting at 0
+  index: number;
+  // File name or other label for where the document came from
+  origin?: string;
+  message: string;
+}
+
+// Keys that map onto document columns; every other front-matter key goes into metadata
+const DOCUMENT_FIELDS = ["title", "source", "category"];
+
+/**
+ * Work out the format of an upload from its file name or content type
+ */
+export function detectFormat(nameOrContentType: string): DocumentFormat | undefined {
+  const value = nameOrContentType.toLowerCase();
+
+  if (value.includes("ndjson") || value.includes("jsonl") || value.endsWith(".jsonl")) return "jsonl";
+  if (value.includes("json")) return "json";
+  if (value.includes("markdown") || value.endsWith(".md") || value.endsWith(".markdown")) return "markdown";
+  if (value.startsWith("text/") || value.endsWith(".txt")) return "text";
+
+  return undefined;
+}
+
+/**
+ * Parse raw file contents into validated documents.
+ * `defaults` fill in fields missing from the file (e.g. a category given on the command line).
+ */
+export function parseDocuments(
+  raw: string,
+  format: DocumentFormat,
+  options: { origin?: string; defaults?: Partial<InsertDocument> } = {}
+): ParsedDocuments {
+  let candidates: unknown[];
+
+  try {
+    candidates = readCandidates(raw, format, options.origin);
+  } catch (error) {
+    return {
+      documents: [],
+      errors: [{
+        index: 0,
+        origin: options.origin,
+        message: error instanceof Error ? error.message : String(error)
+      }]
+    };
+  }
+
+  return validateDocuments(candidates, options);
+}
+
+/**
+ * Validate already-parsed objects (e.g. a JSON request body) against insertDocumentSchema
+ */
+export function validateDocuments(
+  candidates: unknown[],
+  options: { origin?: string; defaults?: Partial<InsertDocument> } = {}
+): ParsedDocuments {
+  const documents: InsertDocument[] = [];
+  const errors: DocumentValidationError[] = [];
+
+  candidates.forEach((candidate, index) => {
+    const merged = typeof candidate === "object" && candidate !== null
+      ? { ...options.defaults, ...candidate }
+      : candidate;
+    const result = insertDocumentSchema.safeParse(merged);
+
+    if (result.success) {
+      documents.push(result.data as InsertDocument);
+    } else {
+      errors.push({
+        index,
+        origin: options.origin,
+        message: result.error.errors
+          .map(issue => `${issue.path.join(".") || "document"}: ${issue.message}`)
+          .join("; ")
+      });
+    }
+  });
+
+  return { documents, errors };
+}
+
+/**
+ * Turn a Bible in the SCRIPTURE_PATH shape, `{ "John": { "3": { "16": "For God so loved..." } } }`,
+ * into one Scripture document per chapter, whose verses the Scripture lookup then quotes
+ */
+export function parseBible(raw: string, translation: string, options: { origin?: string } = {}): ParsedDocuments {
+  const errors: DocumentValidationError[] = [];
+  const candidates: unknown[] = [];
+  let bible: BibleText;
+
+  try {
+    bible = JSON.parse(raw);
+    if (typeof bible !== "object" || bible === null || Array.isArray(bible)) {
+      throw new Error("Expected an object of books, chapters and verses");
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { documents: [], errors: [{ index: 0, origin: options.origin, message }] };
+  }
+
+  const byNumber = ([a]: [string, unknown], [b]: [string, unknown]) => Number(a) - Number(b);
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  const reject = (message: string) => errors.push({ index: candidates.length, origin: options.origin, message });
+
+  for (const [name, chapters] of Object.entries(bible)) {
+    const book = bookName(name);
+    if (!book) {
+      reject(`Unknown book "${name}"`);
+      continue;
+    }
+    if (!isObject(chapters)) {
+      reject(`${name}: expected an object of chapters`);
+      continue;
+    }
+
+    for (const [chapter, verses] of Object.entries(chapters).sort(byNumber)) {
+      if (!/^\d+$/.test(chapter) || !isObject(verses)) {
+        reject(`${name} ${chapter}: expected a numbered chapter with an object of verses`);
+        continue;
+      }
+      const invalid = Object.entries(verses).find(([verse, text]) => !/^\d+$/.test(verse) || typeof text !== "string");
+      if (invalid) {
+        reject(`${name} ${chapter}:${invalid[0]}: expected a numbered verse with its text`);
+        continue;
+      }
+
+      candidates.push({
+        title: `${book} ${chapter}`,
+        content: Object.entries(verses)
+          .sort(byNumber)
+          .map(([verse, text]) => `${chapter}:${verse} ${text}`)
+          .join("\n"),
+        source: `${translation} Bible`,
+        category: "Scripture",
+        metadata: { book, chapter: Number(chapter), translation }
+      });
+    }
+  }
+
+  const validated = validateDocuments(candidates, options);
+  return { documents: validated.documents, errors: [...errors, ...validated.errors] };
+}
+
+/**
+ * Turn Catechism paragraphs in the CATECHISM_PATH shape (see server/corpus/catechism.ts) into
+ * Catechism documents, whose paragraphs the Catechism lookup then quotes
+ */
+export function parseCatechism(raw: string, options: { origin?: string } = {}): ParsedDocuments {
+  const errors: DocumentValidationError[] = [];
+  let paragraphs: unknown;
+
+  try {
+    paragraphs = JSON.parse(raw);
+    if (!Array.isArray(paragraphs)) {
+      throw new Error("Expected an array of paragraphs");
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { documents: [], errors: [{ index: 0, origin: options.origin, message }] };
+  }
+
+  const valid = paragraphs.filter((paragraph, index): paragraph is CatechismParagraphText => {
+    const problem = catechismParagraphProblem(paragraph);
+    if (problem) {
+      errors.push({ index, origin: options.origin, message: problem });
+    }
+    return !problem;
+  });
+
+  const validated = validateDocuments(catechismDocuments(valid), options);
+  return { documents: validated.documents, errors: [...errors, ...validated.errors] };
+}
+
+/**
+ * One Catechism document per run of consecutive paragraphs in the same part, section, chapter
+ * and article: "1730 God created man..." paragraphs, with their place in the metadata and
+ * their footnotes in `metadata.footnotes` by paragraph number
+ */
+export function catechismDocuments(paragraphs: CatechismParagraphText[]): InsertDocument[] {
+  const division = (paragraph: CatechismParagraphText) =>
+    JSON.stringify([paragraph.part, paragraph.section, paragraph.chapter, paragraph.article]);
+  const groups: CatechismParagraphText[][] = [];
+
+  for (const paragraph of [...paragraphs].sort((a, b) => a.number - b.number)) {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+
+    if (previous && previous.number + 1 === paragraph.number && division(previous) === division(paragraph)) {
+      group.push(paragraph);
+    } else {
+      groups.push([paragraph]);
+    }
+  }
+
+  return groups.map(group => {
+    const { part, section, chapter, article } = group[0];
+    const numbers = group.map(paragraph => paragraph.number);
+    const paragraphRange = numbers.length === 1 ? `${numbers[0]}` : `${numbers[0]}-${numbers[numbers.length - 1]}`;
+    const footnotes = Object.fromEntries(
+      group.filter(paragraph => paragraph.footnotes?.length).map(paragraph => [paragraph.number, paragraph.footnotes])
+    );
+
+    return {
+      title: `Catechism of the Catholic Church ${paragraphRange}: ${article ?? chapter ?? section ?? part}`,
+      // One paragraph per line, so a line break inside a paragraph can't start another
+      content: group.map(paragraph => `${paragraph.number} ${paragraph.text.replace(/\s+/g, " ").trim()}`).join("\n\n"),
+      source: "Catechism of the Catholic Church",
+      category: "Catechism",
+      metadata: {
+        part,
+        ...(section && { section }),
+        ...(chapter && { chapter }),
+        ...(article && { article }),
+        paragraphs: paragraphRange,
+        ...(Object.keys(footnotes).length > 0 && { footnotes })
+      }
+    } as InsertDocument;
+  });
+}
+
+function catechismParagraphProblem(paragraph: unknown): string | undefined {
+  if (typeof paragraph !== "object" || paragraph === null) return "Expected a paragraph object";
+
+  const { number, text, part, footnotes } = paragraph as Record<string, unknown>;
+  if (typeof number !== "number" || !Number.isInteger(number) || number < 1 || number > CCC_LAST_PARAGRAPH) {
+    return `Invalid paragraph number ${JSON.stringify(number)}`;
+  }
+  if (typeof text !== "string" || !text.trim()) return `Paragraph ${number} has no text`;
+  if (typeof part !== "string" || !part.trim()) return `Paragraph ${number} has no part`;
+  if (footnotes !== undefined && !(Array.isArray(footnotes) && footnotes.every(note => typeof note === "string"))) {
+    return `Paragraph ${number} has invalid footnotes`;
+  }
+
+  return undefined;
+}
+
+function readCandidates(raw: string, format: DocumentFormat, origin?: string): unknown[] {
+  switch (format) {
+    case "json": {
+      const data = JSON.parse(raw);
+      if (Array.isArray(data)) return data;
+      if (Array.isArray(data?.documents)) return data.documents;
+      return [data];
+    }
+
+    case "jsonl":
+      return raw
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .map((line, i) => {
+          try {
+            return JSON.parse(line);
+          } catch {
+            throw new Error(`Invalid JSON on line ${i + 1}`);
+          }
+        });
+
+    case "markdown":
+    case "text":
+      return [readTextDocument(raw, format, origin)];
+  }
+}
+
+/**
+ * Build a document from a Markdown or plain-text file with optional front matter.
+ * The title falls back to the first Markdown heading, then to the file name.
+ */
+function readTextDocument(raw: string, format: DocumentFormat, origin?: string): Record<string, unknown> {
+  const { attributes, body } = parseFrontMatter(raw);
+  const document: Record<string, unknown> = {};
+  const metadata: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(attributes)) {
+    if (DOCUMENT_FIELDS.includes(key)) {
+      document[key] = String(value);
+    } else {
+      metadata[key] = value;
+    }
+  }
+
+  const content = body.trim();
+
+  if (!document.title && format === "markdown") {
+    const heading = content.match(/^#\s+(.+)$/m);
+    if (heading) {
+      document.title = heading[1].trim();
+    }
+  }
+
+  if (!document.title && origin) {
+    document.title = path.basename(origin, path.extname(origin));
+  }
+
+  document.content = content;
+  if (Object.keys(metadata).length > 0) {
+    document.metadata = metadata;
+  }
+
+  return document;
+}
+
+/**
+ * Split a leading "---" delimited block of `key: value` lines from the body.
+ * Values are read as numbers, booleans, [comma, separated] lists or strings.
+ */
+export function parseFrontMatter(raw: string): { attributes: Record<string, unknown>; body: string } {
+  const match = raw.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { attributes: {}, body: raw };
+  }
+
+  const attributes: Record<string, unknown> = {};
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+
+    const separator = trimmed.indexOf(":");
+    if (separator === -1) {
+      throw new Error(`Invalid front matter line: "${trimmed}"`);
+    }
+
+    const key = trimmed.slice(0, separator).trim();
+    attributes[key] = parseScalar(trimmed.slice(separator + 1).trim());
+  }
+
+  return { attributes, body: raw.slice(match[0].length) };
+}
+
+function parseScalar(value: string): unknown {
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value
+      .slice(1, -1)
+      .split(",")
+      .map(item => item.trim())
+      .filter(item => item.length > 0)
+      .map(parseScalar);
+  }
+
+  if (/^(["']).*\1$/.test(value)) return value.slice(1, -1);
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+
+  return value;
+}
@@ -0,0 +1,64 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EmbeddingIndex } from "./embeddingIndex";
+
+describe("EmbeddingIndex", () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "embedding-index-"));
+    filePath = path.join(directory, "embeddings.json");
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it("persists vectors for the provider that wrote them", async () => {
+    const index = new EmbeddingIndex(filePath);
+    await index.load("test", 2);
+    index.set("a", [1, 0]);
+    await index.save("test", 2);
+
+    const reloaded = new EmbeddingIndex(filePath);
+    await reloaded.load("test", 2);
+    expect(reloaded.get("a")).toEqual([1, 0]);
+
+    await reloaded.load("other", 2);
+    expect(reloaded.size).toBe(0);
+  });
+
+  it("keeps every vector when saves overlap", async () => {
+    const index = new EmbeddingIndex(filePath);
+    await index.load("test", 2);
+
+    const saves: Promise<void>[] = [];
+    for (let i = 0; i < 20; i++) {
+      index.set(`hash-${i}`, [i, i]);
+      saves.push(index.save("test", 2));
+    }
+    await Promise.all(saves);
+
+    const reloaded = new EmbeddingIndex(filePath);
+    await reloaded.load("test", 2);
+    expect(reloaded.size).toBe(20);
+    expect(fs.readdirSync(directory)).toEqual(["embeddings.json"]);
+  });
+
+  it("prunes vectors that are no longer used", async () => {
+    const index = new EmbeddingIndex(filePath);
+    await index.load("test", 2);
+    index.set("kept", [1, 0]);
+    index.set("stale", [0, 1]);
+    index.retain(new Set(["kept"]));
+    await index.save("test", 2);
+
+    const reloaded = new EmbeddingIndex(filePath);
+    await reloaded.load("test", 2);
+    expect(reloaded.get("kept")).toEqual([1, 0]);
+    expect(reloaded.get("stale")).toBeUndefined();
+  });
+});
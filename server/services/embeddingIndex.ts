@@ -0,0 +1,123 @@
+import fs from "fs";
+import path from "path";
+
+interface EmbeddingIndexFile {
+  provider: string;
+  dimensions: number;
+  vectors: Record<string, number[]>;
+}
+
+/**
+ * On-disk cache of document embeddings keyed by content hash.
+ * Unchanged documents are not re-embedded across restarts; the whole file is
+ * discarded when it was written by a different embedding provider.
+ */
+export class EmbeddingIndex {
+  private filePath: string;
+  private vectors: Map<string, number[]> = new Map();
+  private dirty = false;
+  // The last save, so saves run one at a time and never write the file concurrently
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load persisted vectors written by the given provider, if any
+   */
+  async load(provider: string, dimensions: number): Promise<void> {
+    this.vectors.clear();
+    this.dirty = false;
+
+    try {
+      const raw = await fs.promises.readFile(this.filePath, "utf-8");
+      const data: EmbeddingIndexFile = JSON.parse(raw);
+
+      if (data.provider !== provider || data.dimensions !== dimensions) {
+        console.log(`[EmbeddingIndex] Ignoring index built with ${data.provider}; re-embedding with ${provider}`);
+        this.dirty = true;
+        return;
+      }
+
+      for (const [hash, vector] of Object.entries(data.vectors)) {
+        this.vectors.set(hash, vector);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("[EmbeddingIndex] Failed to read index, rebuilding:", error);
+      }
+      this.dirty = true;
+    }
+  }
+
+  get(hash: string): number[] | undefined {
+    return this.vectors.get(hash);
+  }
+
+  set(hash: string, vector: number[]): void {
+    this.vectors.set(hash, vector);
+    this.dirty = true;
+  }
+
+  delete(hash: string): void {
+    if (this.vectors.delete(hash)) {
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Drop every vector whose hash isn't in `hashes`, e.g. those of deleted or edited documents
+   */
+  retain(hashes: Set<string>): void {
+    for (const hash of Array.from(this.vectors.keys())) {
+      if (!hashes.has(hash)) {
+        this.delete(hash);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  /**
+   * Write the index back to disk if anything changed since it was last saved.
+   * Saves are queued behind each other, so overlapping calls can't interleave their writes.
+   */
+  save(provider: string, dimensions: number): Promise<void> {
+    const save = this.pendingSave.then(() => this.write(provider, dimensions));
+    // A failed save is reported to its caller and mustn't block the ones queued after it
+    this.pendingSave = save.catch(() => {});
+    return save;
+  }
+
+  private async write(provider: string, dimensions: number): Promise<void> {
+    if (!this.dirty) return;
+
+    // Vectors set while the file is being written mark the index dirty again
+    this.dirty = false;
+    const data: EmbeddingIndexFile = {
+      provider,
+      dimensions,
+      vectors: Object.fromEntries(this.vectors),
+    };
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write to a temp file first so a crash never leaves a truncated index behind; the
+      // process id keeps two servers sharing the file from writing the same temp file
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(data));
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (error) {
+      this.dirty = true;
+      throw error;
+    }
+  }
+}
+
+// Export a singleton instance
+export const embeddingIndex = new EmbeddingIndex(
+  process.env.EMBEDDING_INDEX_PATH || path.resolve(process.cwd(), "data", "embeddings.json")
+);
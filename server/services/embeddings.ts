@@ -0,0 +1,128 @@
+import { createHash } from "crypto";
+import { splitWords, stem, STOPWORDS } from "./textAnalysis";
+import { LRUCache } from "./cache";
+
+/**
+ * Turns text into fixed-length vectors for similarity search.
+ * `name` identifies the model so persisted vectors from another model are never mixed in.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+}
+
+/**
+ * Deterministic, offline embeddings using the hashing trick.
+ * Words and character trigrams are hashed into a fixed number of buckets, so the
+ * same text always produces the same vector and no model download is needed.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+
+  // Trigrams let related word forms ("pray", "prayer", "prayers") share some buckets
+  private readonly TRIGRAM_WEIGHT = 0.5;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+    this.name = `hashing-v2-${dimensions}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    // Stopwords would otherwise dominate short queries and make unrelated texts look similar
+    const words = splitWords(text).filter(word => word.length > 1 && !STOPWORDS.has(word));
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${stem(word)}`, 1);
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, this.TRIGRAM_WEIGHT);
+      }
+    }
+
+    // L2-normalize so cosine similarity reduces to a dot product
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const bucket = hash % this.dimensions;
+    // Use an independent bit for the sign so collisions tend to cancel out
+    const sign = (fnv1a(`s:${feature}`) & 1) === 0 ? 1 : -1;
+    vector[bucket] += sign * weight;
+  }
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Wraps a provider with an in-memory cache keyed by model name and content hash,
+ * so repeated queries and unchanged passages aren't embedded again
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  private provider: EmbeddingProvider;
+  private cache: LRUCache<string, number[]>;
+
+  constructor(provider: EmbeddingProvider, cache: LRUCache<string, number[]>) {
+    this.provider = provider;
+    this.cache = cache;
+    this.name = provider.name;
+    this.dimensions = provider.dimensions;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const key = `${this.name}:${contentHash(text)}`;
+
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const vector = await this.provider.embed(text);
+    this.cache.set(key, vector);
+    return vector;
+  }
+}
+
+/**
+ * Stable hash of the text that gets embedded, used to detect changed documents
+ */
+export function contentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Select the embedding provider from the EMBEDDING_PROVIDER environment variable
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const provider = process.env.EMBEDDING_PROVIDER || "hashing";
+  const dimensions = process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS) : 512;
+
+  switch (provider) {
+    case "hashing":
+      return new HashingEmbeddingProvider(dimensions);
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}"`);
+  }
+}
+
+// Shared embedding cache, sized by EMBEDDING_CACHE_SIZE and EMBEDDING_CACHE_TTL_MS (default one day)
+export const embeddingCache = new LRUCache<string, number[]>({
+  maxSize: process.env.EMBEDDING_CACHE_SIZE ? parseInt(process.env.EMBEDDING_CACHE_SIZE) : 500,
+  ttlMs: process.env.EMBEDDING_CACHE_TTL_MS ? parseInt(process.env.EMBEDDING_CACHE_TTL_MS) : 24 * 60 * 60 * 1000
+});
+
+// Export a singleton instance
+export const embeddingProvider: EmbeddingProvider = new CachedEmbeddingProvider(createEmbeddingProvider(), embeddingCache);
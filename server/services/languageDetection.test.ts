@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { detectLanguage } from "./languageDetection";
+
+describe("detectLanguage", () => {
+  it.each([
+    ["What does the Church teach about purgatory?", "en"],
+    ["¿Qué enseña la Iglesia sobre el purgatorio?", "es"],
+    ["O que a Igreja ensina sobre o purgatório?", "pt"],
+    ["Czego Kościół naucza o czyśćcu?", "pl"],
+    ["Giáo hội dạy gì về luyện ngục?", "vi"],
+    ["Ano ang itinuturo ng Simbahan tungkol sa purgatoryo?", "tl"]
+  ])("reads %s as %s", (text, language) => {
+    expect(detectLanguage(text)).toMatchObject({ language, detected: true });
+  });
+
+  it("falls back to the hint when there is too little to go on", () => {
+    expect(detectLanguage("CCC 1030", "es")).toEqual({ language: "es", confidence: 0, detected: false });
+    expect(detectLanguage("Amen!", "pt")).toMatchObject({ language: "pt", detected: false });
+  });
+
+  it("doesn't let a foreign name outweigh the words around it", () => {
+    expect(detectLanguage("Who was Saint Faustina of Łódź and what is the Divine Mercy?")).toMatchObject({
+      language: "en",
+      detected: true
+    });
+  });
+});
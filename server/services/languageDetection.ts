@@ -0,0 +1,133 @@
+import { LanguageCode } from "@shared/schema";
+
+/**
+ * Language detection for incoming questions. Questions are short, so rather than a
+ * statistical model this counts each language's most frequent words and the letters
+ * only its alphabet uses. That is reliable for the languages the app supports, which
+ * have distinctive function words, and too little evidence falls back to a hint
+ * (the user's interface language).
+ */
+
+// English names, used to tell the model which language to answer in
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese",
+  pl: "Polish",
+  vi: "Vietnamese",
+  tl: "Tagalog",
+};
+
+// Frequent words of each language, mostly function words and question words
+const COMMON_WORDS: Record<LanguageCode, string[]> = {
+  en: [
+    "the", "is", "are", "was", "were", "what", "why", "how", "who", "when", "where", "which",
+    "does", "do", "did", "of", "and", "to", "in", "an", "about", "it", "this", "that", "can",
+    "should", "would", "i", "you", "my", "we", "with", "for", "church", "god", "say", "mean"
+  ],
+  es: [
+    "el", "la", "los", "las", "de", "del", "que", "qué", "y", "en", "un", "una", "es", "por",
+    "para", "con", "no", "se", "su", "sus", "lo", "al", "como", "cómo", "cuál", "cuáles",
+    "quién", "porque", "dónde", "cuándo", "iglesia", "dios", "santo", "santa", "está", "son",
+    "hay", "pero", "más", "también", "yo", "mi", "me", "tú", "usted", "sobre", "ser", "fe",
+    "sí", "muy", "esto", "eso", "este", "esta", "dice", "significa"
+  ],
+  pt: [
+    "o", "a", "os", "as", "de", "do", "da", "dos", "das", "que", "e", "é", "em", "no", "na",
+    "nos", "nas", "um", "uma", "por", "para", "com", "não", "se", "seu", "sua", "como", "qual",
+    "quais", "quem", "porque", "onde", "quando", "igreja", "deus", "santo", "santa", "está",
+    "são", "há", "mas", "mais", "também", "eu", "meu", "minha", "você", "sobre", "ser", "fé",
+    "sim", "muito", "isso", "isto", "este", "esta", "ao", "pelo", "pela", "diz", "significa"
+  ],
+  pl: [
+    "i", "w", "z", "na", "się", "nie", "jest", "to", "że", "do", "co", "jak", "dlaczego",
+    "czy", "kto", "gdzie", "kiedy", "o", "od", "po", "dla", "przez", "ale", "tak", "kościół",
+    "kościoła", "bóg", "boga", "jezus", "święty", "ten", "ta", "jego", "jej", "mnie", "ja",
+    "ty", "być", "są", "był", "może", "oraz", "który", "która", "które", "jaki", "jaka",
+    "czym", "czego", "mówi", "znaczy"
+  ],
+  vi: [
+    "là", "và", "của", "có", "không", "gì", "tại", "sao", "thế", "nào", "người", "những",
+    "các", "một", "được", "cho", "với", "trong", "này", "đó", "tôi", "bạn", "chúa", "giáo",
+    "hội", "đức", "thánh", "làm", "như", "khi", "ai", "đâu", "vì", "để", "về", "ở", "thì",
+    "cũng", "đã", "sẽ", "rất", "nhiều", "nói", "nghĩa"
+  ],
+  tl: [
+    "ang", "ng", "mga", "sa", "ay", "na", "si", "ni", "ba", "po", "ako", "ikaw", "ka", "siya",
+    "kami", "tayo", "sila", "hindi", "oo", "ano", "bakit", "paano", "saan", "kailan", "sino",
+    "ito", "iyan", "iyon", "niya", "nila", "namin", "natin", "ko", "mo", "naman", "lang",
+    "din", "rin", "pa", "kung", "para", "dahil", "may", "mayroon", "diyos", "simbahan", "kay",
+    "nang", "kasi", "sinasabi", "ibig"
+  ],
+};
+
+// Letters that, among the supported languages, only one alphabet uses
+const DISTINCTIVE_LETTERS: Partial<Record<LanguageCode, RegExp>> = {
+  es: /[ñ¿¡]/g,
+  pt: /[ãõç]/g,
+  pl: /[ąęłńśźżć]/g,
+  // ơ, ư, đ, ă and the stacked tone marks of Latin Extended Additional
+  vi: /[ơưđăẠ-ỹ]/g,
+};
+
+// Most a language can score from its letters, so a name like "Łódź" can't outweigh the words
+const MAX_LETTER_SCORE = 3;
+// Below this score the detection is a guess
+const MIN_SCORE = 1.5;
+// Share of the total score the winning language needs
+const MIN_CONFIDENCE = 0.5;
+
+// Word -> the languages it is common in; words shared by several languages count for less
+const WORD_LANGUAGES = new Map<string, LanguageCode[]>();
+for (const [language, words] of Object.entries(COMMON_WORDS) as [LanguageCode, string[]][]) {
+  for (const word of words) {
+    WORD_LANGUAGES.set(word, [...(WORD_LANGUAGES.get(word) ?? []), language]);
+  }
+}
+
+export interface DetectedLanguage {
+  language: LanguageCode;
+  // Share of the evidence that pointed to `language`, from 0 to 1
+  confidence: number;
+  // False when there was too little evidence and `language` is the fallback
+  detected: boolean;
+}
+
+/**
+ * Detect the language of `text`, or return `fallback` when it is too short or too
+ * mixed to tell (e.g. "Thanks!" or a bare paragraph number)
+ */
+export function detectLanguage(text: string, fallback: LanguageCode = "en"): DetectedLanguage {
+  const lower = text.normalize("NFC").toLowerCase();
+  const scores = new Map<LanguageCode, number>();
+  const add = (language: LanguageCode, score: number) => {
+    scores.set(language, (scores.get(language) ?? 0) + score);
+  };
+
+  for (const word of lower.split(/[\s.,;:!?¿¡"'“”‘’()\[\]{}<>\/\\0-9–—-]+/)) {
+    const languages = WORD_LANGUAGES.get(word);
+    if (!languages) continue;
+
+    for (const language of languages) {
+      add(language, 1 / languages.length);
+    }
+  }
+
+  for (const [language, pattern] of Object.entries(DISTINCTIVE_LETTERS) as [LanguageCode, RegExp][]) {
+    const letters = lower.match(pattern)?.length ?? 0;
+    if (letters > 0) {
+      add(language, Math.min(letters, MAX_LETTER_SCORE));
+    }
+  }
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+  const [best, bestScore] = ranked[0] ?? [fallback, 0];
+  const confidence = total > 0 ? bestScore / total : 0;
+
+  if (bestScore < MIN_SCORE || confidence < MIN_CONFIDENCE) {
+    return { language: fallback, confidence, detected: false };
+  }
+
+  return { language: best, confidence, detected: true };
+}
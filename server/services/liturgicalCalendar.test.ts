@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { CalendarDateError, liturgicalDay, liturgicalYear } from "./liturgicalCalendar";
+
+describe("liturgicalYear", () => {
+  it.each([
+    [1583, "1583-04-10"],
+    [1818, "1818-03-22"],
+    [1943, "1943-04-25"],
+    [2000, "2000-04-23"],
+    [2024, "2024-03-31"],
+    [2025, "2025-04-20"],
+    [2038, "2038-04-25"],
+    [2285, "2285-03-22"]
+  ])("puts Easter %i on %s", (year, easter) => {
+    expect(liturgicalYear(year).easter).toBe(easter);
+  });
+
+  it("counts the key dates from Easter and Christmas", () => {
+    expect(liturgicalYear(2025)).toMatchObject({
+      ashWednesday: "2025-03-05",
+      pentecost: "2025-06-08",
+      firstSundayOfAdvent: "2025-11-30"
+    });
+    expect(liturgicalYear(2024).days).toHaveLength(366);
+  });
+
+  it("rejects years outside the Gregorian calendar's supported range", () => {
+    expect(() => liturgicalYear(1582)).toThrow(CalendarDateError);
+    expect(() => liturgicalYear(4100)).toThrow(CalendarDateError);
+  });
+});
+
+describe("liturgicalDay", () => {
+  // Dates checked against the General Roman Calendar and the Dicastery for Divine Worship's notices
+  it.each([
+    ["2024-04-08", "The Annunciation of the Lord", "solemnity"],
+    ["2008-03-31", "The Annunciation of the Lord", "solemnity"],
+    ["2008-03-15", "Saint Joseph, Spouse of the Blessed Virgin Mary", "solemnity"],
+    ["2008-03-19", "Wednesday of Holy Week", "weekday"],
+    ["2024-12-08", "Second Sunday of Advent", "sunday"],
+    ["2024-12-09", "The Immaculate Conception of the Blessed Virgin Mary", "solemnity"],
+    ["2022-06-23", "The Nativity of Saint John the Baptist", "solemnity"],
+    ["2022-06-24", "The Most Sacred Heart of Jesus", "solemnity"],
+    ["2024-01-07", "The Baptism of the Lord", "feast"],
+    ["2022-12-30", "The Holy Family of Jesus, Mary and Joseph", "feast"],
+    ["2025-11-02", "The Commemoration of All the Faithful Departed (All Souls)", "commemoration"],
+    ["2025-11-30", "First Sunday of Advent", "sunday"]
+  ])("keeps %s as %s", (date, name, rank) => {
+    expect(liturgicalDay(date).celebration).toMatchObject({ name, rank });
+  });
+
+  it.each([
+    ["2026-01-12", "ordinary", 1],
+    ["2025-06-09", "ordinary", 10],
+    ["2025-03-05", "lent", 0],
+    ["2025-12-24", "advent", 4],
+    ["2025-12-28", "christmas", null]
+  ])("puts %s in the %s season, week %s", (date, season, seasonWeek) => {
+    expect(liturgicalDay(date)).toMatchObject({ season, seasonWeek });
+  });
+
+  it("makes an obligatory memorial on a Lent weekday optional", () => {
+    // 2025-03-07 is the Friday after Ash Wednesday
+    expect(liturgicalDay("2025-03-07")).toMatchObject({
+      celebration: { name: "Friday after Ash Wednesday", rank: "weekday" },
+      optionalMemorials: [{ name: "Saints Perpetua and Felicity, Martyrs", rank: "optional memorial" }]
+    });
+  });
+
+  it("rejects invalid dates", () => {
+    expect(() => liturgicalDay("2025-02-30")).toThrow(CalendarDateError);
+    expect(() => liturgicalDay("25-12-2025")).toThrow(CalendarDateError);
+  });
+});
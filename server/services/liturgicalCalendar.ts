@@ -0,0 +1,582 @@
+/**
+ * The General Roman Calendar, computed for any year from 1583 (the first full year of the
+ * Gregorian calendar) to 4099: seasons and their weeks, moveable feasts from the date of
+ * Easter, the solemnities, feasts and obligatory memorials of the saints, liturgical colours,
+ * and the Sunday and weekday lectionary cycles.
+ *
+ * Which celebration a day keeps follows the Table of Liturgical Days in the Universal Norms
+ * on the Liturgical Year and the Calendar: an impeded solemnity moves to the next free day,
+ * an impeded feast is omitted, and a memorial on a privileged weekday (Lent, December 17-24,
+ * the Christmas octave) becomes optional. National calendars, transferred holy days of
+ * obligation and optional memorials are not included.
+ */
+
+export type LiturgicalSeason = "advent" | "christmas" | "ordinary" | "lent" | "triduum" | "easter";
+
+export type LiturgicalColour = "white" | "red" | "green" | "violet" | "rose";
+
+export type CelebrationRank =
+  | "triduum"
+  | "solemnity"
+  // All Souls, which has a solemnity's precedence but is a day of prayer for the dead, not a feast
+  | "commemoration"
+  | "sunday"
+  | "feast"
+  | "memorial"
+  | "optional memorial"
+  | "weekday";
+
+export interface Celebration {
+  name: string;
+  rank: CelebrationRank;
+  colour: LiturgicalColour;
+}
+
+export interface LiturgicalDay {
+  // YYYY-MM-DD
+  date: string;
+  weekday: string;
+  season: LiturgicalSeason;
+  // Advent 1-4; Lent 0 (Ash Wednesday to the Saturday after) to 6 (Holy Week); Easter 1-7;
+  // Ordinary Time 1-34; null in Christmas time and the Triduum
+  seasonWeek: number | null;
+  // What the day's Mass and Office are of
+  celebration: Celebration;
+  // Memorials that may still be kept, e.g. an obligatory memorial falling on a Lent weekday
+  optionalMemorials: Celebration[];
+  // Cycle of the Sunday readings and of the weekday first readings, which change with the
+  // liturgical year starting on the First Sunday of Advent
+  sundayCycle: "A" | "B" | "C";
+  weekdayCycle: "I" | "II";
+}
+
+export interface LiturgicalYear {
+  year: number;
+  easter: string;
+  ashWednesday: string;
+  pentecost: string;
+  // The First Sunday of Advent at the end of this year, which starts the next liturgical year
+  firstSundayOfAdvent: string;
+  days: LiturgicalDay[];
+}
+
+/**
+ * A date outside the supported years, or one that can't be read
+ */
+export class CalendarDateError extends Error {
+  readonly status = 400;
+  readonly code = "invalid_date";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarDateError";
+  }
+}
+
+export const FIRST_YEAR = 1583;
+export const LAST_YEAR = 4099;
+
+// A celebration competing for a day; the lowest precedence (the Table of Liturgical Days' number) wins
+interface Candidate {
+  celebration: Celebration;
+  precedence: number;
+}
+
+// Fixed celebrations of the General Roman Calendar, by month and day: [name, rank, colour, precedence]
+type FixedCelebration = [string, CelebrationRank, LiturgicalColour, number];
+
+const FIXED_CELEBRATIONS: Record<string, FixedCelebration> = {
+  "01-01": ["Mary, the Holy Mother of God", "solemnity", "white", 3],
+  "01-02": ["Saints Basil the Great and Gregory Nazianzen, Bishops and Doctors", "memorial", "white", 10],
+  "01-06": ["The Epiphany of the Lord", "solemnity", "white", 2],
+  "01-17": ["Saint Anthony, Abbot", "memorial", "white", 10],
+  "01-21": ["Saint Agnes, Virgin and Martyr", "memorial", "red", 10],
+  "01-24": ["Saint Francis de Sales, Bishop and Doctor", "memorial", "white", 10],
+  "01-25": ["The Conversion of Saint Paul the Apostle", "feast", "white", 7],
+  "01-26": ["Saints Timothy and Titus, Bishops", "memorial", "white", 10],
+  "01-28": ["Saint Thomas Aquinas, Priest and Doctor", "memorial", "white", 10],
+  "01-31": ["Saint John Bosco, Priest", "memorial", "white", 10],
+  "02-02": ["The Presentation of the Lord", "feast", "white", 5],
+  "02-05": ["Saint Agatha, Virgin and Martyr", "memorial", "red", 10],
+  "02-06": ["Saint Paul Miki and Companions, Martyrs", "memorial", "red", 10],
+  "02-10": ["Saint Scholastica, Virgin", "memorial", "white", 10],
+  "02-14": ["Saints Cyril, Monk, and Methodius, Bishop", "memorial", "white", 10],
+  "02-22": ["The Chair of Saint Peter the Apostle", "feast", "white", 7],
+  "02-23": ["Saint Polycarp, Bishop and Martyr", "memorial", "red", 10],
+  "03-07": ["Saints Perpetua and Felicity, Martyrs", "memorial", "red", 10],
+  "03-19": ["Saint Joseph, Spouse of the Blessed Virgin Mary", "solemnity", "white", 3],
+  "03-25": ["The Annunciation of the Lord", "solemnity", "white", 3],
+  "04-07": ["Saint John Baptist de la Salle, Priest", "memorial", "white", 10],
+  "04-11": ["Saint Stanislaus, Bishop and Martyr", "memorial", "red", 10],
+  "04-25": ["Saint Mark, Evangelist", "feast", "red", 7],
+  "04-29": ["Saint Catherine of Siena, Virgin and Doctor", "memorial", "white", 10],
+  "05-02": ["Saint Athanasius, Bishop and Doctor", "memorial", "white", 10],
+  "05-03": ["Saints Philip and James, Apostles", "feast", "red", 7],
+  "05-14": ["Saint Matthias, Apostle", "feast", "red", 7],
+  "05-26": ["Saint Philip Neri, Priest", "memorial", "white", 10],
+  "05-31": ["The Visitation of the Blessed Virgin Mary", "feast", "white", 7],
+  "06-01": ["Saint Justin, Martyr", "memorial", "red", 10],
+  "06-03": ["Saints Charles Lwanga and Companions, Martyrs", "memorial", "red", 10],
+  "06-05": ["Saint Boniface, Bishop and Martyr", "memorial", "red", 10],
+  "06-11": ["Saint Barnabas, Apostle", "memorial", "red", 10],
+  "06-13": ["Saint Anthony of Padua, Priest and Doctor", "memorial", "white", 10],
+  "06-21": ["Saint Aloysius Gonzaga, Religious", "memorial", "white", 10],
+  "06-24": ["The Nativity of Saint John the Baptist", "solemnity", "white", 3],
+  "06-28": ["Saint Irenaeus, Bishop, Martyr and Doctor", "memorial", "red", 10],
+  "06-29": ["Saints Peter and Paul, Apostles", "solemnity", "red", 3],
+  "07-03": ["Saint Thomas, Apostle", "feast", "red", 7],
+  "07-11": ["Saint Benedict, Abbot", "memorial", "white", 10],
+  "07-15": ["Saint Bonaventure, Bishop and Doctor", "memorial", "white", 10],
+  "07-22": ["Saint Mary Magdalene", "feast", "white", 7],
+  "07-25": ["Saint James, Apostle", "feast", "red", 7],
+  "07-26": ["Saints Joachim and Anne, Parents of the Blessed Virgin Mary", "memorial", "white", 10],
+  "07-29": ["Saints Martha, Mary and Lazarus", "memorial", "white", 10],
+  "07-31": ["Saint Ignatius of Loyola, Priest", "memorial", "white", 10],
+  "08-01": ["Saint Alphonsus Liguori, Bishop and Doctor", "memorial", "white", 10],
+  "08-04": ["Saint John Vianney, Priest", "memorial", "white", 10],
+  "08-06": ["The Transfiguration of the Lord", "feast", "white", 5],
+  "08-08": ["Saint Dominic, Priest", "memorial", "white", 10],
+  "08-10": ["Saint Lawrence, Deacon and Martyr", "feast", "red", 7],
+  "08-11": ["Saint Clare, Virgin", "memorial", "white", 10],
+  "08-14": ["Saint Maximilian Kolbe, Priest and Martyr", "memorial", "red", 10],
+  "08-15": ["The Assumption of the Blessed Virgin Mary", "solemnity", "white", 3],
+  "08-20": ["Saint Bernard, Abbot and Doctor", "memorial", "white", 10],
+  "08-21": ["Saint Pius X, Pope", "memorial", "white", 10],
+  "08-22": ["The Queenship of the Blessed Virgin Mary", "memorial", "white", 10],
+  "08-24": ["Saint Bartholomew, Apostle", "feast", "red", 7],
+  "08-27": ["Saint Monica", "memorial", "white", 10],
+  "08-28": ["Saint Augustine, Bishop and Doctor", "memorial", "white", 10],
+  "08-29": ["The Passion of Saint John the Baptist", "memorial", "red", 10],
+  "09-03": ["Saint Gregory the Great, Pope and Doctor", "memorial", "white", 10],
+  "09-08": ["The Nativity of the Blessed Virgin Mary", "feast", "white", 7],
+  "09-13": ["Saint John Chrysostom, Bishop and Doctor", "memorial", "white", 10],
+  "09-14": ["The Exaltation of the Holy Cross", "feast", "red", 5],
+  "09-15": ["Our Lady of Sorrows", "memorial", "white", 10],
+  "09-16": ["Saints Cornelius, Pope, and Cyprian, Bishop, Martyrs", "memorial", "red", 10],
+  "09-20": ["Saints Andrew Kim Tae-gon, Paul Chong Ha-sang and Companions, Martyrs", "memorial", "red", 10],
+  "09-21": ["Saint Matthew, Apostle and Evangelist", "feast", "red", 7],
+  "09-23": ["Saint Pius of Pietrelcina, Priest", "memorial", "white", 10],
+  "09-27": ["Saint Vincent de Paul, Priest", "memorial", "white", 10],
+  "09-29": ["Saints Michael, Gabriel and Raphael, Archangels", "feast", "white", 7],
+  "09-30": ["Saint Jerome, Priest and Doctor", "memorial", "white", 10],
+  "10-01": ["Saint Thérèse of the Child Jesus, Virgin and Doctor", "memorial", "white", 10],
+  "10-02": ["The Holy Guardian Angels", "memorial", "white", 10],
+  "10-04": ["Saint Francis of Assisi", "memorial", "white", 10],
+  "10-07": ["Our Lady of the Rosary", "memorial", "white", 10],
+  "10-15": ["Saint Teresa of Jesus, Virgin and Doctor", "memorial", "white", 10],
+  "10-17": ["Saint Ignatius of Antioch, Bishop and Martyr", "memorial", "red", 10],
+  "10-18": ["Saint Luke, Evangelist", "feast", "red", 7],
+  "10-28": ["Saints Simon and Jude, Apostles", "feast", "red", 7],
+  "11-01": ["All Saints", "solemnity", "white", 3],
+  // Ranked with the solemnities, so it is kept even on a Sunday
+  "11-02": ["The Commemoration of All the Faithful Departed (All Souls)", "commemoration", "violet", 3],
+  "11-04": ["Saint Charles Borromeo, Bishop", "memorial", "white", 10],
+  "11-09": ["The Dedication of the Lateran Basilica", "feast", "white", 5],
+  "11-10": ["Saint Leo the Great, Pope and Doctor", "memorial", "white", 10],
+  "11-11": ["Saint Martin of Tours, Bishop", "memorial", "white", 10],
+  "11-12": ["Saint Josaphat, Bishop and Martyr", "memorial", "red", 10],
+  "11-17": ["Saint Elizabeth of Hungary, Religious", "memorial", "white", 10],
+  "11-21": ["The Presentation of the Blessed Virgin Mary", "memorial", "white", 10],
+  "11-22": ["Saint Cecilia, Virgin and Martyr", "memorial", "red", 10],
+  "11-24": ["Saint Andrew Dung-Lac and Companions, Martyrs", "memorial", "red", 10],
+  "11-30": ["Saint Andrew, Apostle", "feast", "red", 7],
+  "12-03": ["Saint Francis Xavier, Priest", "memorial", "white", 10],
+  "12-07": ["Saint Ambrose, Bishop and Doctor", "memorial", "white", 10],
+  "12-08": ["The Immaculate Conception of the Blessed Virgin Mary", "solemnity", "white", 3],
+  "12-13": ["Saint Lucy, Virgin and Martyr", "memorial", "red", 10],
+  "12-14": ["Saint John of the Cross, Priest and Doctor", "memorial", "white", 10],
+  "12-25": ["The Nativity of the Lord (Christmas)", "solemnity", "white", 2],
+  "12-26": ["Saint Stephen, the First Martyr", "feast", "red", 7],
+  "12-27": ["Saint John, Apostle and Evangelist", "feast", "white", 7],
+  "12-28": ["The Holy Innocents, Martyrs", "feast", "red", 7],
+};
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"
+];
+
+const ORDINALS = [
+  "", "First", "Second", "Third", "Fourth", "Fifth", "Sixth", "Seventh", "Eighth", "Ninth", "Tenth",
+  "Eleventh", "Twelfth", "Thirteenth", "Fourteenth", "Fifteenth", "Sixteenth", "Seventeenth",
+  "Eighteenth", "Nineteenth", "Twentieth", "Twenty-first", "Twenty-second", "Twenty-third",
+  "Twenty-fourth", "Twenty-fifth", "Twenty-sixth", "Twenty-seventh", "Twenty-eighth",
+  "Twenty-ninth", "Thirtieth", "Thirty-first", "Thirty-second", "Thirty-third", "Thirty-fourth"
+];
+
+// Table numbers from which a day is free for a transferred solemnity
+const FIRST_FREE_PRECEDENCE = 9;
+
+const DAY_MS = 86400000;
+
+/**
+ * The liturgical day for a YYYY-MM-DD date.
+ * Throws CalendarDateError for an invalid date or one outside 1583-4099.
+ */
+export function liturgicalDay(date: string): LiturgicalDay {
+  const day = parseDate(date);
+  const year = new Date(day * DAY_MS).getUTCFullYear();
+  return computeYear(year).days[day - dayNumber(year, 1, 1)];
+}
+
+/**
+ * Every liturgical day of a calendar year, with the year's key dates.
+ * Throws CalendarDateError for a year outside 1583-4099.
+ */
+export function liturgicalYear(year: number): LiturgicalYear {
+  checkYear(year);
+  return computeYear(year);
+}
+
+/**
+ * Easter Sunday of a Gregorian year, as a day number (days since 1970-01-01),
+ * by the anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+ */
+export function easterDay(year: number): number {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const dayOfMonth = ((h + l - 7 * m + 114) % 31) + 1;
+  return dayNumber(year, month, dayOfMonth);
+}
+
+// The dates everything else in a year is counted from, as day numbers
+interface KeyDates {
+  easter: number;
+  ashWednesday: number;
+  pentecost: number;
+  baptismOfTheLord: number;
+  firstSundayOfAdvent: number;
+  christKing: number;
+}
+
+function keyDates(year: number): KeyDates {
+  const easter = easterDay(year);
+  // The Fourth Sunday of Advent is the last Sunday before Christmas, or Christmas Eve itself
+  const fourthSundayOfAdvent = sundayOnOrBefore(dayNumber(year, 12, 24));
+  // The Sunday after Epiphany (January 6)
+  const epiphany = dayNumber(year, 1, 6);
+  const baptismOfTheLord = epiphany + 7 - weekdayOf(epiphany);
+
+  return {
+    easter,
+    ashWednesday: easter - 46,
+    pentecost: easter + 49,
+    baptismOfTheLord,
+    firstSundayOfAdvent: fourthSundayOfAdvent - 21,
+    christKing: fourthSundayOfAdvent - 28
+  };
+}
+
+function computeYear(year: number): LiturgicalYear {
+  const keys = keyDates(year);
+  const first = dayNumber(year, 1, 1);
+  const last = dayNumber(year, 12, 31);
+
+  // The day of the Proper of Time (season, week and weekday) for every date
+  const temporal = new Map<number, { season: LiturgicalSeason; seasonWeek: number | null; base: Candidate }>();
+  for (let day = first; day <= last; day++) {
+    temporal.set(day, temporalDay(day, year, keys));
+  }
+
+  // Celebrations competing with them: moveable ones counted from Easter, Christmas or Advent, then fixed ones
+  const candidates = new Map<number, Candidate[]>();
+  const add = (day: number, candidate: Candidate) => {
+    candidates.set(day, [...(candidates.get(day) ?? []), candidate]);
+  };
+
+  for (const [day, candidate] of moveableCelebrations(year, keys)) {
+    add(day, candidate);
+  }
+  for (const [monthDay, [name, rank, colour, precedence]] of Object.entries(FIXED_CELEBRATIONS)) {
+    const [month, dayOfMonth] = monthDay.split("-").map(Number);
+    add(dayNumber(year, month, dayOfMonth), { celebration: { name, rank, colour }, precedence });
+  }
+
+  transferImpededSolemnities(candidates, temporal, keys, last);
+
+  const days: LiturgicalDay[] = [];
+  for (let day = first; day <= last; day++) {
+    const { season, seasonWeek, base } = temporal.get(day)!;
+    const { celebration, optionalMemorials } = resolveDay(base, candidates.get(day) ?? []);
+    const liturgicalYear = day >= keys.firstSundayOfAdvent ? year + 1 : year;
+
+    days.push({
+      date: isoDate(day),
+      weekday: WEEKDAYS[weekdayOf(day)],
+      season,
+      seasonWeek,
+      celebration,
+      optionalMemorials,
+      sundayCycle: (["C", "A", "B"] as const)[liturgicalYear % 3],
+      weekdayCycle: liturgicalYear % 2 === 1 ? "I" : "II"
+    });
+  }
+
+  return {
+    year,
+    easter: isoDate(keys.easter),
+    ashWednesday: isoDate(keys.ashWednesday),
+    pentecost: isoDate(keys.pentecost),
+    firstSundayOfAdvent: isoDate(keys.firstSundayOfAdvent),
+    days
+  };
+}
+
+// The season, week and Proper of Time celebration of a day
+function temporalDay(
+  day: number,
+  year: number,
+  keys: KeyDates
+): { season: LiturgicalSeason; seasonWeek: number | null; base: Candidate } {
+  const weekday = weekdayOf(day);
+  const weekdayName = WEEKDAYS[weekday];
+  const date = new Date(day * DAY_MS);
+  const month = date.getUTCMonth() + 1;
+  const dayOfMonth = date.getUTCDate();
+  const { easter, ashWednesday, pentecost, baptismOfTheLord, firstSundayOfAdvent } = keys;
+
+  const make = (name: string, rank: CelebrationRank, colour: LiturgicalColour, precedence: number) =>
+    ({ celebration: { name, rank, colour }, precedence });
+
+  // Christmas time, from Christmas to the Baptism of the Lord
+  if (month === 12 && dayOfMonth >= 25 || day <= baptismOfTheLord) {
+    let base: Candidate;
+    if (month === 12) {
+      base = weekday === 0
+        ? make("Sunday within the Octave of the Nativity of the Lord", "sunday", "white", 6)
+        : make(`${MONTHS[11]} ${dayOfMonth}, ${ORDINALS[dayOfMonth - 24]} Day within the Octave of the Nativity of the Lord`, "weekday", "white", 9);
+    } else if (weekday === 0) {
+      base = make("Second Sunday after the Nativity of the Lord", "sunday", "white", 6);
+    } else {
+      base = make(`Christmas Weekday (${MONTHS[0]} ${dayOfMonth})`, "weekday", "white", dayOfMonth === 1 ? 9 : 13);
+    }
+    return { season: "christmas", seasonWeek: null, base };
+  }
+
+  if (day >= firstSundayOfAdvent) {
+    const week = Math.floor((day - firstSundayOfAdvent) / 7) + 1;
+    const base = weekday === 0
+      ? make(`${ORDINALS[week]} Sunday of Advent`, "sunday", week === 3 ? "rose" : "violet", 2)
+      : month === 12 && dayOfMonth >= 17
+        ? make(`Advent Weekday (${MONTHS[11]} ${dayOfMonth})`, "weekday", "violet", 9)
+        : make(`${weekdayName} of the ${ORDINALS[week]} Week of Advent`, "weekday", "violet", 13);
+    return { season: "advent", seasonWeek: week, base };
+  }
+
+  if (day < ashWednesday) {
+    // The Baptism of the Lord counts as the First Sunday in Ordinary Time
+    const week = 1 + (sundayOnOrBefore(day) - baptismOfTheLord) / 7;
+    return { season: "ordinary", seasonWeek: week, base: ordinaryTimeDay(weekday, week) };
+  }
+
+  if (day < easter - 3) {
+    const firstSundayOfLent = ashWednesday + 4;
+    if (day < firstSundayOfLent) {
+      const base = day === ashWednesday
+        ? make("Ash Wednesday", "weekday", "violet", 2)
+        : make(`${weekdayName} after Ash Wednesday`, "weekday", "violet", 9);
+      return { season: "lent", seasonWeek: 0, base };
+    }
+
+    const week = Math.floor((day - firstSundayOfLent) / 7) + 1;
+    let base: Candidate;
+    if (week === 6) {
+      base = weekday === 0
+        ? make("Palm Sunday of the Passion of the Lord", "sunday", "red", 2)
+        : make(`${weekdayName} of Holy Week`, "weekday", "violet", 2);
+    } else {
+      base = weekday === 0
+        ? make(`${ORDINALS[week]} Sunday of Lent`, "sunday", week === 4 ? "rose" : "violet", 2)
+        : make(`${weekdayName} of the ${ORDINALS[week]} Week of Lent`, "weekday", "violet", 9);
+    }
+    return { season: "lent", seasonWeek: week, base };
+  }
+
+  if (day < easter) {
+    const base = [
+      make("Thursday of the Lord's Supper (Holy Thursday)", "triduum", "white", 1),
+      make("Friday of the Passion of the Lord (Good Friday)", "triduum", "red", 1),
+      make("Holy Saturday", "triduum", "violet", 1)
+    ][day - (easter - 3)];
+    return { season: "triduum", seasonWeek: null, base };
+  }
+
+  if (day <= pentecost) {
+    // Pentecost closes the seventh week
+    const week = Math.min(Math.floor((day - easter) / 7) + 1, 7);
+    let base: Candidate;
+    if (day === easter) {
+      base = make("Easter Sunday of the Resurrection of the Lord", "triduum", "white", 1);
+    } else if (day < easter + 7) {
+      base = make(`${weekdayName} within the Octave of Easter`, "solemnity", "white", 2);
+    } else if (day === easter + 7) {
+      base = make("Second Sunday of Easter (Sunday of Divine Mercy)", "sunday", "white", 2);
+    } else if (day === easter + 39) {
+      base = make("The Ascension of the Lord", "solemnity", "white", 2);
+    } else if (day === pentecost) {
+      base = make("Pentecost Sunday", "solemnity", "red", 2);
+    } else {
+      base = weekday === 0
+        ? make(`${ORDINALS[week]} Sunday of Easter`, "sunday", "white", 2)
+        : make(`${weekdayName} of the ${ORDINALS[week]} Week of Easter`, "weekday", "white", 13);
+    }
+    return { season: "easter", seasonWeek: week, base };
+  }
+
+  // After Pentecost the weeks are counted back from Christ the King, the Thirty-fourth Sunday
+  const week = 34 - (keys.christKing - sundayOnOrBefore(day)) / 7;
+  return { season: "ordinary", seasonWeek: week, base: ordinaryTimeDay(weekday, week) };
+}
+
+function ordinaryTimeDay(weekday: number, week: number): Candidate {
+  return weekday === 0
+    ? { celebration: { name: `${ORDINALS[week]} Sunday in Ordinary Time`, rank: "sunday", colour: "green" }, precedence: 6 }
+    : { celebration: { name: `${WEEKDAYS[weekday]} of the ${ORDINALS[week]} Week in Ordinary Time`, rank: "weekday", colour: "green" }, precedence: 13 };
+}
+
+// Celebrations whose date depends on Easter, Christmas or Advent
+function moveableCelebrations(year: number, keys: KeyDates): Array<[number, Candidate]> {
+  const { pentecost, baptismOfTheLord, christKing } = keys;
+  const celebration = (name: string, rank: CelebrationRank, colour: LiturgicalColour, precedence: number): Candidate =>
+    ({ celebration: { name, rank, colour }, precedence });
+
+  // The Sunday within the Christmas octave, or December 30 when Christmas is a Sunday
+  const christmas = dayNumber(year, 12, 25);
+  const holyFamily = weekdayOf(christmas) === 0 ? dayNumber(year, 12, 30) : christmas + 7 - weekdayOf(christmas);
+
+  const moveable: Array<[number, Candidate]> = [
+    [baptismOfTheLord, celebration("The Baptism of the Lord", "feast", "white", 5)],
+    [pentecost + 1, celebration("The Blessed Virgin Mary, Mother of the Church", "memorial", "white", 10)],
+    [pentecost + 7, celebration("The Most Holy Trinity", "solemnity", "white", 3)],
+    [pentecost + 11, celebration("The Most Holy Body and Blood of Christ (Corpus Christi)", "solemnity", "white", 3)],
+    [pentecost + 19, celebration("The Most Sacred Heart of Jesus", "solemnity", "white", 3)],
+    [pentecost + 20, celebration("The Immaculate Heart of the Blessed Virgin Mary", "memorial", "white", 10)],
+    [christKing, celebration("Our Lord Jesus Christ, King of the Universe", "solemnity", "white", 3)],
+    [holyFamily, celebration("The Holy Family of Jesus, Mary and Joseph", "feast", "white", 5)]
+  ];
+  return moveable;
+}
+
+/**
+ * Move solemnities that fall on a higher-ranking day (a Sunday of Advent, Lent or Easter,
+ * Holy Week, the Easter octave, or another solemnity) to the next day that is free.
+ * Saint Joseph is moved back to the Saturday before Palm Sunday when he falls in Holy Week.
+ * The Nativity of Saint John the Baptist is moved back to June 23 when that day is free, as
+ * the Dicastery for Divine Worship directed in 2022, when the Sacred Heart fell on June 24.
+ */
+function transferImpededSolemnities(
+  candidates: Map<number, Candidate[]>,
+  temporal: Map<number, { base: Candidate }>,
+  keys: KeyDates,
+  lastDay: number
+): void {
+  const days = Array.from(candidates.keys()).sort((a, b) => a - b);
+  const isFree = (day: number) =>
+    temporal.get(day)!.base.precedence >= FIRST_FREE_PRECEDENCE &&
+    !(candidates.get(day) ?? []).some(other => other.precedence <= 4);
+
+  for (const day of days) {
+    const here = candidates.get(day)!;
+    const base = temporal.get(day)!.base;
+
+    for (const candidate of [...here]) {
+      if (candidate.celebration.rank !== "solemnity" || candidate.precedence !== 3) continue;
+
+      // Earlier candidates win ties: moveable solemnities of the Lord come before fixed ones
+      const outranked = base.precedence < 3 ||
+        here.some(other => other !== candidate && other.precedence <= 3 && here.indexOf(other) < here.indexOf(candidate));
+      if (!outranked) continue;
+
+      let target: number;
+      if (candidate.celebration.name.startsWith("Saint Joseph") && day >= keys.easter - 7) {
+        target = keys.easter - 8;
+      } else if (candidate.celebration.name.startsWith("The Nativity of Saint John the Baptist") && isFree(day - 1)) {
+        target = day - 1;
+      } else {
+        target = day + 1;
+        while (target <= lastDay && !isFree(target)) {
+          target++;
+        }
+        // Nothing is free before the year ends; only possible in theory
+        if (target > lastDay) continue;
+      }
+
+      here.splice(here.indexOf(candidate), 1);
+      candidates.set(target, [...(candidates.get(target) ?? []), candidate]);
+    }
+  }
+}
+
+// The celebration a day keeps, and the memorials that become optional on it
+function resolveDay(base: Candidate, candidates: Candidate[]): { celebration: Celebration; optionalMemorials: Celebration[] } {
+  const all = [base, ...candidates];
+  const best = Math.min(...all.map(candidate => candidate.precedence));
+  const winners = all.filter(candidate => candidate.precedence === best);
+  const memorials = candidates.filter(candidate => candidate.celebration.rank === "memorial");
+  const asOptional = (candidate: Candidate): Celebration => ({ ...candidate.celebration, rank: "optional memorial" });
+
+  // Two obligatory memorials on one day are both optional
+  if (best === 10 && winners.length > 1) {
+    return { celebration: base.celebration, optionalMemorials: memorials.map(asOptional) };
+  }
+
+  const celebration = winners.includes(base) ? base.celebration : winners[0].celebration;
+
+  // On privileged weekdays (Lent, December 17-24, the Christmas octave) memorials may still be kept
+  const optionalMemorials = best === 9 && winners.includes(base) ? memorials.map(asOptional) : [];
+
+  return { celebration, optionalMemorials };
+}
+
+function parseDate(date: string): number {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    throw new CalendarDateError(`"${date}" is not a date in the form YYYY-MM-DD`);
+  }
+
+  const [year, month, dayOfMonth] = match.slice(1).map(Number);
+  checkYear(year);
+
+  const day = dayNumber(year, month, dayOfMonth);
+  if (isoDate(day) !== date) {
+    throw new CalendarDateError(`${date} is not a valid date`);
+  }
+  return day;
+}
+
+function checkYear(year: number): void {
+  if (!Number.isInteger(year) || year < FIRST_YEAR || year > LAST_YEAR) {
+    throw new CalendarDateError(`The calendar covers the years ${FIRST_YEAR} to ${LAST_YEAR}`);
+  }
+}
+
+// Days since 1970-01-01, so dates can be compared and counted without time zones
+function dayNumber(year: number, month: number, dayOfMonth: number): number {
+  return Date.UTC(year, month - 1, dayOfMonth) / DAY_MS;
+}
+
+function isoDate(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// 0 for Sunday
+function weekdayOf(day: number): number {
+  return new Date(day * DAY_MS).getUTCDay();
+}
+
+function sundayOnOrBefore(day: number): number {
+  return day - weekdayOf(day);
+}
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { OllamaProvider, OpenAICompatibleProvider } from "./llm";
+import { LLMResponseError } from "./llmErrors";
+import { lines, startFakeHttpServer, type FakeHttpServer } from "../testing/fakeHttpServer";
+
+let server: FakeHttpServer;
+
+beforeAll(async () => {
+  server = await startFakeHttpServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+  const deltas: string[] = [];
+  for await (const delta of stream) {
+    deltas.push(delta);
+  }
+  return deltas;
+}
+
+const question = [{ role: "user" as const, content: "What is grace?" }];
+const noRetries = { maxRetries: 0 };
+
+describe("OpenAICompatibleProvider.streamChatCompletion", () => {
+  const chunk = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+  it("yields each delta and skips keep-alive comments", async () => {
+    server.respond(lines(": keep-alive", chunk("Grace is "), "", ": keep-alive", chunk("a gift."), "data: [DONE]"));
+    const llm = new OpenAICompatibleProvider({ baseUrl: `${server.url}/v1`, model: "test", http: noRetries });
+
+    expect(await collect(llm.streamChatCompletion(question))).toEqual(["Grace is ", "a gift."]);
+  });
+
+  it("fails with an LLMResponseError on a chunk that isn't JSON", async () => {
+    server.respond(lines(chunk("Grace is "), "data: {\"choices\": [", "data: [DONE]"));
+    const llm = new OpenAICompatibleProvider({ baseUrl: `${server.url}/v1`, model: "test", http: noRetries });
+
+    await expect(collect(llm.streamChatCompletion(question))).rejects.toBeInstanceOf(LLMResponseError);
+  });
+});
+
+describe("OllamaProvider.streamChatCompletion", () => {
+  const chunk = (content: string, done = false) => JSON.stringify({ message: { role: "assistant", content }, done });
+
+  it("yields each delta until done", async () => {
+    server.respond(lines(chunk("Grace is "), chunk("a gift."), chunk("", true)));
+    const llm = new OllamaProvider({ baseUrl: server.url, model: "test", http: noRetries });
+
+    expect(await collect(llm.streamChatCompletion(question))).toEqual(["Grace is ", "a gift."]);
+  });
+
+  it("fails with an LLMResponseError on a line that isn't JSON", async () => {
+    server.respond(lines(chunk("Grace is "), "<html>Bad gateway</html>"));
+    const llm = new OllamaProvider({ baseUrl: server.url, model: "test", http: noRetries });
+
+    await expect(collect(llm.streamChatCompletion(question))).rejects.toMatchObject({
+      name: "LLMResponseError",
+      status: 502,
+      code: "llm_invalid_response"
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import { MessageWithRole } from "@shared/schema";
+import { LLMHttpClient, llmHttpOptionsFromEnv, readLines, type LLMHttpOptions } from "./llmHttp";
+import { LLMNotConfiguredError, LLMResponseError, LLMUnavailableError } from "./llmErrors";
+
+/**
+ * Generates chat completions. `name` identifies the backend and model in logs,
+ * e.g. "openai:llama-3.3-70b-versatile" or "ollama:llama3".
+ * Failures are thrown as LLMErrors (see llmErrors.ts).
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  /**
+   * Whether the provider can follow instructions. Optional LLM steps such as query
+   * rewriting are skipped when this is false.
+   */
+  isAvailable(): boolean;
+  getChatCompletion(messages: MessageWithRole[], temperature?: number, maxTokens?: number): Promise<string>;
+  /**
+   * Stream a chat completion, yielding content deltas as they arrive
+   */
+  streamChatCompletion(
+    messages: MessageWithRole[],
+    temperature?: number,
+    maxTokens?: number,
+    signal?: AbortSignal
+  ): AsyncGenerator<string>;
+  /**
+   * The same backend answering with another model (see models.ts for the ones on offer)
+   */
+  forModel(model: string): LLMProvider;
+}
+
+interface OpenAIChatCompletionResponse {
+  choices: {
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// A single server-sent chunk of a streamed chat completion
+interface OpenAIChatCompletionChunk {
+  choices: {
+    index: number;
+    delta: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason: string | null;
+  }[];
+}
+
+export interface OpenAICompatibleOptions {
+  // e.g. "https://api.groq.com/openai/v1" or "http://localhost:8080/v1" for llama.cpp
+  baseUrl: string;
+  model: string;
+  // Local servers such as llama.cpp usually need no key
+  apiKey?: string;
+  // Timeouts, retries and circuit breaker settings
+  http?: Partial<LLMHttpOptions>;
+  // Reuse another provider's client, so all models of one backend share a circuit breaker
+  client?: LLMHttpClient;
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API: Groq (the default), OpenAI,
+ * Together, vLLM, or a local llama.cpp server
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private http: LLMHttpClient;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.name = `openai:${options.model}`;
+    this.http = options.client ?? new LLMHttpClient(options.http);
+  }
+
+  forModel(model: string): LLMProvider {
+    if (model === this.model) return this;
+    return new OpenAICompatibleProvider({ baseUrl: this.baseUrl, model, apiKey: this.apiKey, client: this.http });
+  }
+
+  isAvailable(): boolean {
+    // Hosted APIs need a key; a local server is assumed to be running
+    return !!this.apiKey || !this.isHosted();
+  }
+
+  async getChatCompletion(
+    messages: MessageWithRole[],
+    temperature: number = 0.5,
+    maxTokens: number = 2048
+  ): Promise<string> {
+    const data = await this.http.postJson<OpenAIChatCompletionResponse>(
+      `${this.baseUrl}/chat/completions`,
+      this.requestBody(messages, temperature, maxTokens, false),
+      this.headers()
+    );
+    return data.choices[0].message.content;
+  }
+
+  async *streamChatCompletion(
+    messages: MessageWithRole[],
+    temperature: number = 0.5,
+    maxTokens: number = 2048,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    const body = await this.http.postStream(
+      `${this.baseUrl}/chat/completions`,
+      this.requestBody(messages, temperature, maxTokens, true),
+      this.headers(),
+      signal
+    );
+
+    // The body is a sequence of "data: {chunk}" lines terminated by "data: [DONE]"
+    for await (const line of readLines(body, this.http.timeoutMs)) {
+      if (!line.startsWith("data:")) continue;
+
+      const data = line.slice("data:".length).trim();
+      if (data === "[DONE]") return;
+
+      const chunk = parseChunk<OpenAIChatCompletionChunk>(data);
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  private requestBody(messages: MessageWithRole[], temperature: number, maxTokens: number, stream: boolean) {
+    return {
+      // Only role and content; the API rejects extra properties such as `sources`
+      messages: messages.map(msg => ({ role: msg.role, content: msg.content })),
+      model: this.model,
+      temperature,
+      max_tokens: maxTokens,
+      ...(stream ? { stream: true } : {})
+    };
+  }
+
+  private headers(): Record<string, string> {
+    if (!this.isAvailable()) {
+      throw new LLMNotConfiguredError("Cannot make API call: LLM_API_KEY (or GROQ_API_KEY) is not set");
+    }
+
+    return this.apiKey ? { "Authorization": `Bearer ${this.apiKey}` } : {};
+  }
+
+  private isHosted(): boolean {
+    const { hostname } = new URL(this.baseUrl);
+    return !["localhost", "127.0.0.1", "::1", "[::1]"].includes(hostname);
+  }
+}
+
+interface OllamaChatResponse {
+  message?: {
+    role: string;
+    content: string;
+  };
+  done: boolean;
+  error?: string;
+}
+
+/**
+ * A local Ollama server, using its native /api/chat endpoint
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private baseUrl: string;
+  private http: LLMHttpClient;
+
+  constructor(options: { baseUrl: string; model: string; http?: Partial<LLMHttpOptions>; client?: LLMHttpClient }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.model = options.model;
+    this.name = `ollama:${options.model}`;
+    this.http = options.client ?? new LLMHttpClient(options.http);
+  }
+
+  forModel(model: string): LLMProvider {
+    if (model === this.model) return this;
+    return new OllamaProvider({ baseUrl: this.baseUrl, model, client: this.http });
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async getChatCompletion(
+    messages: MessageWithRole[],
+    temperature: number = 0.5,
+    maxTokens: number = 2048
+  ): Promise<string> {
+    const data = await this.http.postJson<OllamaChatResponse>(
+      `${this.baseUrl}/api/chat`,
+      this.requestBody(messages, temperature, maxTokens, false)
+    );
+
+    if (data.error) {
+      throw new LLMUnavailableError(`Ollama error: ${data.error}`);
+    }
+    return data.message?.content ?? "";
+  }
+
+  async *streamChatCompletion(
+    messages: MessageWithRole[],
+    temperature: number = 0.5,
+    maxTokens: number = 2048,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    const body = await this.http.postStream(
+      `${this.baseUrl}/api/chat`,
+      this.requestBody(messages, temperature, maxTokens, true),
+      {},
+      signal
+    );
+
+    // The body is one JSON object per line, the last with `done: true`
+    for await (const line of readLines(body, this.http.timeoutMs)) {
+      if (!line) continue;
+
+      const chunk = parseChunk<OllamaChatResponse>(line);
+      if (chunk.error) {
+        throw new LLMUnavailableError(`Ollama error: ${chunk.error}`);
+      }
+      if (chunk.message?.content) {
+        yield chunk.message.content;
+      }
+      if (chunk.done) return;
+    }
+  }
+
+  private requestBody(messages: MessageWithRole[], temperature: number, maxTokens: number, stream: boolean) {
+    return {
+      model: this.model,
+      messages: messages.map(msg => ({ role: msg.role, content: msg.content })),
+      stream,
+      options: { temperature, num_predict: maxTokens }
+    };
+  }
+}
+
+/**
+ * Parse one streamed chunk; a line that isn't JSON means the stream is broken
+ */
+function parseChunk<T>(text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new LLMResponseError(`stream chunk is not JSON: ${text.slice(0, 100)}`);
+  }
+}
+
+// What the mock answers with: a fixed reply, or one computed from the request
+export type MockResponse = string | ((messages: MessageWithRole[]) => string);
+
+const PLACEHOLDER_RESPONSE = "This is a placeholder response. To get real responses, please set LLM_API_KEY " +
+  "(or GROQ_API_KEY) in your environment variables or .env file, or choose another LLM_PROVIDER.";
+
+/**
+ * Deterministic provider for tests and offline development. Scripted responses are
+ * returned in order (the last one repeats); each request is recorded in `calls`.
+ * Without a script it always returns a placeholder, and reports itself unavailable
+ * so optional LLM steps fall back to their non-LLM behaviour.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly model = "mock";
+  readonly calls: MessageWithRole[][] = [];
+  private responses: MockResponse[];
+
+  constructor(responses: MockResponse[] = []) {
+    this.responses = responses;
+  }
+
+  isAvailable(): boolean {
+    return this.responses.length > 0;
+  }
+
+  // The script answers whichever model is asked for
+  forModel(): LLMProvider {
+    return this;
+  }
+
+  async getChatCompletion(messages: MessageWithRole[]): Promise<string> {
+    return this.respond(messages);
+  }
+
+  async *streamChatCompletion(messages: MessageWithRole[]): AsyncGenerator<string> {
+    // Stream word by word, keeping the whitespace, so the deltas join back to the full response
+    for (const delta of this.respond(messages).match(/\S+\s*|\s+/g) || []) {
+      yield delta;
+    }
+  }
+
+  private respond(messages: MessageWithRole[]): string {
+    const index = Math.min(this.calls.length, this.responses.length - 1);
+    this.calls.push(messages);
+
+    const response = index >= 0 ? this.responses[index] : PLACEHOLDER_RESPONSE;
+    return typeof response === "function" ? response(messages) : response;
+  }
+}
+
+/**
+ * Select the LLM provider from the LLM_PROVIDER environment variable:
+ * "openai" (any OpenAI-compatible API, Groq by default), "ollama" or "mock"
+ */
+export function createLLMProvider(): LLMProvider {
+  const apiKey = process.env.LLM_API_KEY || process.env.GROQ_API_KEY;
+  const baseUrl = process.env.LLM_BASE_URL;
+
+  // Without any configuration, development falls back to the mock so the app still starts
+  const defaultProvider = !apiKey && !baseUrl && process.env.NODE_ENV === "development" ? "mock" : "openai";
+  const provider = process.env.LLM_PROVIDER || defaultProvider;
+  const http = llmHttpOptionsFromEnv();
+
+  switch (provider) {
+    case "openai":
+      if (!apiKey && !baseUrl) {
+        console.warn("WARNING: Neither LLM_API_KEY nor GROQ_API_KEY is set; chat completions will fail.");
+        console.warn("Please add your API key to your environment variables or .env file.");
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: baseUrl || "https://api.groq.com/openai/v1",
+        model: process.env.LLM_MODEL || "llama-3.3-70b-versatile",
+        apiKey,
+        http
+      });
+    case "ollama":
+      return new OllamaProvider({
+        baseUrl: baseUrl || "http://localhost:11434",
+        model: process.env.LLM_MODEL || "llama3",
+        http
+      });
+    case "mock":
+      console.warn("[LLM] Using the mock LLM provider, which returns placeholder responses");
+      return new MockLLMProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+}
+
+// Export a singleton instance
+export const llmProvider = createLLMProvider();
@@ -0,0 +1,125 @@
+/**
+ * Failures talking to the LLM. Each carries the HTTP status the API should answer with
+ * and a message that is safe to show users; the upstream error text stays in `message`
+ * for the logs.
+ */
+export abstract class LLMError extends Error {
+  abstract readonly status: number;
+  abstract readonly code: string;
+  abstract readonly userMessage: string;
+  // Whether the same request may succeed if tried again
+  readonly retryable: boolean = false;
+}
+
+/**
+ * The model didn't respond within the configured timeout
+ */
+export class LLMTimeoutError extends LLMError {
+  readonly status = 504;
+  readonly code = "llm_timeout";
+  readonly userMessage = "The assistant took too long to respond. Please try again.";
+  readonly retryable: boolean = true;
+
+  constructor(timeoutMs: number) {
+    super(`LLM request timed out after ${timeoutMs}ms`);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+/**
+ * The provider answered 429. `retryAfterMs` comes from its Retry-After header when sent.
+ */
+export class LLMRateLimitError extends LLMError {
+  readonly status = 429;
+  readonly code = "llm_rate_limited";
+  readonly retryable: boolean = true;
+  readonly retryAfterMs?: number;
+
+  constructor(detail: string, retryAfterMs?: number) {
+    super(`LLM rate limit exceeded: ${detail}`);
+    this.name = "LLMRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get userMessage(): string {
+    const seconds = this.retryAfterMs !== undefined ? Math.ceil(this.retryAfterMs / 1000) : undefined;
+    return seconds
+      ? `The assistant is receiving too many requests. Please try again in ${seconds} second${seconds === 1 ? "" : "s"}.`
+      : "The assistant is receiving too many requests. Please try again shortly.";
+  }
+}
+
+/**
+ * The provider failed with a 5xx status or couldn't be reached
+ */
+export class LLMUnavailableError extends LLMError {
+  readonly status: number = 503;
+  readonly code: string = "llm_unavailable";
+  readonly userMessage: string = "The assistant is temporarily unavailable. Please try again in a moment.";
+  readonly retryable: boolean = true;
+
+  constructor(detail: string) {
+    super(`LLM unavailable: ${detail}`);
+    this.name = "LLMUnavailableError";
+  }
+}
+
+/**
+ * Requests are being refused without contacting the provider after repeated failures
+ */
+export class LLMCircuitOpenError extends LLMUnavailableError {
+  readonly code = "llm_circuit_open";
+  readonly retryable: boolean = false;
+  readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number) {
+    super(`circuit open after repeated failures, retrying in ${retryAfterMs}ms`);
+    this.name = "LLMCircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The provider rejected the request itself (bad key, unknown model, invalid parameters).
+ * Retrying won't help; the server configuration needs fixing.
+ */
+export class LLMRequestError extends LLMError {
+  readonly status = 502;
+  readonly code = "llm_request_rejected";
+  readonly userMessage = "The assistant could not process this request. Please try again later.";
+  readonly upstreamStatus: number;
+
+  constructor(upstreamStatus: number, detail: string) {
+    super(`LLM API error: ${upstreamStatus} ${detail}`);
+    this.name = "LLMRequestError";
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+/**
+ * The provider answered with something that isn't the expected JSON, e.g. a garbled stream chunk
+ */
+export class LLMResponseError extends LLMError {
+  readonly status = 502;
+  readonly code = "llm_invalid_response";
+  readonly userMessage = "The assistant sent a response that could not be read. Please try again.";
+
+  constructor(detail: string) {
+    super(`Invalid LLM response: ${detail}`);
+    this.name = "LLMResponseError";
+  }
+}
+
+/**
+ * No usable provider is configured, e.g. a hosted API without an API key
+ */
+export class LLMNotConfiguredError extends LLMError {
+  readonly status = 503;
+  readonly code = "llm_not_configured";
+  readonly userMessage = "The assistant is not configured yet. Please contact the site administrator.";
+
+  constructor(detail: string) {
+    super(detail);
+    this.name = "LLMNotConfiguredError";
+  }
+}
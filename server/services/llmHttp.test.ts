@@ -0,0 +1,201 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { LLMHttpClient, type LLMHttpOptions } from "./llmHttp";
+import {
+  LLMCircuitOpenError,
+  LLMRateLimitError,
+  LLMRequestError,
+  LLMTimeoutError,
+  LLMUnavailableError
+} from "./llmErrors";
+import { hang, json, lines, startFakeHttpServer, type FakeHttpServer } from "../testing/fakeHttpServer";
+
+let server: FakeHttpServer;
+
+beforeAll(async () => {
+  server = await startFakeHttpServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+// Short delays so the tests run in milliseconds
+const fast: LLMHttpOptions = {
+  timeoutMs: 200,
+  maxRetries: 2,
+  baseDelayMs: 10,
+  maxDelayMs: 100,
+  failureThreshold: 2,
+  resetTimeoutMs: 100
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Count the requests `run` makes to the fake server
+async function requestsMadeBy(run: () => Promise<unknown>): Promise<number> {
+  const before = server.requests;
+  await run().catch(() => {});
+  return server.requests - before;
+}
+
+async function stream(client: LLMHttpClient, signal?: AbortSignal): Promise<void> {
+  const body = await client.postStream(server.url, {}, {}, signal);
+  await body.cancel();
+}
+
+// Open the circuit (failing requests do the same, see below), then wait until it lets a trial through
+async function openCircuit(client: LLMHttpClient): Promise<void> {
+  for (let i = 0; i < fast.failureThreshold; i++) {
+    client.breaker.recordFailure();
+  }
+  expect(client.breaker.state).toBe("open");
+
+  await wait(fast.resetTimeoutMs + 20);
+  expect(client.breaker.state).toBe("half-open");
+}
+
+describe("LLMHttpClient", () => {
+  describe("retries", () => {
+    it("retries 5xx responses with backoff until one succeeds", async () => {
+      const client = new LLMHttpClient(fast);
+      server.respond(json(503, { error: "busy" }), json(502, { error: "busy" }), json(200, { answer: "Grace" }));
+
+      const before = server.requests;
+      expect(await client.postJson(server.url, {})).toEqual({ answer: "Grace" });
+      expect(server.requests - before).toBe(3);
+    });
+
+    it("gives up after the configured retries", async () => {
+      const client = new LLMHttpClient(fast);
+      server.respond(json(503, { error: "down" }));
+
+      expect(await requestsMadeBy(async () => {
+        await expect(client.postJson(server.url, {})).rejects.toBeInstanceOf(LLMUnavailableError);
+      })).toBe(fast.maxRetries + 1);
+    });
+
+    it("doesn't retry requests the provider rejects", async () => {
+      const client = new LLMHttpClient(fast);
+      server.respond(json(400, { error: "unknown model" }));
+
+      expect(await requestsMadeBy(async () => {
+        await expect(client.postJson(server.url, {})).rejects.toBeInstanceOf(LLMRequestError);
+      })).toBe(1);
+      expect(client.breaker.state).toBe("closed");
+    });
+  });
+
+  describe("Retry-After", () => {
+    it("waits as long as the provider asks before retrying", async () => {
+      const client = new LLMHttpClient(fast);
+      server.respond(json(429, { error: "slow down" }, { "Retry-After": "0.08" }), json(200, { answer: "Grace" }));
+
+      const started = Date.now();
+      expect(await client.postJson(server.url, {})).toEqual({ answer: "Grace" });
+      expect(Date.now() - started).toBeGreaterThanOrEqual(75);
+    });
+
+    it("returns a Retry-After longer than the longest delay to the caller", async () => {
+      const client = new LLMHttpClient(fast);
+      server.respond(json(429, { error: "slow down" }, { "Retry-After": "60" }));
+
+      expect(await requestsMadeBy(async () => {
+        const error = await client.postJson(server.url, {}).catch(caught => caught);
+        expect(error).toBeInstanceOf(LLMRateLimitError);
+        expect(error.retryAfterMs).toBe(60_000);
+      })).toBe(1);
+    });
+  });
+
+  describe("timeouts", () => {
+    it("times out each attempt and retries it", async () => {
+      const client = new LLMHttpClient({ ...fast, timeoutMs: 30, maxRetries: 1 });
+      server.respond(hang());
+
+      expect(await requestsMadeBy(async () => {
+        await expect(client.postJson(server.url, {})).rejects.toBeInstanceOf(LLMTimeoutError);
+      })).toBe(2);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    it("opens after repeated failures and refuses requests without calling the provider", async () => {
+      const client = new LLMHttpClient({ ...fast, maxRetries: 0 });
+      server.respond(json(503, { error: "down" }));
+      await expect(client.postJson(server.url, {})).rejects.toBeInstanceOf(LLMUnavailableError);
+      expect(client.breaker.state).toBe("closed");
+      await expect(client.postJson(server.url, {})).rejects.toBeInstanceOf(LLMUnavailableError);
+      expect(client.breaker.state).toBe("open");
+
+      expect(await requestsMadeBy(async () => {
+        await expect(client.postJson(server.url, {})).rejects.toBeInstanceOf(LLMCircuitOpenError);
+      })).toBe(0);
+    });
+
+    it("closes again when the half-open trial succeeds", async () => {
+      const client = new LLMHttpClient({ ...fast, maxRetries: 0 });
+      await openCircuit(client);
+
+      server.respond(json(200, { answer: "Grace" }));
+      expect(await client.postJson(server.url, {})).toEqual({ answer: "Grace" });
+      expect(client.breaker.state).toBe("closed");
+    });
+
+    it("lets only one trial through while half-open", async () => {
+      const client = new LLMHttpClient({ ...fast, maxRetries: 0 });
+      await openCircuit(client);
+
+      server.respond(hang());
+      const trial = client.postJson(server.url, {});
+      await expect(client.postJson(server.url, {})).rejects.toBeInstanceOf(LLMCircuitOpenError);
+
+      await expect(trial).rejects.toBeInstanceOf(LLMTimeoutError);
+      expect(client.breaker.state).toBe("open");
+    });
+
+    it("lets the next request through after the caller aborts the trial", async () => {
+      const client = new LLMHttpClient({ ...fast, maxRetries: 0 });
+      await openCircuit(client);
+
+      server.respond(hang());
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+      await expect(stream(client, controller.signal)).rejects.toThrow();
+      expect(client.breaker.state).toBe("half-open");
+
+      server.respond(lines("data: [DONE]"));
+      await stream(client);
+      expect(client.breaker.state).toBe("closed");
+    });
+
+    it("lets the next request through after the trial is aborted during its backoff", async () => {
+      const client = new LLMHttpClient({ ...fast, baseDelayMs: 1_000, maxDelayMs: 1_000 });
+      await openCircuit(client);
+
+      server.respond(json(503, { error: "down" }));
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 50);
+      expect(await requestsMadeBy(async () => {
+        await expect(stream(client, controller.signal)).rejects.toThrow();
+      })).toBe(1);
+      expect(client.breaker.state).toBe("half-open");
+
+      server.respond(lines("data: [DONE]"));
+      await stream(client);
+      expect(client.breaker.state).toBe("closed");
+    });
+
+    it("lets the next request through after the trial is rate limited", async () => {
+      const client = new LLMHttpClient({ ...fast, maxRetries: 0 });
+      await openCircuit(client);
+
+      server.respond(json(429, { error: "slow down" }, { "Retry-After": "60" }));
+      await expect(client.postJson(server.url, {})).rejects.toBeInstanceOf(LLMRateLimitError);
+      expect(client.breaker.state).toBe("half-open");
+
+      server.respond(json(200, { answer: "Grace" }));
+      expect(await client.postJson(server.url, {})).toEqual({ answer: "Grace" });
+      expect(client.breaker.state).toBe("closed");
+    });
+  });
+});
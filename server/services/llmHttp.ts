@@ -0,0 +1,384 @@
+import {
+  LLMError,
+  LLMCircuitOpenError,
+  LLMRateLimitError,
+  LLMRequestError,
+  LLMTimeoutError,
+  LLMUnavailableError
+} from "./llmErrors";
+
+export interface LLMHttpOptions {
+  // Per attempt: until the whole JSON body arrives, or for streams until the response starts
+  // and then between chunks
+  timeoutMs: number;
+  // Extra attempts after a timeout, network error, 429 or 5xx
+  maxRetries: number;
+  // First backoff delay; doubled on each retry, with jitter
+  baseDelayMs: number;
+  // Longest wait before a retry. A Retry-After longer than this is returned to the caller instead.
+  maxDelayMs: number;
+  // Consecutive failed requests that open the circuit
+  failureThreshold: number;
+  // How long an open circuit refuses requests before letting a trial request through
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_LLM_HTTP_OPTIONS: LLMHttpOptions = {
+  timeoutMs: 30_000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+/**
+ * Read the LLM_TIMEOUT_MS, LLM_MAX_RETRIES, LLM_CIRCUIT_FAILURE_THRESHOLD and
+ * LLM_CIRCUIT_RESET_MS environment variables, falling back to the defaults
+ */
+export function llmHttpOptionsFromEnv(): LLMHttpOptions {
+  const fromEnv = (name: string, fallback: number) =>
+    process.env[name] ? parseInt(process.env[name]!) : fallback;
+
+  return {
+    ...DEFAULT_LLM_HTTP_OPTIONS,
+    timeoutMs: fromEnv("LLM_TIMEOUT_MS", DEFAULT_LLM_HTTP_OPTIONS.timeoutMs),
+    maxRetries: fromEnv("LLM_MAX_RETRIES", DEFAULT_LLM_HTTP_OPTIONS.maxRetries),
+    failureThreshold: fromEnv("LLM_CIRCUIT_FAILURE_THRESHOLD", DEFAULT_LLM_HTTP_OPTIONS.failureThreshold),
+    resetTimeoutMs: fromEnv("LLM_CIRCUIT_RESET_MS", DEFAULT_LLM_HTTP_OPTIONS.resetTimeoutMs),
+  };
+}
+
+/**
+ * Stops calling a provider that keeps failing. After `failureThreshold` consecutive
+ * failures the circuit opens and requests fail immediately; once `resetTimeoutMs` has
+ * passed a single trial request is let through, which closes the circuit on success
+ * and reopens it on failure.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInProgress = false;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+
+  constructor(failureThreshold: number, resetTimeoutMs: number) {
+    this.failureThreshold = failureThreshold;
+    this.resetTimeoutMs = resetTimeoutMs;
+  }
+
+  get state(): "closed" | "open" | "half-open" {
+    if (this.openedAt === undefined) return "closed";
+    return Date.now() - this.openedAt >= this.resetTimeoutMs ? "half-open" : "open";
+  }
+
+  /**
+   * Throw when the circuit is open; in the half-open state only one request may proceed.
+   * Returns true for that trial request, which must end in recordSuccess, recordFailure or abandonTrial.
+   */
+  beforeRequest(): boolean {
+    const state = this.state;
+
+    if (state === "open" || (state === "half-open" && this.trialInProgress)) {
+      const remaining = Math.max(0, this.openedAt! + this.resetTimeoutMs - Date.now());
+      throw new LLMCircuitOpenError(remaining);
+    }
+
+    if (state === "half-open") {
+      this.trialInProgress = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInProgress = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+
+    if (this.trialInProgress || this.failures >= this.failureThreshold) {
+      if (this.openedAt === undefined || this.trialInProgress) {
+        console.warn(`[LLM] Circuit opened after ${this.failures} consecutive failure(s)`);
+      }
+      this.openedAt = Date.now();
+    }
+    this.trialInProgress = false;
+  }
+
+  /**
+   * Let another request be the trial after one ended without telling whether the provider
+   * recovered, e.g. because the caller aborted it or it was rate limited
+   */
+  abandonTrial(): void {
+    this.trialInProgress = false;
+  }
+}
+
+/**
+ * POSTs to an LLM API with per-attempt timeouts, retries with exponential backoff and
+ * jitter (honouring Retry-After), and a circuit breaker. Non-2xx responses and network
+ * failures are turned into typed LLMErrors.
+ */
+export class LLMHttpClient {
+  readonly breaker: CircuitBreaker;
+  private options: LLMHttpOptions;
+
+  constructor(options: Partial<LLMHttpOptions> = {}) {
+    this.options = { ...DEFAULT_LLM_HTTP_OPTIONS, ...options };
+    this.breaker = new CircuitBreaker(this.options.failureThreshold, this.options.resetTimeoutMs);
+  }
+
+  get timeoutMs(): number {
+    return this.options.timeoutMs;
+  }
+
+  /**
+   * POST and parse the JSON response
+   */
+  async postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<T> {
+    return this.withRetries(undefined, async (signal) => {
+      const response = await this.post(url, body, headers, signal);
+      return response.json() as Promise<T>;
+    });
+  }
+
+  /**
+   * POST and return the response body as a stream once the response has started.
+   * Only failures before the first byte are retried.
+   */
+  async postStream(
+    url: string,
+    body: unknown,
+    headers: Record<string, string> = {},
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    return this.withRetries(signal, async (attemptSignal) => {
+      const response = await this.post(url, body, headers, attemptSignal);
+      if (!response.body) {
+        throw new LLMUnavailableError("empty response stream");
+      }
+      return response.body;
+    }, true);
+  }
+
+  /**
+   * Run `attempt` until it succeeds, retries are exhausted or the error isn't retryable.
+   * Each attempt gets a signal that aborts on timeout or when `signal` aborts; with
+   * `keepSignal` the caller's abort still reaches a successful attempt's stream.
+   */
+  private async withRetries<T>(
+    signal: AbortSignal | undefined,
+    attempt: (signal: AbortSignal) => Promise<T>,
+    keepSignal: boolean = false
+  ): Promise<T> {
+    const isTrial = this.breaker.beforeRequest();
+
+    try {
+      return await this.runAttempts(signal, attempt, keepSignal);
+    } finally {
+      // A no-op when the trial's outcome was recorded; otherwise the next request gets to try
+      if (isTrial) {
+        this.breaker.abandonTrial();
+      }
+    }
+  }
+
+  private async runAttempts<T>(
+    signal: AbortSignal | undefined,
+    attempt: (signal: AbortSignal) => Promise<T>,
+    keepSignal: boolean
+  ): Promise<T> {
+    for (let attemptNumber = 0; ; attemptNumber++) {
+      const controller = new AbortController();
+      const forwardAbort = () => controller.abort(signal?.reason);
+      signal?.addEventListener("abort", forwardAbort, { once: true });
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.options.timeoutMs);
+
+      let succeeded = false;
+      try {
+        const result = await attempt(controller.signal);
+        succeeded = true;
+        this.breaker.recordSuccess();
+        return result;
+      } catch (caught) {
+        // The caller gave up; not the provider's fault
+        if (signal?.aborted) {
+          throw caught;
+        }
+
+        const error = timedOut ? new LLMTimeoutError(this.options.timeoutMs) : toLLMError(caught);
+        const delay = this.retryDelay(error, attemptNumber);
+
+        if (delay === undefined) {
+          this.recordOutcome(error);
+          throw error;
+        }
+
+        console.warn(`[LLM] Attempt ${attemptNumber + 1} failed (${error.message}); retrying in ${delay}ms`);
+        await sleep(delay, signal);
+      } finally {
+        clearTimeout(timer);
+        if (!(keepSignal && succeeded)) {
+          signal?.removeEventListener("abort", forwardAbort);
+        }
+      }
+    }
+  }
+
+  /**
+   * Milliseconds to wait before the next attempt, or undefined to give up
+   */
+  private retryDelay(error: LLMError, attemptNumber: number): number | undefined {
+    if (!error.retryable || attemptNumber >= this.options.maxRetries) return undefined;
+
+    if (error instanceof LLMRateLimitError && error.retryAfterMs !== undefined) {
+      // Better to tell the user when to come back than to hold the request open that long
+      return error.retryAfterMs <= this.options.maxDelayMs ? error.retryAfterMs : undefined;
+    }
+
+    // Equal jitter: half the exponential delay, plus a random share of the other half
+    const exponential = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attemptNumber);
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+  }
+
+  // Outages count towards opening the circuit; a rejected request proves the provider is up
+  private recordOutcome(error: LLMError): void {
+    if (error instanceof LLMRateLimitError) return;
+
+    if (error instanceof LLMRequestError) {
+      this.breaker.recordSuccess();
+    } else {
+      this.breaker.recordFailure();
+    }
+  }
+
+  private async post(
+    url: string,
+    body: unknown,
+    headers: Record<string, string>,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Read a streamed response body as trimmed lines. Throws LLMTimeoutError when no data
+ * arrives for `idleTimeoutMs`.
+ */
+export async function* readLines(
+  body: ReadableStream<Uint8Array>,
+  idleTimeoutMs: number
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await readWithTimeout(reader, idleTimeoutMs);
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        yield line.trim();
+      }
+    }
+
+    if (buffer.trim()) {
+      yield buffer.trim();
+    }
+  } finally {
+    // Stop the download when the consumer stops early or the stream stalls
+    reader.cancel().catch(() => {});
+  }
+}
+
+async function readWithTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  timeoutMs: number
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new LLMTimeoutError(timeoutMs)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([reader.read(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function errorFromResponse(response: Response): Promise<LLMError> {
+  // Upstream error bodies can be long HTML pages; the start is enough for the logs
+  const detail = (await response.text().catch(() => "")).slice(0, 500);
+
+  if (response.status === 429) {
+    return new LLMRateLimitError(detail, parseRetryAfter(response.headers.get("retry-after")));
+  }
+  if (response.status >= 500 || response.status === 408) {
+    return new LLMUnavailableError(`${response.status} ${detail}`);
+  }
+  return new LLMRequestError(response.status, detail);
+}
+
+function toLLMError(error: unknown): LLMError {
+  if (error instanceof LLMError) return error;
+  // fetch rejects with a TypeError when the server can't be reached
+  return new LLMUnavailableError(error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, Math.round(seconds * 1000));
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createModelRegistry, ModelRegistry, ModelSelectionError, type ModelInfo } from "./models";
+
+function model(id: string, status: ModelInfo["status"] = "active", replacement?: string): ModelInfo {
+  return {
+    id,
+    name: id.toUpperCase(),
+    description: "",
+    contextTokens: 8192,
+    maxAnswerTokens: 2048,
+    capabilities: [],
+    status,
+    replacement
+  };
+}
+
+describe("ModelRegistry", () => {
+  const registry = new ModelRegistry(
+    [model("current"), model("old", "deprecated", "current"), model("gone", "retired", "current"), model("orphan", "retired")],
+    "old"
+  );
+
+  it("resolves chosen models and falls back to the default", () => {
+    expect(registry.resolve("current").id).toBe("current");
+    expect(registry.resolve("old").id).toBe("old");
+    expect(registry.resolve().id).toBe("old");
+    expect(registry.resolve(null).id).toBe("old");
+  });
+
+  it("rejects unknown models, listing the ones still available", () => {
+    expect(() => registry.resolve("gpt-2")).toThrow(ModelSelectionError);
+    expect(() => registry.resolve("gpt-2")).toThrow('Unknown model "gpt-2". Choose one of: current, old.');
+  });
+
+  it("rejects retired models, suggesting their replacement or the default", () => {
+    const rejection = (id: string) => {
+      try {
+        registry.resolve(id);
+      } catch (error) {
+        return error;
+      }
+    };
+
+    expect(rejection("gone")).toMatchObject({ status: 400, code: "model_retired", replacement: "current" });
+    expect(rejection("orphan")).toMatchObject({ code: "model_retired", replacement: "old" });
+  });
+
+  it("replaces a retired default and refuses a default it doesn't know", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(new ModelRegistry([model("current"), model("gone", "retired", "current")], "gone").defaultModel.id).toBe("current");
+    vi.restoreAllMocks();
+
+    expect(() => new ModelRegistry([model("current")], "missing")).toThrow('Default model "missing" is not in the model registry');
+  });
+});
+
+describe("createModelRegistry", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("lists Groq's models for the default endpoint", () => {
+    vi.stubEnv("LLM_BASE_URL", "");
+    const registry = createModelRegistry({ name: "openai:llama-3.3-70b-versatile", model: "llama-3.3-70b-versatile" });
+
+    expect(registry.defaultModel.id).toBe("llama-3.3-70b-versatile");
+    expect(registry.get("llama-3.1-8b-instant")?.status).toBe("active");
+    expect(registry.get("mixtral-8x7b-32768")?.status).toBe("retired");
+  });
+
+  it("describes other providers' models from the environment", () => {
+    // Only the configured model and LLM_MODELS, none of Groq's
+    vi.stubEnv("LLM_MODELS", "mistral, llama3.2,");
+    vi.stubEnv("LLM_CONTEXT_TOKENS", "32768");
+    const registry = createModelRegistry({ name: "ollama:llama3.2", model: "llama3.2" });
+
+    expect(registry.list().map(m => [m.id, m.contextTokens])).toEqual([["llama3.2", 32768], ["mistral", 32768]]);
+    expect(registry.defaultModel.id).toBe("llama3.2");
+  });
+});
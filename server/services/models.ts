@@ -0,0 +1,208 @@
+import { llmProvider } from "./llm";
+
+export type ModelStatus = "active" | "deprecated" | "retired";
+
+export type ModelCapability = "streaming" | "multilingual" | "long-context" | "fast";
+
+/**
+ * A chat model that answers can be generated with, as listed by GET /api/models
+ */
+export interface ModelInfo {
+  // The name the provider knows the model by, e.g. "llama-3.3-70b-versatile"
+  id: string;
+  // Shown in the model picker
+  name: string;
+  description: string;
+  // Prompt and answer together
+  contextTokens: number;
+  // Longest answer the model can generate
+  maxAnswerTokens: number;
+  // US dollars per million tokens; unknown for self-hosted models
+  cost?: { input: number; output: number };
+  capabilities: ModelCapability[];
+  // Deprecated models still answer but are due to be retired; retired ones are rejected
+  status: ModelStatus;
+  // What to use instead of a deprecated or retired model
+  replacement?: string;
+}
+
+/**
+ * Chat models served by Groq, the default provider.
+ * See https://console.groq.com/docs/models and https://console.groq.com/docs/deprecations
+ */
+const GROQ_MODELS: ModelInfo[] = [
+  {
+    id: "llama-3.3-70b-versatile",
+    name: "Llama 3.3 70B",
+    description: "Meta's most capable open model on Groq; the best choice for detailed answers",
+    contextTokens: 131_072,
+    maxAnswerTokens: 32_768,
+    cost: { input: 0.59, output: 0.79 },
+    capabilities: ["streaming", "multilingual", "long-context"],
+    status: "active",
+  },
+  {
+    id: "llama-3.1-8b-instant",
+    name: "Llama 3.1 8B Instant",
+    description: "Small and very fast, for quick questions",
+    contextTokens: 131_072,
+    maxAnswerTokens: 8_192,
+    cost: { input: 0.05, output: 0.08 },
+    capabilities: ["streaming", "multilingual", "long-context", "fast"],
+    status: "active",
+  },
+  {
+    id: "gemma2-9b-it",
+    name: "Gemma 2 9B",
+    description: "Google's compact instruction-tuned model",
+    contextTokens: 8_192,
+    maxAnswerTokens: 8_192,
+    cost: { input: 0.2, output: 0.2 },
+    capabilities: ["streaming", "fast"],
+    status: "deprecated",
+    replacement: "llama-3.1-8b-instant",
+  },
+  {
+    id: "llama3-70b-8192",
+    name: "Llama 3 70B",
+    description: "Replaced by Llama 3.3 70B",
+    contextTokens: 8_192,
+    maxAnswerTokens: 8_192,
+    cost: { input: 0.59, output: 0.79 },
+    capabilities: ["streaming"],
+    status: "retired",
+    replacement: "llama-3.3-70b-versatile",
+  },
+  {
+    id: "llama3-8b-8192",
+    name: "Llama 3 8B",
+    description: "Replaced by Llama 3.1 8B Instant",
+    contextTokens: 8_192,
+    maxAnswerTokens: 8_192,
+    cost: { input: 0.05, output: 0.08 },
+    capabilities: ["streaming", "fast"],
+    status: "retired",
+    replacement: "llama-3.1-8b-instant",
+  },
+  {
+    id: "mixtral-8x7b-32768",
+    name: "Mixtral 8x7B",
+    description: "Replaced by Llama 3.3 70B",
+    contextTokens: 32_768,
+    maxAnswerTokens: 32_768,
+    cost: { input: 0.24, output: 0.24 },
+    capabilities: ["streaming", "multilingual"],
+    status: "retired",
+    replacement: "llama-3.3-70b-versatile",
+  },
+];
+
+/**
+ * A model was requested that can't be used: it isn't in the registry, or it has been retired
+ */
+export class ModelSelectionError extends Error {
+  readonly status = 400;
+  readonly code: "unknown_model" | "model_retired";
+  readonly replacement?: string;
+
+  constructor(code: "unknown_model" | "model_retired", message: string, replacement?: string) {
+    super(message);
+    this.name = "ModelSelectionError";
+    this.code = code;
+    this.replacement = replacement;
+  }
+}
+
+/**
+ * The models this deployment can answer with, and the default for chats that don't pick one
+ */
+export class ModelRegistry {
+  private models: Map<string, ModelInfo>;
+  readonly defaultModel: ModelInfo;
+
+  constructor(models: ModelInfo[], defaultModelId: string) {
+    this.models = new Map(models.map(model => [model.id, model]));
+
+    const configured = this.models.get(defaultModelId);
+    if (!configured) {
+      throw new Error(`Default model "${defaultModelId}" is not in the model registry`);
+    }
+
+    // A retired default would make every chat fail, so fall back to its replacement
+    const replacement = configured.replacement ? this.models.get(configured.replacement) : undefined;
+    if (configured.status === "retired" && replacement) {
+      console.warn(`[Models] ${configured.id} has been retired; using ${replacement.id} as the default model`);
+      this.defaultModel = replacement;
+    } else {
+      this.defaultModel = configured;
+    }
+  }
+
+  list(): ModelInfo[] {
+    return Array.from(this.models.values());
+  }
+
+  get(id: string): ModelInfo | undefined {
+    return this.models.get(id);
+  }
+
+  /**
+   * The model to answer with: `id`, or the default when none was chosen.
+   * Throws ModelSelectionError for unknown and retired models.
+   */
+  resolve(id?: string | null): ModelInfo {
+    if (!id) return this.defaultModel;
+
+    const model = this.models.get(id);
+    if (!model) {
+      throw new ModelSelectionError(
+        "unknown_model",
+        `Unknown model "${id}". Choose one of: ${this.list().filter(m => m.status !== "retired").map(m => m.id).join(", ")}.`
+      );
+    }
+
+    if (model.status === "retired") {
+      const replacement = model.replacement ?? this.defaultModel.id;
+      throw new ModelSelectionError(
+        "model_retired",
+        `The model "${model.name}" has been retired and can no longer answer. Please choose another model, such as ${replacement}.`,
+        replacement
+      );
+    }
+
+    return model;
+  }
+}
+
+/**
+ * Build the registry for the configured LLM provider: Groq's catalogue for the default
+ * OpenAI-compatible endpoint, otherwise LLM_MODEL plus any extra ids in LLM_MODELS
+ * (comma-separated), sized by LLM_CONTEXT_TOKENS since their limits aren't known here
+ */
+export function createModelRegistry(provider: { name: string; model: string }): ModelRegistry {
+  const usesGroq = provider.name.startsWith("openai:") &&
+    (!process.env.LLM_BASE_URL || process.env.LLM_BASE_URL.includes("api.groq.com"));
+
+  const models = usesGroq ? [...GROQ_MODELS] : [];
+  const extraIds = (process.env.LLM_MODELS || "").split(",").map(id => id.trim()).filter(Boolean);
+  const contextTokens = process.env.LLM_CONTEXT_TOKENS ? parseInt(process.env.LLM_CONTEXT_TOKENS) : 8192;
+
+  for (const id of [provider.model, ...extraIds]) {
+    if (models.some(model => model.id === id)) continue;
+
+    models.push({
+      id,
+      name: id,
+      description: provider.name === "mock" ? "Placeholder answers for development" : "Configured model",
+      contextTokens,
+      maxAnswerTokens: contextTokens,
+      capabilities: ["streaming"],
+      status: "active",
+    });
+  }
+
+  return new ModelRegistry(models, provider.model);
+}
+
+// Export a singleton instance
+export const modelRegistry = createModelRegistry(llmProvider);
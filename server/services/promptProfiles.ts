@@ -0,0 +1,77 @@
+import { AnswerLength } from "@shared/schema";
+import { ExplicitPromptProfile as PromptProfile } from "../types";
+import { storage } from "../storage";
+
+// Tokens reserved for an answer of each length, and how the model is told to pace itself
+export const ANSWER_LENGTHS: Record<AnswerLength, { tokens: number; guidance: string }> = {
+  short: {
+    tokens: 600,
+    guidance: "Keep answers short: one to three brief paragraphs."
+  },
+  medium: {
+    tokens: 1200,
+    guidance: "Give focused answers of a few paragraphs."
+  },
+  long: {
+    tokens: 2400,
+    guidance: "Give thorough answers, using headings and lists where they help the reader."
+  }
+};
+
+/**
+ * A chat was created with a prompt profile that doesn't exist
+ */
+export class ProfileSelectionError extends Error {
+  readonly status = 400;
+  readonly code = "unknown_profile";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileSelectionError";
+  }
+}
+
+/**
+ * Looks up the prompt profile a chat is answered with. Profiles live in storage so
+ * admins can edit them at runtime (see PATCH /api/profiles/:id).
+ */
+export class PromptProfileService {
+  readonly defaultProfileId: string;
+
+  constructor(defaultProfileId: string) {
+    this.defaultProfileId = defaultProfileId;
+  }
+
+  /**
+   * The profile a new chat asked for, checked before the chat is created.
+   * Throws ProfileSelectionError when there is no such profile.
+   */
+  async select(id: string): Promise<PromptProfile> {
+    const profile = await storage.getPromptProfile(id);
+    if (!profile) {
+      const ids = (await storage.getPromptProfiles()).map(p => p.id);
+      throw new ProfileSelectionError(`Unknown prompt profile "${id}". Choose one of: ${ids.join(", ")}.`);
+    }
+    return profile;
+  }
+
+  /**
+   * The chat's profile, or the default one when none was chosen or it no longer exists
+   */
+  async resolve(id?: string | null): Promise<PromptProfile> {
+    if (id) {
+      const profile = await storage.getPromptProfile(id);
+      if (profile) return profile;
+      console.warn(`[PromptProfiles] Profile "${id}" not found; using "${this.defaultProfileId}"`);
+    }
+
+    const profile = await storage.getPromptProfile(this.defaultProfileId);
+    if (!profile) {
+      throw new Error(`Default prompt profile "${this.defaultProfileId}" does not exist`);
+    }
+    return profile;
+  }
+}
+
+// Export a singleton instance
+export const promptProfileService = new PromptProfileService(process.env.DEFAULT_PROMPT_PROFILE || "catechist");
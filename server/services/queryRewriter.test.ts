@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { MockLLMProvider, type LLMProvider } from "./llm";
+import { QueryRewriter } from "./queryRewriter";
+import type { MessageWithRole } from "@shared/schema";
+
+// Records which models the rewriter asks for
+class ModelRecordingProvider extends MockLLMProvider {
+  readonly models: string[] = [];
+
+  forModel(model?: string): LLMProvider {
+    this.models.push(model!);
+    return this;
+  }
+}
+
+const history: MessageWithRole[] = [
+  { role: "user", content: "Who wrote Humanae Vitae?" },
+  { role: "assistant", content: "Humanae Vitae was written by Pope Paul VI in 1968." }
+];
+
+describe("QueryRewriter", () => {
+  it("rewrites follow-ups with the chat's model", async () => {
+    const llm = new ModelRecordingProvider(["What did Pope Paul VI write in Humanae Vitae?"]);
+    const rewriter = new QueryRewriter(llm, { mode: "llm", historyMessages: 4 });
+
+    const rewritten = await rewriter.rewrite("What did he say in it?", history, "en", "llama-3.1-8b-instant");
+
+    expect(rewritten).toEqual({ query: "What did Pope Paul VI write in Humanae Vitae?", method: "llm" });
+    expect(llm.models).toEqual(["llama-3.1-8b-instant"]);
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it("uses the default model when the chat has none", async () => {
+    const llm = new ModelRecordingProvider(["What did Pope Paul VI write in Humanae Vitae?"]);
+    const rewriter = new QueryRewriter(llm, { mode: "llm", historyMessages: 4 });
+
+    await rewriter.rewrite("What did he say in it?", history);
+
+    expect(llm.models).toEqual([]);
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it("leaves standalone English questions alone", async () => {
+    const llm = new ModelRecordingProvider(["unused"]);
+    const rewriter = new QueryRewriter(llm, { mode: "llm", historyMessages: 4 });
+
+    const rewritten = await rewriter.rewrite("What does the Catechism teach about grace?", history, "en", "llama-3.1-8b-instant");
+
+    expect(rewritten).toEqual({ query: "What does the Catechism teach about grace?", method: "none" });
+    expect(llm.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,186 @@
+import { LanguageCode, MessageWithRole } from "@shared/schema";
+import { llmProvider, type LLMProvider } from "./llm";
+import { LANGUAGE_NAMES } from "./languageDetection";
+import { STOPWORDS, splitWords } from "./textAnalysis";
+
+export type QueryRewriteMethod = "none" | "llm" | "heuristic";
+
+export interface RewrittenQuery {
+  // Standalone query used for retrieval
+  query: string;
+  // How it was produced; "none" means the original question was used as is
+  method: QueryRewriteMethod;
+}
+
+export interface QueryRewriterOptions {
+  // "llm" falls back to the heuristic when no LLM is available or the call fails
+  mode: "llm" | "heuristic" | "off";
+  // How many earlier messages are considered
+  historyMessages: number;
+}
+
+// Words that usually refer back to something said earlier in the conversation
+const REFERRING_WORDS = new Set([
+  "he", "him", "his", "she", "her", "hers", "it", "its", "they", "them", "their", "theirs",
+  "this", "that", "these", "those", "there", "same", "former", "latter"
+]);
+
+// Questions with fewer content words than this are treated as follow-ups
+const MIN_STANDALONE_TERMS = 3;
+// Most history keywords appended to a follow-up by the heuristic
+const MAX_CONTEXT_KEYWORDS = 6;
+// Earlier messages are shortened to this many characters in the rewriting prompt
+const MAX_HISTORY_CHARS = 600;
+
+const REWRITE_PROMPT = `You rewrite follow-up questions for a search engine over Catholic documents \
+(the Catechism, Scripture, council documents, encyclicals and lives of the saints).
+Given a conversation and the user's latest question, write a single standalone search query that \
+resolves every pronoun and reference using the conversation. Keep names, document titles, years \
+and paragraph numbers. The documents are in English, so always write the query in English, \
+translating the question if it is in another language. If the question is already standalone and \
+in English, repeat it unchanged.
+Reply with the query only, without quotes or explanation.`;
+
+/**
+ * Turns follow-up questions into standalone search queries before retrieval, so that
+ * "what did he say about it in 1968?" searches for what the conversation was about.
+ * The LLM does the rewriting when available; otherwise keywords from the recent
+ * conversation are appended to the question. Questions in other languages are
+ * translated into English by the LLM, since most of the knowledge base is English.
+ */
+export class QueryRewriter {
+  private llm: LLMProvider;
+  private options: QueryRewriterOptions;
+
+  constructor(llm: LLMProvider, options: QueryRewriterOptions) {
+    this.llm = llm;
+    this.options = options;
+  }
+
+  /**
+   * `model` is the chat's model, which also does the rewriting; the provider's default when omitted
+   */
+  async rewrite(
+    query: string,
+    history: MessageWithRole[],
+    language: LanguageCode = "en",
+    model?: string
+  ): Promise<RewrittenQuery> {
+    const recentHistory = history
+      .filter(message => message.role !== "system")
+      .slice(-this.options.historyMessages);
+    const needsContext = recentHistory.length > 0 && this.isFollowUp(query);
+
+    if (this.options.mode === "off" || (!needsContext && language === "en")) {
+      return { query, method: "none" };
+    }
+
+    const llm = model ? this.llm.forModel(model) : this.llm;
+    if (this.options.mode === "llm" && llm.isAvailable()) {
+      try {
+        const rewritten = await this.rewriteWithLlm(llm, query, recentHistory, language);
+        if (rewritten) {
+          return { query: rewritten, method: "llm" };
+        }
+      } catch (error) {
+        console.error("[QueryRewriter] LLM rewrite failed, using heuristic:", error);
+      }
+    }
+
+    // The heuristic can add context but not translate
+    if (!needsContext) {
+      return { query, method: "none" };
+    }
+
+    return { query: this.rewriteWithHeuristic(query, recentHistory), method: "heuristic" };
+  }
+
+  /**
+   * A question needs context when it refers back to earlier messages or is too short to search on
+   */
+  private isFollowUp(query: string): boolean {
+    const words = splitWords(query);
+    const contentWords = words.filter(word => !STOPWORDS.has(word) && !REFERRING_WORDS.has(word));
+
+    return words.some(word => REFERRING_WORDS.has(word)) || contentWords.length < MIN_STANDALONE_TERMS;
+  }
+
+  private async rewriteWithLlm(
+    llm: LLMProvider,
+    query: string,
+    history: MessageWithRole[],
+    language: LanguageCode
+  ): Promise<string | undefined> {
+    const transcript = history
+      .map(message => {
+        const speaker = message.role === "user" ? "User" : "Assistant";
+        const content = message.content.length > MAX_HISTORY_CHARS
+          ? message.content.slice(0, MAX_HISTORY_CHARS) + "..."
+          : message.content;
+        return `${speaker}: ${content}`;
+      })
+      .join("\n");
+    const questionLabel = language === "en" ? "Latest question" : `Latest question (in ${LANGUAGE_NAMES[language]})`;
+
+    const response = await llm.getChatCompletion([
+      { role: "system", content: REWRITE_PROMPT },
+      { 
+        role: "user", 
+        content: `Conversation:\n${transcript || "(none)"}\n\n${questionLabel}: ${query}\n\nStandalone query in English:` 
+      }
+    ], 0, 100);
+
+    // Keep the first line and strip any label or quotes the model added anyway
+    const rewritten = response
+      .trim()
+      .split("\n")[0]
+      .replace(/^(standalone )?query( in english)?:\s*/i, "")
+      .replace(/^["'“]+|["'”]+$/g, "")
+      .trim();
+
+    // An empty or rambling answer isn't a usable query
+    return rewritten && rewritten.length <= query.length + 300 ? rewritten : undefined;
+  }
+
+  /**
+   * Append the most prominent terms of the recent conversation to the question.
+   * Terms from the user's own earlier questions come first, then names mentioned
+   * in the answers (capitalized words), most recent first.
+   */
+  private rewriteWithHeuristic(query: string, history: MessageWithRole[]): string {
+    const queryWords = new Set(splitWords(query));
+    const keywords = new Set<string>();
+
+    const addKeywords = (words: string[]) => {
+      for (const word of words) {
+        if (keywords.size >= MAX_CONTEXT_KEYWORDS) return;
+        if (word.length >= 3 && !STOPWORDS.has(word) && !REFERRING_WORDS.has(word) && !queryWords.has(word)) {
+          keywords.add(word);
+        }
+      }
+    };
+
+    const recentFirst = [...history].reverse();
+
+    for (const message of recentFirst.filter(m => m.role === "user")) {
+      addKeywords(splitWords(message.content));
+    }
+
+    for (const message of recentFirst.filter(m => m.role === "assistant")) {
+      // Capitalized words that don't start a sentence are likely names and titles
+      const names = message.content
+        .split(/[.!?:\n]+\s*/)
+        .flatMap(sentence => sentence.split(/\s+/).slice(1))
+        .filter(word => /^[A-Z][a-z]{2,}/.test(word));
+      addKeywords(names.flatMap(splitWords));
+    }
+
+    return keywords.size > 0 ? `${query} ${Array.from(keywords).join(" ")}` : query;
+  }
+}
+
+// Export a singleton instance
+export const queryRewriter = new QueryRewriter(llmProvider, {
+  mode: (process.env.QUERY_REWRITE as QueryRewriterOptions["mode"]) || "llm",
+  historyMessages: 4,
+});
@@ -1,16 +1,65 @@
-import { MessageWithRole, Document, SourceReference } from "@shared/schema";
-import { groqService } from "./groqService";
+import { MessageWithRole, Document, SourceReference, LanguageCode } from "@shared/schema";
+import { llmProvider, type LLMProvider } from "./llm";
 import { vectorStore } from "./vectorStore";
+import { embeddingProvider, contentHash } from "./embeddings";
+import { embeddingIndex } from "./embeddingIndex";
+import { hybridRetriever } from "./retrieval";
+import { queryRewriter, type RewrittenQuery } from "./queryRewriter";
+import { citationVerifier, type CitationReport } from "./citationVerifier";
+import { resolveSourceMarkers } from "./sourceMarkers";
+import { completionCache } from "./completionCache";
+import { contextBuilder, type AssembledContext, type TokenBreakdown } from "./contextBuilder";
+import { countTokens } from "./tokenizer";
+import type { ModelInfo } from "./models";
+import { ANSWER_LENGTHS } from "./promptProfiles";
+import { detectLanguage, LANGUAGE_NAMES } from "./languageDetection";
+import { chunkDocument } from "./chunking";
+import { scriptureService } from "./scripture";
+import { catechismService } from "./catechism";
 import { storage } from "../storage";
+import { ExplicitPromptProfile as PromptProfile } from "../types";
+
+// What a chat is answered with
+export interface AnswerSettings {
+  model: ModelInfo;
+  profile: PromptProfile;
+  // The user's interface language, assumed when a message is too short to tell its language
+  languageHint?: LanguageCode;
+}
+
+export interface QueryResult {
+  content: string;
+  sources: SourceReference[];
+  // Stored with the assistant message: the citation check as `citations`, the 1-based
+  // numbers of the sources the answer marked with "[n]" as `citedSources`, how the
+  // prompt's token budget was spent as `tokens`, the model and prompt profile that
+  // produced it as `model` and `profile`, and the language it was written in as `language`
+  metadata: {
+    citations?: CitationReport;
+    citedSources: number[];
+    tokens: TokenBreakdown;
+    model: string;
+    profile: string;
+    language: LanguageCode;
+  };
+}
 
 export class RAGService {
-  // System prompt to guide the assistant to provide Catholic-aligned responses
-  private systemPrompt = `
+  // Most earlier messages (user and assistant) considered for each prompt; the context
+  // builder keeps as many of the newest as the token budget allows
+  private readonly PROMPT_HISTORY_MESSAGES = 20;
+
+  /**
+   * System prompt to guide the assistant to provide Catholic-aligned responses, written for
+   * the audience, tone and answer length of the chat's prompt profile, in the user's language
+   */
+  private systemPromptFor(profile: PromptProfile, language: LanguageCode): string {
+    return `
 You are Fides Vera, a personal Catholic teaching assistant. Your purpose is to help users explore Catholic teachings, 
 doctrine, and tradition using authentic Catholic sources. Always respond in a way that is:
 
 1. Faithful to the Magisterium and Catholic doctrine
-2. Clear and accessible for all users, regardless of their familiarity with Catholicism
+2. Suited to the audience described below
 3. Compassionate and respectful
 4. Based on authoritative Catholic sources
 5. Well-cited with references to sources
@@ -23,6 +72,10 @@ When responding to questions about Catholic teaching, prioritize:
 - Writings of Church Fathers and Doctors of the Church
 - Lives and teachings of the Saints
 
+AUDIENCE AND STYLE (${profile.name}):
+${profile.instructions}
+${ANSWER_LENGTHS[profile.answerLength].guidance}
+${this.languageInstructions(language)}
 CITATION RULES - FOLLOW THESE EXACTLY:
 - When citing the Catechism, always use the exact paragraph numbers provided in the source metadata.
   Format: "Catechism of the Catholic Church, [paragraph number(s)]"
@@ -40,6 +93,10 @@ CITATION RULES - FOLLOW THESE EXACTLY:
   Format: "[Book] [Chapter]:[Verse]"
   Example: "Matthew 5:44-45"
   
+- The context documents are numbered. Right after each statement based on a context document, add
+  that document's number in square brackets, e.g. "... made in the image of God [1]." Use several
+  markers like [1][3] when a statement draws on several documents. Only use the numbers you were given.
+  
 - NEVER make up or paraphrase document citations. Only cite the exact sources given to you.
 - NEVER cite section numbers that aren't explicitly mentioned in the source metadata.
 - If you're not 100% certain of a specific citation, simply refer to the document more generally.
@@ -50,10 +107,36 @@ and recommend consulting a priest, spiritual director, or other appropriate reso
 Remember that you are not a replacement for pastoral care or spiritual direction, and you should note this 
 when appropriate.
 `;
+  }
 
-  constructor() {
+  /**
+   * Tells the model to answer in the user's language; nothing for English
+   */
+  private languageInstructions(language: LanguageCode): string {
+    if (language === "en") return "";
+    
+    const name = LANGUAGE_NAMES[language];
+    return `
+LANGUAGE:
+The user is writing in ${name}. Write your whole answer in ${name}. Most context documents are in English:
+translate what you take from them faithfully, but keep document titles, paragraph numbers and the
+citation formats below exactly as given.
+`;
+  }
+
+  private llm: LLMProvider;
+  // Content hashes of each indexed document's passages, so vectors of deleted or edited
+  // documents can be pruned from the persisted embedding index
+  private passageHashes = new Map<number, string[]>();
+  // Settles once the documents in storage are indexed; index changes and queries wait for it,
+  // so a document added meanwhile isn't indexed twice or searched for in a half-built index
+  private ready: Promise<void>;
+
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
+    
     // Initialize the vector store with documents
-    this.initializeVectorStore();
+    this.ready = this.initializeVectorStore();
   }
 
   /**
@@ -63,103 +146,378 @@ when appropriate.
     try {
       const documents = await storage.getDocuments();
       
-      // Store documents without embeddings for keyword search fallback
+      // Reuse vectors persisted by a previous run; only new or changed documents are embedded
+      await embeddingIndex.load(embeddingProvider.name, embeddingProvider.dimensions);
+      
       for (const document of documents) {
-        // Add the document to the vector store without embeddings
-        // We'll use a fallback search method when embeddings aren't available
-        vectorStore.addDocumentWithoutEmbedding(document);
+        await this.indexDocument(document);
       }
       
-      console.log(`Document store initialized with ${documents.length} documents`);
+      // Also drops vectors of documents deleted or edited while the server was down
+      await this.pruneAndSaveIndex();
+      
+      console.log(`Document store initialized with ${documents.length} documents (${embeddingProvider.name})`);
     } catch (error) {
       console.error("Failed to initialize document store:", error);
     }
   }
 
   /**
-   * Process a user query and generate a response with relevant sources
+   * Add newly created documents to the vector store and persist their embeddings
+   */
+  async indexDocuments(documents: Document[]): Promise<void> {
+    await this.ready;
+    for (const document of documents) {
+      await this.indexDocument(document);
+    }
+    
+    await this.pruneAndSaveIndex();
+  }
+
+  /**
+   * Replace a changed document's passages in the vector store
+   */
+  async reindexDocument(document: Document): Promise<void> {
+    await this.ready;
+    vectorStore.removeDocument(document.id);
+    this.passageHashes.delete(document.id);
+    scriptureService.removeDocument(document.id);
+    catechismService.removeDocument(document.id);
+    await this.indexDocuments([document]);
+  }
+
+  /**
+   * Drop a deleted document from the vector store and its vectors from the embedding index
+   */
+  async removeDocument(documentId: number): Promise<void> {
+    await this.ready;
+    vectorStore.removeDocument(documentId);
+    this.passageHashes.delete(documentId);
+    scriptureService.removeDocument(documentId);
+    catechismService.removeDocument(documentId);
+    await this.pruneAndSaveIndex();
+  }
+
+  /**
+   * Rebuild the whole vector store from storage, e.g. after documents were changed
+   * directly in the database
+   */
+  async rebuildIndex(): Promise<number> {
+    await this.ready;
+    const documents = await storage.getDocuments();
+    
+    vectorStore.clear();
+    this.passageHashes.clear();
+    scriptureService.clearDocuments();
+    catechismService.clearDocuments();
+    await this.indexDocuments(documents);
+    
+    return documents.length;
+  }
+
+  /**
+   * Split a document into passages, embed each one (or reuse its persisted vector)
+   * and add them to the vector store
+   */
+  private async indexDocument(document: Document): Promise<void> {
+    const passages = [];
+    const hashes: string[] = [];
+    
+    for (const passage of chunkDocument(document)) {
+      const text = `${document.title}\n${passage.section || ''}\n${passage.content}`;
+      const hash = contentHash(text);
+      
+      let vector = embeddingIndex.get(hash);
+      if (!vector) {
+        vector = await embeddingProvider.embed(text);
+        embeddingIndex.set(hash, vector);
+      }
+      
+      passages.push({ passage, vector });
+      hashes.push(hash);
+    }
+    
+    vectorStore.addDocument(document, passages);
+    this.passageHashes.set(document.id, hashes);
+    // Stored Bible chapters and Catechism paragraphs are also where cited ones are quoted from
+    scriptureService.addDocument(document);
+    catechismService.addDocument(document);
+  }
+
+  /**
+   * Keep only the vectors of passages still in the vector store, and persist the index
+   */
+  private async pruneAndSaveIndex(): Promise<void> {
+    const inUse = new Set(Array.from(this.passageHashes.values()).flat());
+    embeddingIndex.retain(inUse);
+    await embeddingIndex.save(embeddingProvider.name, embeddingProvider.dimensions);
+  }
+
+  /**
+   * Process a user query and generate a response with relevant sources, using the chat's
+   * model and prompt profile
    */
   async processQuery(
     chatId: number,
-    query: string, 
-    conversationHistory: MessageWithRole[] = []
-  ): Promise<{ content: string; sources: SourceReference[] }> {
+    query: string,
+    settings: AnswerSettings
+  ): Promise<QueryResult> {
     try {
-      // Search for relevant documents using keyword search
-      const relevantSources = vectorStore.searchByKeywords(query, 3);
-      
-      // Prepare context with relevant documents - truncate content if too long
-      // to reduce token usage when sending to the LLM
-      const contextStr = relevantSources
-        .map(doc => {
-          // Limit content length to reduce token usage (approx 1000 chars)
-          const content = doc.content || '';
-          const truncatedContent = content.length > 1000 
-            ? content.substring(0, 1000) + "..." 
-            : content;
-            
-          // Get document metadata for more specific citation information
-          const document = vectorStore.getDocumentById(doc.id);
-          let metadataStr = '';
-          
-          if (document?.metadata) {
-            // Format metadata differently based on document category
-            if (doc.category === 'Catechism') {
-              metadataStr = `\nSection: ${document.metadata.section || ''}\nParagraphs: ${document.metadata.paragraphs || ''}\nYear: ${document.metadata.year || ''}`;
-            } else if (doc.category === 'Council Documents') {
-              metadataStr = `\nDocument: ${document.metadata.document || ''}\nType: ${document.metadata.type || ''}\nYear: ${document.metadata.year || ''}`;
-            } else if (doc.category === 'Encyclicals') {
-              metadataStr = `\nPope: ${document.metadata.pope || ''}\nYear: ${document.metadata.year || ''}\nType: ${document.metadata.type || ''}`;
-            } else if (doc.category === 'Saints') {
-              metadataStr = `\nLifespan: ${document.metadata.lifespan || ''}\nFeast Day: ${document.metadata.feast || ''}\nTitle: ${document.metadata.title || ''}`;
-            } else if (doc.category === 'Scripture') {
-              metadataStr = `\nTestament: ${document.metadata.testament || ''}\nBooks: ${document.metadata.books || ''}\nType: ${document.metadata.type || ''}`;
-            }
-          }
-          
-          return `Document: ${doc.title}\nContent: ${truncatedContent}\nSource: ${doc.source}\nCategory: ${doc.category || ''}${metadataStr}\n`;
-        })
-        .join("\n");
-      
-      // Limit conversation history to recent messages to reduce token usage
-      // Only include the last 5 messages
-      const limitedHistory = conversationHistory.slice(-5);
-      
-      // Prepare messages for LLM
-      const messages: MessageWithRole[] = [
-        { role: "system", content: this.systemPrompt + "\n\nRelevant context:\n" + contextStr },
-        ...limitedHistory,
-        { role: "user", content: query }
-      ];
-      
-      // Get response from Groq
-      const response = await groqService.getChatCompletion(messages, 0.5, 1500);
-      
-      // Save the user message and response to storage
-      await storage.createMessage({
-        chatId,
-        role: "user",
-        content: query,
-        sources: null
-      });
-      
-      await storage.createMessage({
-        chatId,
-        role: "assistant",
-        content: response,
-        sources: relevantSources
-      });
+      const conversationHistory = await this.getPromptHistory(chatId);
+      const { language } = detectLanguage(query, settings.languageHint);
+      const searchQuery = await this.rewriteQuery(query, conversationHistory, language, settings.model.id);
+      const { messages, sources, breakdown } = await this.buildPrompt(
+        query, conversationHistory, searchQuery.query, settings, language
+      );
+      const llm = this.llm.forModel(settings.model.id);
+      
+      // Get response from the LLM, unless the same prompt was answered with the same sources
+      const cacheKey = completionCache.key(messages, sources, llm.name, 0.5);
+      let response = completionCache.get(cacheKey);
+      if (response === undefined) {
+        response = await llm.getChatCompletion(messages, 0.5, breakdown.answerTokens);
+        completionCache.set(cacheKey, response);
+      }
+      const finalized = this.finalizeResponse(response, sources, breakdown, settings, language);
+      const { content, metadata } = finalized;
+      
+      await this.saveExchange(chatId, query, content, finalized.sources, searchQuery, metadata);
       
       return { 
-        content: response, 
-        sources: relevantSources 
+        content, 
+        sources: finalized.sources,
+        metadata
       };
     } catch (error) {
       console.error("Error processing query:", error);
       throw error;
     }
   }
+
+  /**
+   * Process a user query, passing each content delta to `onToken` as the model generates it.
+   * Resolves with the full response once the stream completes and the exchange is saved.
+   */
+  async processQueryStream(
+    chatId: number,
+    query: string,
+    settings: AnswerSettings,
+    onToken: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<QueryResult> {
+    try {
+      const conversationHistory = await this.getPromptHistory(chatId);
+      const { language } = detectLanguage(query, settings.languageHint);
+      const searchQuery = await this.rewriteQuery(query, conversationHistory, language, settings.model.id);
+      const { messages, sources, breakdown } = await this.buildPrompt(
+        query, conversationHistory, searchQuery.query, settings, language
+      );
+      const llm = this.llm.forModel(settings.model.id);
+      
+      const cacheKey = completionCache.key(messages, sources, llm.name, 0.5);
+      const cached = completionCache.get(cacheKey);
+      
+      let response = "";
+      if (cached !== undefined) {
+        response = cached;
+        onToken(cached);
+      } else {
+        for await (const delta of llm.streamChatCompletion(messages, 0.5, breakdown.answerTokens, signal)) {
+          response += delta;
+          onToken(delta);
+        }
+        completionCache.set(cacheKey, response);
+      }
+      
+      // The saved text can differ from what was streamed: invalid markers and stripped citations are removed
+      const finalized = this.finalizeResponse(response, sources, breakdown, settings, language);
+      const { content, metadata } = finalized;
+      
+      await this.saveExchange(chatId, query, content, finalized.sources, searchQuery, metadata);
+      
+      return {
+        content,
+        sources: finalized.sources,
+        metadata
+      };
+    } catch (error) {
+      console.error("Error processing streamed query:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the answer's "[n]" source markers and check its citations against the
+   * retrieved sources, producing the content, sources and metadata that are saved.
+   * Verses the answer cites are attached after the sources it was given, with their exact text.
+   */
+  private finalizeResponse(
+    response: string,
+    sources: SourceReference[],
+    breakdown: TokenBreakdown,
+    settings: AnswerSettings,
+    language: LanguageCode
+  ): { content: string; sources: SourceReference[]; metadata: QueryResult["metadata"] } {
+    const { content: marked, citedSources } = resolveSourceMarkers(response, sources.length);
+    const tokens = { ...breakdown, completion: countTokens(response) };
+    const producedBy = { model: settings.model.id, profile: settings.profile.id, language };
+    
+    if (!citationVerifier.enabled) {
+      const withVerses = [...sources, ...scriptureService.sourcesIn(marked, sources)];
+      return { content: marked, sources: withVerses, metadata: { citedSources, tokens, ...producedBy } };
+    }
+    
+    const { content, report } = citationVerifier.verify(marked, sources);
+    
+    if (report.unverified > 0) {
+      const unverified = report.citations.filter(citation => !citation.verified).map(citation => citation.text);
+      console.log(`[RAGService] ${report.unverified} unverified citation(s)${report.stripped ? " stripped" : ""}: ${unverified.join("; ")}`);
+    }
+    
+    // Checked first, so a verse counts as verified only if the model was given it
+    const withVerses = [...sources, ...scriptureService.sourcesIn(content, sources)];
+    return { content, sources: withVerses, metadata: { citations: report, citedSources, tokens, ...producedBy } };
+  }
+
+  /**
+   * The most recent messages of a chat, as prompt history. The context builder trims this
+   * further to fit the token budget; the full conversation stays in storage.
+   */
+  private async getPromptHistory(chatId: number): Promise<MessageWithRole[]> {
+    const { messages } = await storage.getMessagesPage(chatId, { limit: this.PROMPT_HISTORY_MESSAGES });
+    
+    return messages.map(message => ({
+      role: message.role as MessageWithRole["role"],
+      content: message.content
+    }));
+  }
+
+  /**
+   * Turn a follow-up question into a standalone search query using the conversation so far,
+   * in English when the question is in another language. The chat's model does the rewriting.
+   */
+  private async rewriteQuery(
+    query: string,
+    conversationHistory: MessageWithRole[],
+    language: LanguageCode,
+    model: string
+  ): Promise<RewrittenQuery> {
+    const rewritten = await queryRewriter.rewrite(query, conversationHistory, language, model);
+    
+    if (rewritten.method !== "none") {
+      console.log(`[RAGService] Rewrote ${language === "en" ? "follow-up" : `${LANGUAGE_NAMES[language]} question`} (${rewritten.method}): "${query}" -> "${rewritten.query}"`);
+    }
+    
+    return rewritten;
+  }
+
+  /**
+   * Retrieve sources for `searchQuery` and assemble the messages sent to the LLM,
+   * which still sees the user's original question. Sources and history are fitted to
+   * the model's token budget, so fewer sources may come back than were retrieved.
+   */
+  private async buildPrompt(
+    query: string,
+    conversationHistory: MessageWithRole[],
+    searchQuery: string,
+    { model, profile }: AnswerSettings,
+    language: LanguageCode
+  ): Promise<AssembledContext> {
+    await this.ready;
+    
+    // Fuse keyword and vector search; weak matches are dropped, so this may be empty.
+    // For other languages the original question is searched too, to find translated documents.
+    const retrieved = await hybridRetriever.retrieve(
+      language === "en" ? searchQuery : [searchQuery, query],
+      { ...profile.retrieval, language }
+    );
+    // Catechism paragraphs cited by number ("CCC 1730") are looked up too, and retrieved
+    // passages of those same paragraphs are left out
+    const paragraphs = catechismService.sourcesIn(query);
+    const cited = new Set(paragraphs.map(source => catechismService.passageMetadata(source)?.paragraph));
+    const others = retrieved.filter(source =>
+      !source.passageId || !cited.has(vectorStore.getPassageById(source.passageId)?.metadata?.paragraph)
+    );
+    // Verses and paragraphs the question cites come first, with their exact text
+    const relevantSources = [...scriptureService.sourcesIn(query), ...paragraphs, ...others];
+    
+    // Numbered so the answer can mark which document each statement comes from
+    const formatSource = (doc: SourceReference, number: number): string => {
+      // Get passage metadata (parent document metadata plus passage anchors)
+      // for more specific citation information
+      const passage = doc.passageId ? vectorStore.getPassageById(doc.passageId) : undefined;
+      const document = passage ?? vectorStore.getDocumentById(doc.id);
+      let metadataStr = doc.section ? `\nPassage: ${doc.section}` : '';
+      
+      if (document?.metadata) {
+        // Format metadata differently based on document category
+        if (doc.category === 'Catechism') {
+          metadataStr += `\nSection: ${document.metadata.section || ''}\nParagraphs: ${document.metadata.paragraph || document.metadata.paragraphs || ''}\nYear: ${document.metadata.year || ''}`;
+        } else if (doc.category === 'Council Documents') {
+          metadataStr += `\nDocument: ${document.metadata.document || ''}\nType: ${document.metadata.type || ''}\nYear: ${document.metadata.year || ''}`;
+        } else if (doc.category === 'Encyclicals') {
+          metadataStr += `\nPope: ${document.metadata.pope || ''}\nYear: ${document.metadata.year || ''}\nType: ${document.metadata.type || ''}`;
+        } else if (doc.category === 'Saints') {
+          metadataStr += `\nLifespan: ${document.metadata.lifespan || ''}\nFeast Day: ${document.metadata.feast || ''}\nTitle: ${document.metadata.title || ''}`;
+        } else if (doc.category === 'Scripture') {
+          metadataStr += `\nTestament: ${document.metadata.testament || ''}\nBooks: ${document.metadata.books || ''}\nType: ${document.metadata.type || ''}`;
+        }
+      }
+      
+      return `[${number}] Document: ${doc.title}\nContent: ${doc.content || ''}\nSource: ${doc.source}\nCategory: ${doc.category || ''}${metadataStr}\n`;
+    };
+    
+    return contextBuilder.build({
+      systemPrompt: this.systemPromptFor(profile, language),
+      contextHeader: "\n\nRelevant context:\n",
+      // Tell the model explicitly when the knowledge base had nothing relevant,
+      // so it doesn't cite sources it was never given
+      emptyContextNote: "\n\nRelevant context:\nNo documents in the knowledge base were relevant to this question. " +
+        "Say that no specific source was found, answer only from general Catholic teaching, " +
+        "and do not cite any document, paragraph or section numbers.",
+      sources: relevantSources,
+      formatSource,
+      history: conversationHistory,
+      query
+    }, {
+      contextTokens: model.contextTokens,
+      answerTokens: Math.min(
+        contextBuilder.answerTokens,
+        model.maxAnswerTokens,
+        ANSWER_LENGTHS[profile.answerLength].tokens
+      )
+    });
+  }
+
+  /**
+   * Save the user message and assistant response to storage.
+   * The user message records the query that was actually searched for.
+   */
+  private async saveExchange(
+    chatId: number,
+    query: string,
+    response: string,
+    sources: SourceReference[],
+    searchQuery: RewrittenQuery,
+    responseMetadata: QueryResult["metadata"]
+  ): Promise<void> {
+    await storage.createMessage({
+      chatId,
+      role: "user",
+      content: query,
+      sources: null,
+      metadata: { searchQuery: searchQuery.query, queryRewrite: searchQuery.method, language: responseMetadata.language }
+    });
+    
+    await storage.createMessage({
+      chatId,
+      role: "assistant",
+      content: response,
+      sources,
+      metadata: responseMetadata
+    });
+  }
 }
 
 // Export a singleton instance
-export const ragService = new RAGService();
+export const ragService = new RAGService(llmProvider);
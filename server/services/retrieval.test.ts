@@ -0,0 +1,142 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { HashingEmbeddingProvider } from "./embeddings";
+import { HybridRetriever } from "./retrieval";
+import { VectorStore, vectorStore } from "./vectorStore";
+import { chunkDocument } from "./chunking";
+import type { ExplicitDocument as Document } from "../types";
+
+const documents: Document[] = [
+  {
+    id: 1,
+    title: "The Eucharist",
+    content: "The Eucharist is the source and summit of the Christian life. In the Eucharist the bread and wine become the Body and Blood of Christ.",
+    source: "Catechism",
+    category: "Theology",
+    metadata: null
+  },
+  {
+    id: 2,
+    title: "Prayer",
+    content: "Prayer is the raising of one's mind and heart to God. Christians pray in praise, thanksgiving, petition and intercession.",
+    source: "Catechism",
+    category: "Theology",
+    metadata: null
+  },
+  {
+    id: 3,
+    title: "Baptism",
+    content: "Baptism is the gateway to life in the Spirit. Through Baptism we are freed from sin and reborn as children of God.",
+    source: "Catechism",
+    category: "Theology",
+    metadata: null
+  }
+];
+
+const embeddings = new HashingEmbeddingProvider(512);
+
+async function index(store: VectorStore): Promise<void> {
+  for (const document of documents) {
+    const passages = [];
+    for (const passage of chunkDocument(document)) {
+      passages.push({ passage, vector: await embeddings.embed(`${document.title}\n${passage.content}`) });
+    }
+    store.addDocument(document, passages);
+  }
+}
+
+describe("HashingEmbeddingProvider", () => {
+  it("embeds the same text to the same unit vector", async () => {
+    const first = await embeddings.embed("The source and summit of the Christian life");
+    const second = await new HashingEmbeddingProvider(512).embed("The source and summit of the Christian life");
+
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(512);
+    expect(Math.hypot(...first)).toBeCloseTo(1, 10);
+  });
+});
+
+describe("VectorStore", () => {
+  it("finds nothing by similarity when no passage has a vector", () => {
+    const store = new VectorStore();
+    store.addDocument(documents[0], chunkDocument(documents[0]).map(passage => ({ passage })));
+
+    expect(store.searchSimilarDocuments(new Array(512).fill(0.1))).toEqual([]);
+    expect(store.searchByKeywords("")).toEqual([]);
+    expect(store.searchByKeywords("Eucharist").map(hit => hit.id)).toEqual([1]);
+  });
+
+  it("ranks passages by cosine similarity to the query", async () => {
+    const store = new VectorStore();
+    await index(store);
+
+    const hits = store.searchSimilarDocuments(await embeddings.embed("How do Christians pray to God?"), 3);
+    expect(hits[0].id).toBe(2);
+    expect(hits[0].relevanceScore!).toBeGreaterThan(hits[1].relevanceScore!);
+  });
+
+  it("replaces a document added again instead of keeping both", async () => {
+    const store = new VectorStore();
+    await index(store);
+    await index(store);
+
+    expect(store.searchByKeywords("Eucharist").map(hit => hit.id)).toEqual([1]);
+    expect(store.searchSimilarDocuments(await embeddings.embed("Eucharist"), 5).filter(hit => hit.id === 1)).toHaveLength(1);
+  });
+
+  it("ranks keyword matches with BM25", () => {
+    const store = new VectorStore();
+    const add = (id: number, content: string) => {
+      const document = { ...documents[0], id, title: `Document ${id}`, content };
+      store.addDocument(document, chunkDocument(document).map(passage => ({ passage })));
+    };
+    add(1, "Mercy and grace. Grace upon grace.");
+    add(2, "Mercy endures for ever.");
+    add(3, "Mercy and truth have met together; justice and peace have kissed.");
+
+    // The rarer term outweighs the one every passage shares
+    const hits = store.searchByKeywords("grace and mercy");
+    expect(hits.map(hit => hit.id)).toEqual([1, 2, 3]);
+    // With the same term frequency, the shorter passage ranks higher
+    expect(store.searchByKeywords("mercy").map(hit => hit.id)).toEqual([2, 1, 3]);
+    // Scores are normalized against the best score the query could reach
+    hits.forEach(hit => expect(hit.relevanceScore).toBeGreaterThan(0));
+    hits.forEach(hit => expect(hit.relevanceScore).toBeLessThan(1));
+    // Queries are stemmed like the passages
+    expect(store.searchByKeywords("graces").map(hit => hit.id)).toEqual([1]);
+  });
+
+  it("forgets a removed document", async () => {
+    const store = new VectorStore();
+    await index(store);
+    store.removeDocument(1);
+
+    expect(store.searchByKeywords("Eucharist")).toEqual([]);
+    expect(store.searchSimilarDocuments(await embeddings.embed("Eucharist"), 3).map(hit => hit.id)).not.toContain(1);
+  });
+});
+
+describe("HybridRetriever", () => {
+  const retriever = new HybridRetriever({ limit: 2, minKeywordScore: 0.1, minVectorScore: 0.2 });
+
+  beforeAll(async () => {
+    vectorStore.clear();
+    await index(vectorStore);
+  });
+
+  it("retrieves the relevant passage first", async () => {
+    const sources = await retriever.retrieve("What happens in Baptism?");
+    expect(sources[0]).toMatchObject({ id: 3, title: "Baptism" });
+  });
+
+  it("returns the same sources for the same query every time", async () => {
+    const first = await retriever.retrieve("the Body and Blood of Christ");
+    const second = await retriever.retrieve("the Body and Blood of Christ");
+
+    expect(first.map(source => source.passageId)).toEqual(second.map(source => source.passageId));
+    expect(first[0].id).toBe(1);
+  });
+
+  it("returns nothing when no passage is relevant", async () => {
+    expect(await retriever.retrieve("quantum chromodynamics")).toEqual([]);
+  });
+});
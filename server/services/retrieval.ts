@@ -0,0 +1,128 @@
+import { SourceReference } from "@shared/schema";
+import { vectorStore } from "./vectorStore";
+import { embeddingProvider } from "./embeddings";
+
+export interface RetrievalOptions {
+  // Maximum number of sources returned
+  limit: number;
+  // Keyword hits below this normalized BM25 score are discarded before fusion
+  minKeywordScore: number;
+  // Vector hits below this cosine similarity are discarded before fusion
+  minVectorScore: number;
+}
+
+// Per-request adjustments, e.g. from the chat's prompt profile
+export interface RetrievalPreferences {
+  limit?: number;
+  // Sources from these categories are ranked above equally relevant ones from others
+  preferredCategories?: string[];
+  // The user's language: translations into it are ranked above equally relevant sources,
+  // and translations into other languages are left out. Untagged documents are English.
+  language?: string;
+}
+
+/**
+ * Hybrid retrieval: runs keyword (BM25) and vector search, drops weak hits from each
+ * list, and merges the survivors with reciprocal-rank fusion.
+ * An empty result means nothing in the knowledge base was relevant to the query.
+ */
+export class HybridRetriever {
+  private options: RetrievalOptions;
+
+  // Damping constant from the original RRF paper; higher values flatten rank differences
+  private readonly RRF_K = 60;
+  // How many hits to take from each retriever before fusing
+  private readonly CANDIDATES_PER_RETRIEVER = 10;
+  // Fused-score multipliers for preferred categories and the user's language: enough to
+  // reorder close matches, not to lift a weak match over a much better one
+  private readonly PREFERRED_CATEGORY_BOOST = 1.3;
+  private readonly PREFERRED_LANGUAGE_BOOST = 1.3;
+
+  constructor(options: RetrievalOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Retrieve the most relevant sources for a query, ordered by fused rank. Several
+   * phrasings of the same question, e.g. its English translation and the original,
+   * are searched separately and fused together.
+   * Each source's `relevanceScore` is its best score from any retriever.
+   */
+  async retrieve(query: string | string[], preferences: RetrievalPreferences = {}): Promise<SourceReference[]> {
+    const queries = Array.from(new Set(Array.isArray(query) ? query : [query]));
+    const limit = preferences.limit ?? this.options.limit;
+    const preferred = new Set(preferences.preferredCategories ?? []);
+    const language = preferences.language ?? "en";
+
+    const rankings: SourceReference[][] = [];
+    for (const text of queries) {
+      rankings.push(vectorStore
+        .searchByKeywords(text, this.CANDIDATES_PER_RETRIEVER)
+        .filter(hit => (hit.relevanceScore ?? 0) >= this.options.minKeywordScore));
+
+      const queryVector = await embeddingProvider.embed(text);
+      rankings.push(vectorStore
+        .searchSimilarDocuments(queryVector, this.CANDIDATES_PER_RETRIEVER)
+        .filter(hit => (hit.relevanceScore ?? 0) >= this.options.minVectorScore));
+    }
+
+    // Keyed by passage, so two passages of the same document are separate sources
+    const fused = new Map<string, { source: SourceReference; rrfScore: number }>();
+
+    for (const hits of rankings) {
+      hits.forEach((hit, rank) => {
+        const contribution = 1 / (this.RRF_K + rank + 1);
+        const key = hit.passageId ?? String(hit.id);
+        const existing = fused.get(key);
+
+        if (existing) {
+          existing.rrfScore += contribution;
+          existing.source.relevanceScore = Math.max(
+            existing.source.relevanceScore ?? 0,
+            hit.relevanceScore ?? 0
+          );
+        } else {
+          fused.set(key, { source: { ...hit }, rrfScore: contribution });
+        }
+      });
+    }
+
+    for (const entry of Array.from(fused.values())) {
+      const sourceLanguage = this.documentLanguage(entry.source.id);
+      if (sourceLanguage !== "en") {
+        entry.source.language = sourceLanguage;
+      }
+
+      if (entry.source.category && preferred.has(entry.source.category)) {
+        entry.rrfScore *= this.PREFERRED_CATEGORY_BOOST;
+      }
+      if (sourceLanguage === language && language !== "en") {
+        entry.rrfScore *= this.PREFERRED_LANGUAGE_BOOST;
+      }
+    }
+
+    return Array.from(fused.values())
+      .filter(({ source }) => (source.language ?? "en") === "en" || source.language === language)
+      .sort((a, b) => b.rrfScore - a.rrfScore)
+      .slice(0, limit)
+      .map(({ source }) => source);
+  }
+
+  // A document's `language` metadata, lowercased; documents without one are English
+  private documentLanguage(documentId: number): string {
+    const language = vectorStore.getDocumentById(documentId)?.metadata?.language;
+    return typeof language === "string" && language.trim() ? language.trim().toLowerCase() : "en";
+  }
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  return value !== undefined && value !== "" ? Number(value) : fallback;
+}
+
+// Export a singleton instance
+export const hybridRetriever = new HybridRetriever({
+  limit: numberFromEnv("RETRIEVAL_LIMIT", 3),
+  minKeywordScore: numberFromEnv("RETRIEVAL_MIN_KEYWORD_SCORE", 0.1),
+  minVectorScore: numberFromEnv("RETRIEVAL_MIN_VECTOR_SCORE", 0.2),
+});
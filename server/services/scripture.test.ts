@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { ScriptureService, type BibleText } from "./scripture";
+import { parseBible } from "./documentParser";
+import type { ExplicitDocument as Document } from "../types";
+
+const bundled: BibleText = {
+  "John": {
+    "3": { "16": "For God so loved the world, as to give his only begotten Son." }
+  }
+};
+
+const matthew: BibleText = {
+  "Mt": {
+    "5": {
+      "3": "Blessed are the poor in spirit: for theirs is the kingdom of heaven.",
+      "4": "Blessed are the meek: for they shall possess the land.",
+      "5": "Blessed are they that mourn: for they shall be comforted."
+    },
+    "6": {
+      "9": "Thus therefore shall you pray: Our Father who art in heaven, hallowed be thy name."
+    }
+  }
+};
+
+// Ingest a Bible file the way `npm run ingest -- --bible` does, numbering the stored documents from `firstId`
+function ingest(bible: BibleText, translation: string, firstId = 1): Document[] {
+  const { documents, errors } = parseBible(JSON.stringify(bible), translation);
+  expect(errors).toEqual([]);
+  return documents.map((document, i) => ({ ...document, id: firstId + i, metadata: document.metadata ?? null }));
+}
+
+describe("parseBible", () => {
+  it("makes one Scripture document per chapter", () => {
+    const documents = ingest(matthew, "Douay-Rheims");
+
+    expect(documents.map(d => d.title)).toEqual(["Matthew 5", "Matthew 6"]);
+    expect(documents[0]).toMatchObject({
+      source: "Douay-Rheims Bible",
+      category: "Scripture",
+      metadata: { book: "Matthew", chapter: 5, translation: "Douay-Rheims" }
+    });
+    expect(documents[0].content.split("\n")).toEqual([
+      "5:3 Blessed are the poor in spirit: for theirs is the kingdom of heaven.",
+      "5:4 Blessed are the meek: for they shall possess the land.",
+      "5:5 Blessed are they that mourn: for they shall be comforted."
+    ]);
+  });
+
+  it("reports unknown books and invalid JSON", () => {
+    expect(parseBible(JSON.stringify({ "Enoch": { "1": { "1": "..." } } }), "Douay-Rheims").errors[0].message)
+      .toBe('Unknown book "Enoch"');
+    expect(parseBible("[1, 2]", "Douay-Rheims").errors).toHaveLength(1);
+    expect(parseBible("{", "Douay-Rheims").errors).toHaveLength(1);
+  });
+
+  it("reports books, chapters and verses that aren't objects of text", () => {
+    const { documents, errors } = parseBible(JSON.stringify({
+      "Genesis": null,
+      "Exodus": "In the beginning",
+      "Mt": { "5": null, "6": "Our Father", "7": { "1": 7 }, "8": { "1": "And when he was come down from the mountain..." } }
+    }), "Douay-Rheims");
+
+    expect(documents.map(d => d.title)).toEqual(["Matthew 8"]);
+    expect(errors.map(e => e.message)).toEqual([
+      "Genesis: expected an object of chapters",
+      "Exodus: expected an object of chapters",
+      "Mt 5: expected a numbered chapter with an object of verses",
+      "Mt 6: expected a numbered chapter with an object of verses",
+      "Mt 7:1: expected a numbered verse with its text"
+    ]);
+  });
+});
+
+describe("ScriptureService", () => {
+  it("looks up the bundled text", () => {
+    const scripture = new ScriptureService("Douay-Rheims", bundled);
+
+    expect(scripture.lookup("Jn 3:16").passages[0]).toMatchObject({
+      reference: "John 3:16",
+      text: "For God so loved the world, as to give his only begotten Son."
+    });
+    expect(scripture.lookup("Mt 5:3").missing).toEqual(["Matthew 5:3"]);
+  });
+
+  it("serves the verses of ingested chapters", () => {
+    const scripture = new ScriptureService("Douay-Rheims", bundled);
+    ingest(matthew, "Douay-Rheims").forEach(document => scripture.addDocument(document));
+
+    const lookup = scripture.lookup("Mt 5:3-4; Jn 3:16");
+    expect(lookup.passages.map(p => p.reference)).toEqual(["Matthew 5:3-4", "John 3:16"]);
+    expect(lookup.passages[0].text).toBe(
+      "3 Blessed are the poor in spirit: for theirs is the kingdom of heaven. 4 Blessed are the meek: for they shall possess the land."
+    );
+    expect(scripture.lookup("Matthew 5").passages[0]).toMatchObject({ verseStart: 3, verseEnd: 5 });
+  });
+
+  it("splits a range across chapters into one passage per chapter", () => {
+    const scripture = new ScriptureService("Douay-Rheims", bundled);
+    ingest(matthew, "Douay-Rheims").forEach(document => scripture.addDocument(document));
+
+    const lookup = scripture.lookup("Mt 5:5-6:9");
+    expect(lookup.passages.map(p => p.reference)).toEqual(["Matthew 5:5", "Matthew 6:9"]);
+    expect(lookup.passages[1].verses.map(v => v.verse)).toEqual([9]);
+  });
+
+  it("ignores documents in other translations and other categories", () => {
+    const scripture = new ScriptureService("Douay-Rheims", bundled);
+    ingest(matthew, "Revised Standard Version").forEach(document => scripture.addDocument(document));
+    scripture.addDocument({ ...ingest(matthew, "Douay-Rheims", 10)[0], category: "Saints" });
+
+    expect(scripture.lookup("Mt 5:3").passages).toEqual([]);
+  });
+
+  it("drops the verses of removed documents", () => {
+    const scripture = new ScriptureService("Douay-Rheims", bundled);
+    const [chapter5, chapter6] = ingest(matthew, "douay rheims");
+    scripture.addDocument(chapter5);
+    scripture.addDocument(chapter6);
+
+    scripture.removeDocument(chapter5.id);
+    expect(scripture.lookup("Mt 5:3").passages).toEqual([]);
+    expect(scripture.lookup("Mt 6:9").passages).toHaveLength(1);
+
+    scripture.clearDocuments();
+    expect(scripture.lookup("Mt 6:9").passages).toEqual([]);
+    expect(scripture.lookup("Jn 3:16").passages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,265 @@
+import fs from "fs";
+import { SourceReference } from "@shared/schema";
+import DOUAY_RHEIMS from "../corpus/douay-rheims.json";
+import { parseVerses } from "./chunking";
+import {
+  bookName,
+  findScriptureReferences,
+  formatScriptureReference,
+  parseScriptureReferences,
+  type ScriptureReference
+} from "./scriptureReference";
+import { ExplicitDocument as Document } from "../types";
+
+// Book -> chapter -> verse -> text, as in server/corpus/douay-rheims.json or a SCRIPTURE_PATH file
+export type BibleText = Record<string, Record<string, Record<string, string>>>;
+
+// Chapter -> verse -> text of one book
+type BookVerses = Map<number, Map<number, string>>;
+
+export interface ScriptureVerse {
+  verse: number;
+  text: string;
+}
+
+/**
+ * The verses of one chapter that a reference asked for
+ */
+export interface ScripturePassage {
+  // e.g. "Matthew 5:44-45", or "Matthew 5" for a whole chapter
+  reference: string;
+  book: string;
+  chapter: number;
+  // The verses asked for; for a whole chapter, the first and last found
+  verseStart: number;
+  verseEnd: number;
+  // The verses found, in order
+  verses: ScriptureVerse[];
+  // The verses joined, each prefixed with its number when there are several
+  text: string;
+}
+
+export interface ScriptureLookup {
+  passages: ScripturePassage[];
+  // References (one per chapter) with no verses in the bundled text or stored documents
+  missing: string[];
+}
+
+// Passage ids of looked-up verses, which don't belong to a stored document
+const SCRIPTURE_PASSAGE_PREFIX = "scripture:";
+
+/**
+ * Looks up the exact text of Scripture references in one translation, so cited verses
+ * can be quoted rather than paraphrased from retrieval summaries. Verses come from the
+ * bundled text and from stored Scripture documents in the same translation, which is how
+ * the complete Bible is loaded (`npm run ingest -- --bible <translation>`).
+ */
+export class ScriptureService {
+  readonly translation: string;
+  private books = new Map<string, BookVerses>();
+  // Verses of stored documents by book and document id; they take precedence over the bundled text
+  private documentBooks = new Map<string, Map<number, BookVerses>>();
+
+  constructor(translation: string, text: BibleText) {
+    this.translation = translation;
+
+    for (const [name, chapters] of Object.entries(text)) {
+      const book = bookName(name);
+      if (!book) {
+        console.warn(`[Scripture] Skipping unknown book "${name}"`);
+        continue;
+      }
+
+      const byChapter: BookVerses = new Map();
+      for (const [chapter, verses] of Object.entries(chapters)) {
+        byChapter.set(Number(chapter), new Map(Object.entries(verses).map(([verse, text]) => [Number(verse), text])));
+      }
+      this.books.set(book, byChapter);
+    }
+  }
+
+  /**
+   * Serve the verses of a stored document when it is Scripture in this translation: "chapter:verse
+   * text" lines, with the book in `metadata.book` and the translation in `metadata.translation`.
+   * Other documents are ignored. A document added again replaces its earlier verses.
+   */
+  addDocument(document: Document): void {
+    const metadata: Record<string, any> = document.metadata || {};
+    const book = typeof metadata.book === "string" ? bookName(metadata.book) : undefined;
+    if (document.category !== "Scripture" || !book || !this.isTranslation(metadata.translation)) return;
+
+    const chapters: BookVerses = new Map();
+    for (const { chapter, verse, text } of parseVerses(document.content)) {
+      if (!chapters.has(chapter)) {
+        chapters.set(chapter, new Map());
+      }
+      chapters.get(chapter)!.set(verse, text);
+    }
+
+    this.removeDocument(document.id);
+    if (chapters.size === 0) return;
+
+    if (!this.documentBooks.has(book)) {
+      this.documentBooks.set(book, new Map());
+    }
+    this.documentBooks.get(book)!.set(document.id, chapters);
+  }
+
+  /**
+   * Stop serving the verses of a deleted or edited document
+   */
+  removeDocument(documentId: number): void {
+    this.documentBooks.forEach(documents => documents.delete(documentId));
+  }
+
+  /**
+   * Forget the verses of every stored document, keeping the bundled text
+   */
+  clearDocuments(): void {
+    this.documentBooks.clear();
+  }
+
+  /**
+   * Look up a reference list such as "Mt 5:44-45; Jn 3:16".
+   * Throws ScriptureReferenceError when it can't be parsed.
+   */
+  lookup(text: string): ScriptureLookup {
+    const lookup: ScriptureLookup = { passages: [], missing: [] };
+
+    for (const reference of parseScriptureReferences(text)) {
+      const found = this.passagesFor(reference);
+      lookup.passages.push(...found.passages);
+      lookup.missing.push(...found.missing);
+    }
+
+    return lookup;
+  }
+
+  /**
+   * Sources with the exact text of the Scripture references in a question or answer,
+   * leaving out passages already among `existing`
+   */
+  sourcesIn(text: string, existing: SourceReference[] = []): SourceReference[] {
+    const seen = new Set(existing.map(source => source.passageId));
+    const sources: SourceReference[] = [];
+
+    for (const reference of findScriptureReferences(text)) {
+      for (const passage of this.passagesFor(reference).passages) {
+        const source = this.toSource(passage);
+        if (seen.has(source.passageId)) continue;
+
+        seen.add(source.passageId);
+        sources.push(source);
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * The book, chapter and verses of a source made by this service, in the shape of a
+   * Scripture passage's metadata; undefined for any other source
+   */
+  passageMetadata(source: SourceReference): Record<string, any> | undefined {
+    if (!source.passageId?.startsWith(SCRIPTURE_PASSAGE_PREFIX)) return undefined;
+
+    const [reference] = parseScriptureReferences(source.passageId.slice(SCRIPTURE_PASSAGE_PREFIX.length));
+    return {
+      book: reference.book,
+      chapter: reference.chapter,
+      verseStart: reference.verseStart,
+      verseEnd: reference.verseEnd
+    };
+  }
+
+  private toSource(passage: ScripturePassage): SourceReference {
+    const verses = formatScriptureReference({ ...passage, endChapter: passage.chapter });
+
+    return {
+      id: 0,
+      // The exact verses, so passageMetadata() can recover them for whole chapters too
+      passageId: `${SCRIPTURE_PASSAGE_PREFIX}${verses}`,
+      title: passage.reference,
+      content: passage.text,
+      source: `${this.translation} Bible`,
+      category: "Scripture",
+      section: passage.reference
+    };
+  }
+
+  // One passage per chapter the reference spans
+  private passagesFor(reference: ScriptureReference): ScriptureLookup {
+    const lookup: ScriptureLookup = { passages: [], missing: [] };
+
+    for (let chapter = reference.chapter; chapter <= reference.endChapter; chapter++) {
+      const verses = this.chapterVerses(reference.book, chapter);
+      const from = chapter === reference.chapter ? reference.verseStart : undefined;
+      const to = chapter === reference.endChapter ? reference.verseEnd : undefined;
+      // "Matthew 5", or the chapter in the middle of "Matthew 5:3-7:29"
+      const whole = from === undefined && to === undefined;
+
+      const found = Array.from(verses.entries())
+        .filter(([verse]) => verse >= (from ?? 1) && (to === undefined || verse <= to))
+        .sort(([a], [b]) => a - b)
+        .map(([verse, text]) => ({ verse, text }));
+
+      const verseStart = from ?? found[0]?.verse ?? 1;
+      const verseEnd = to ?? found[found.length - 1]?.verse ?? verseStart;
+      const label = whole
+        ? formatScriptureReference({ book: reference.book, chapter, endChapter: chapter })
+        : formatScriptureReference({ book: reference.book, chapter, verseStart, endChapter: chapter, verseEnd });
+
+      if (found.length === 0) {
+        lookup.missing.push(label);
+        continue;
+      }
+
+      lookup.passages.push({
+        reference: label,
+        book: reference.book,
+        chapter,
+        verseStart,
+        verseEnd,
+        verses: found,
+        text: found.length === 1 ? found[0].text : found.map(({ verse, text }) => `${verse} ${text}`).join(" ")
+      });
+    }
+
+    return lookup;
+  }
+
+  // A chapter's verses from the bundled text, overlaid with those of stored documents
+  private chapterVerses(book: string, chapter: number): Map<number, string> {
+    const verses = new Map(this.books.get(book)?.get(chapter) ?? []);
+
+    this.documentBooks.get(book)?.forEach(chapters => {
+      chapters.get(chapter)?.forEach((text, verse) => verses.set(verse, text));
+    });
+
+    return verses;
+  }
+
+  // "Douay-Rheims", "douay rheims" and "DOUAY_RHEIMS" name the same translation
+  private isTranslation(name: unknown): boolean {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+    return typeof name === "string" && normalize(name) === normalize(this.translation);
+  }
+}
+
+/**
+ * The bundled Douay-Rheims verses (Challoner revision, public domain; a selection of the verses
+ * most often cited in catechesis), or the complete text from SCRIPTURE_PATH
+ */
+function loadBibleText(path?: string): BibleText {
+  if (!path) return DOUAY_RHEIMS;
+
+  try {
+    return JSON.parse(fs.readFileSync(path, "utf-8"));
+  } catch (error) {
+    console.error(`[Scripture] Failed to load ${path}, using the bundled verses:`, error);
+    return DOUAY_RHEIMS;
+  }
+}
+
+// Export a singleton instance
+export const scriptureService = new ScriptureService("Douay-Rheims", loadBibleText(process.env.SCRIPTURE_PATH));
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  bookName,
+  findScriptureReferences,
+  formatScriptureReference,
+  parseScriptureReferences,
+  ScriptureReferenceError
+} from "./scriptureReference";
+
+describe("bookName", () => {
+  it.each([
+    ["Matthew", "Matthew"],
+    ["Mt", "Matthew"],
+    ["matt.", "Matthew"],
+    ["1Cor", "1 Corinthians"],
+    ["1 cor", "1 Corinthians"],
+    ["Apoc.", "Revelation"],
+    ["Canticle of Canticles", "Song of Songs"],
+    ["1 Paralipomenon", "1 Chronicles"],
+    ["Isaias", "Isaiah"],
+    ["Ecclesiasticus", "Sirach"]
+  ])("reads %s as %s", (alias, book) => {
+    expect(bookName(alias)).toBe(book);
+  });
+
+  it("doesn't know other names", () => {
+    expect(bookName("Gospel of Thomas")).toBeUndefined();
+  });
+});
+
+describe("parseScriptureReferences", () => {
+  it("reads single verses and verse ranges", () => {
+    expect(parseScriptureReferences("Jn 3:16")).toEqual([
+      { book: "John", chapter: 3, verseStart: 16, endChapter: 3, verseEnd: 16 }
+    ]);
+    expect(parseScriptureReferences("Matthew 5:44-45")).toEqual([
+      { book: "Matthew", chapter: 5, verseStart: 44, endChapter: 5, verseEnd: 45 }
+    ]);
+  });
+
+  it("reads whole chapters and chapter ranges", () => {
+    expect(parseScriptureReferences("Matthew 5")).toEqual([{ book: "Matthew", chapter: 5, endChapter: 5 }]);
+    expect(parseScriptureReferences("Matthew 5-7")).toEqual([{ book: "Matthew", chapter: 5, endChapter: 7 }]);
+  });
+
+  it("reads ranges across chapters", () => {
+    expect(parseScriptureReferences("Mt 5:3-7:29")).toEqual([
+      { book: "Matthew", chapter: 5, verseStart: 3, endChapter: 7, verseEnd: 29 }
+    ]);
+  });
+
+  it("continues the book and chapter through a list", () => {
+    expect(parseScriptureReferences("1 Cor 13:4-7, 13; Jn 3:16")).toEqual([
+      { book: "1 Corinthians", chapter: 13, verseStart: 4, endChapter: 13, verseEnd: 7 },
+      { book: "1 Corinthians", chapter: 13, verseStart: 13, endChapter: 13, verseEnd: 13 },
+      { book: "John", chapter: 3, verseStart: 16, endChapter: 3, verseEnd: 16 }
+    ]);
+    // After a semicolon a bare number is a chapter
+    expect(parseScriptureReferences("Ps 23; 51:3")).toEqual([
+      { book: "Psalms", chapter: 23, endChapter: 23 },
+      { book: "Psalms", chapter: 51, verseStart: 3, endChapter: 51, verseEnd: 3 }
+    ]);
+  });
+
+  it("rejects unknown books, backwards ranges and empty input", () => {
+    expect(() => parseScriptureReferences("Foo 1:1")).toThrow(ScriptureReferenceError);
+    expect(() => parseScriptureReferences("Jn 3:16-12")).toThrow(ScriptureReferenceError);
+    expect(() => parseScriptureReferences("  ")).toThrow(ScriptureReferenceError);
+  });
+});
+
+describe("findScriptureReferences", () => {
+  it("finds chapter:verse references in prose, without duplicates", () => {
+    const found = findScriptureReferences("As John 3:16 says, and Mt 5:44-45, 48; 6:9 teaches (see also Jn 3:16).");
+
+    expect(found.map(formatScriptureReference)).toEqual([
+      "John 3:16",
+      "Matthew 5:44-45",
+      "Matthew 5:48",
+      "Matthew 6:9"
+    ]);
+  });
+
+  it("leaves bare chapters, times and backwards ranges alone", () => {
+    expect(findScriptureReferences("Read Mark 5 before Mass, which is 5:30 today, not John 3:16-12.")).toEqual([]);
+  });
+});
+
+describe("formatScriptureReference", () => {
+  it.each([
+    "John 3:16",
+    "Matthew 5:44-45",
+    "Matthew 5:3-7:29",
+    "Matthew 5",
+    "Matthew 5-7"
+  ])("formats %s back to itself", text => {
+    expect(formatScriptureReference(parseScriptureReferences(text)[0])).toBe(text);
+  });
+});
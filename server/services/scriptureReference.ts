@@ -0,0 +1,227 @@
+/**
+ * Scripture references: the books of the Catholic canon with their usual abbreviations, and a
+ * parser for references such as "Mt 5:44-45; Jn 3:16", "1 Cor 13:4-7, 13" or "Matthew 5-7"
+ */
+
+// Books of the Catholic canon with common abbreviations (and Douay-Rheims names), mapped to their full names
+export const BIBLE_BOOKS: Record<string, string[]> = {
+  "Genesis": ["Gen", "Gn"], "Exodus": ["Exod", "Ex"], "Leviticus": ["Lev", "Lv"],
+  "Numbers": ["Num", "Nm"], "Deuteronomy": ["Deut", "Dt"], "Joshua": ["Josh", "Jos", "Josue"],
+  "Judges": ["Judg", "Jgs"], "Ruth": ["Ru"], "1 Samuel": ["1 Sam", "1 Sm"], "2 Samuel": ["2 Sam", "2 Sm"],
+  "1 Kings": ["1 Kgs"], "2 Kings": ["2 Kgs"], "1 Chronicles": ["1 Chr", "1 Paralipomenon"],
+  "2 Chronicles": ["2 Chr", "2 Paralipomenon"], "Ezra": ["Ezr"], "Nehemiah": ["Neh"],
+  "Tobit": ["Tob", "Tb", "Tobias"], "Judith": ["Jdt"], "Esther": ["Esth", "Est"],
+  "1 Maccabees": ["1 Macc", "1 Mc", "1 Machabees"], "2 Maccabees": ["2 Macc", "2 Mc", "2 Machabees"], "Job": ["Jb"],
+  "Psalms": ["Psalm", "Ps", "Pss"], "Proverbs": ["Prov", "Prv"], "Ecclesiastes": ["Eccl", "Qoh"],
+  "Song of Songs": ["Song", "Sg", "Canticle of Canticles"], "Wisdom": ["Wis"], "Sirach": ["Sir", "Ecclesiasticus"],
+  "Isaiah": ["Isa", "Is", "Isaias"], "Jeremiah": ["Jer", "Jeremias"], "Lamentations": ["Lam"], "Baruch": ["Bar"],
+  "Ezekiel": ["Ezek", "Ez", "Ezechiel"], "Daniel": ["Dan", "Dn"], "Hosea": ["Hos", "Osee"], "Joel": ["Jl"],
+  "Amos": ["Am"], "Obadiah": ["Obad", "Ob", "Abdias"], "Jonah": ["Jon", "Jonas"], "Micah": ["Mic", "Mi", "Micheas"],
+  "Nahum": ["Nah", "Na"], "Habakkuk": ["Hab", "Hb", "Habacuc"], "Zephaniah": ["Zeph", "Zep", "Sophonias"],
+  "Haggai": ["Hag", "Hg", "Aggeus"], "Zechariah": ["Zech", "Zec", "Zacharias"], "Malachi": ["Mal", "Malachias"],
+  "Matthew": ["Matt", "Mt"], "Mark": ["Mk"], "Luke": ["Lk"], "John": ["Jn"], "Acts": ["Acts of the Apostles"],
+  "Romans": ["Rom"], "1 Corinthians": ["1 Cor"], "2 Corinthians": ["2 Cor"], "Galatians": ["Gal"],
+  "Ephesians": ["Eph"], "Philippians": ["Phil"], "Colossians": ["Col"],
+  "1 Thessalonians": ["1 Thess", "1 Thes"], "2 Thessalonians": ["2 Thess", "2 Thes"],
+  "1 Timothy": ["1 Tim", "1 Tm"], "2 Timothy": ["2 Tim", "2 Tm"], "Titus": ["Ti"], "Philemon": ["Phlm"],
+  "Hebrews": ["Heb"], "James": ["Jas"], "1 Peter": ["1 Pet", "1 Pt"], "2 Peter": ["2 Pet", "2 Pt"],
+  "1 John": ["1 Jn"], "2 John": ["2 Jn"], "3 John": ["3 Jn"], "Jude": ["Jud"],
+  "Revelation": ["Rev", "Apocalypse", "Apoc"],
+};
+
+// Every full name and abbreviation with the book it names
+export const BOOK_ALIASES = Object.entries(BIBLE_BOOKS).flatMap(([book, aliases]) =>
+  [book, ...aliases].map(alias => [alias, book] as [string, string])
+);
+
+// Lowercase name or abbreviation -> full book name
+const BOOK_NAMES = new Map<string, string>(
+  BOOK_ALIASES.map(([alias, book]) => [alias.toLowerCase(), book])
+);
+
+/**
+ * A passage of one book: a single verse, a run of verses (possibly across chapters),
+ * or whole chapters when no verses are given
+ */
+export interface ScriptureReference {
+  book: string;
+  chapter: number;
+  // Absent when whole chapters are meant
+  verseStart?: number;
+  endChapter: number;
+  verseEnd?: number;
+}
+
+/**
+ * A reference that could not be parsed, e.g. an unknown book or "Jn 3:16-12"
+ */
+export class ScriptureReferenceError extends Error {
+  readonly status = 400;
+  readonly code = "invalid_reference";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ScriptureReferenceError";
+  }
+}
+
+// One item of a reference list: "5", "5-7", "5:44", "5:44-45", "5:3-7:29", or "13" after a chapter
+const REFERENCE_PART = /^(\d{1,3})(?::(\d{1,3}))?(?:\s*[-–]\s*(?:(\d{1,3}):)?(\d{1,3}))?$/;
+
+// The book a reference list starts with, e.g. "1 Cor" in "1 Cor 13:4" or "Song of Songs" in "Song of Songs 2:1"
+const BOOK_PREFIX = /^((?:[1-3]\s*)?[A-Za-z][A-Za-z' ]*?)\.?\s*(?=\d)/;
+
+// A reference list as it appears in prose, e.g. "Mt 5:44-45, 48; 6:9". At least one
+// chapter:verse is required, so "Mark 5" or "Acts 2" in a sentence are left alone.
+const REFERENCE_IN_TEXT = new RegExp(
+  String.raw`\b(${BOOK_ALIASES.map(([alias]) => alias).sort((a, b) => b.length - a.length).map(escapeRegExp).join("|")})\.?` +
+  String.raw`\s+(\d{1,3}:\d{1,3}(?:\s*[-–]\s*(?:\d{1,3}:)?\d{1,3})?` +
+  // Further items, but not the number of the next book, as in "Jn 3:16, 2 Cor 5:17"
+  String.raw`(?:\s*[,;]\s*(?:\d{1,3}:)?\d{1,3}(?:\s*[-–]\s*(?:\d{1,3}:)?\d{1,3})?(?![\d:]|\s+[A-Z][a-z]*\.?\s+\d))*)`,
+  // Case-sensitive, so a time like "is 5:30" isn't read as Isaiah
+  "g"
+);
+
+/**
+ * The full name of a book, from its name or an abbreviation ("Mt", "1Cor", "Apoc.")
+ */
+export function bookName(nameOrAbbreviation: string): string | undefined {
+  const normalized = nameOrAbbreviation
+    .trim()
+    .replace(/\.$/, "")
+    .replace(/^([1-3])\s*/, "$1 ")
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+  return BOOK_NAMES.get(normalized);
+}
+
+/**
+ * Parse a reference list such as "Mt 5:44-45; Jn 3:16" or "1 Cor 13:4-7, 13". A list item
+ * without a book continues the previous book; after a semicolon a bare number is a chapter,
+ * after a comma it is a verse of the same chapter. Throws ScriptureReferenceError when any
+ * part can't be read.
+ */
+export function parseScriptureReferences(text: string): ScriptureReference[] {
+  if (!text.trim()) {
+    throw new ScriptureReferenceError("No Scripture reference given");
+  }
+  return parseReferenceList(text);
+}
+
+/**
+ * The Scripture references in a question or answer, in order of appearance and without duplicates
+ */
+export function findScriptureReferences(text: string): ScriptureReference[] {
+  const references = new Map<string, ScriptureReference>();
+
+  for (const match of Array.from(text.matchAll(REFERENCE_IN_TEXT))) {
+    try {
+      for (const reference of parseReferenceList(match[2], bookName(match[1]))) {
+        references.set(formatScriptureReference(reference), reference);
+      }
+    } catch {
+      // Prose like "John 3:16-12" is not a reference after all
+    }
+  }
+
+  return Array.from(references.values());
+}
+
+/**
+ * "John 3:16", "Matthew 5:44-45", "Matthew 5:3-7:29", "Matthew 5" or "Matthew 5-7"
+ */
+export function formatScriptureReference(reference: ScriptureReference): string {
+  const { book, chapter, verseStart, endChapter, verseEnd } = reference;
+
+  if (verseStart === undefined) {
+    return endChapter === chapter ? `${book} ${chapter}` : `${book} ${chapter}-${endChapter}`;
+  }
+  if (endChapter !== chapter) {
+    return `${book} ${chapter}:${verseStart}-${endChapter}:${verseEnd}`;
+  }
+  return verseEnd === verseStart ? `${book} ${chapter}:${verseStart}` : `${book} ${chapter}:${verseStart}-${verseEnd}`;
+}
+
+function parseReferenceList(text: string, initialBook?: string): ScriptureReference[] {
+  const references: ScriptureReference[] = [];
+  let book = initialBook;
+
+  for (const group of text.split(";")) {
+    let rest = group.trim();
+    if (!rest) continue;
+
+    const prefix = rest.match(BOOK_PREFIX);
+    if (prefix) {
+      book = bookName(prefix[1]);
+      if (!book) {
+        throw new ScriptureReferenceError(`Unknown book "${prefix[1].trim()}"`);
+      }
+      rest = rest.slice(prefix[0].length);
+    }
+    if (!book) {
+      throw new ScriptureReferenceError(`"${group.trim()}" does not name a book`);
+    }
+
+    // The chapter that bare numbers after a comma are verses of
+    let chapter: number | undefined;
+
+    for (const item of rest.split(",")) {
+      const part = item.trim().match(REFERENCE_PART);
+      if (!part) {
+        throw new ScriptureReferenceError(`Cannot read "${item.trim()}" in "${group.trim()}"`);
+      }
+
+      const reference = toReference(book, part, chapter);
+      if (!reference) {
+        throw new ScriptureReferenceError(`"${book} ${item.trim()}" runs backwards or has a zero`);
+      }
+
+      references.push(reference);
+      chapter = reference.verseStart !== undefined ? reference.endChapter : undefined;
+    }
+  }
+
+  return references;
+}
+
+// A parsed REFERENCE_PART, or null when the range is empty or runs backwards
+function toReference(book: string, part: RegExpMatchArray, currentChapter?: number): ScriptureReference | null {
+  const [first, afterColon, endChapterPart, last] = part.slice(1).map(value => value === undefined ? undefined : Number(value));
+  let reference: ScriptureReference;
+
+  if (afterColon !== undefined) {
+    // "5:44", "5:44-45" or "5:3-7:29"
+    reference = {
+      book,
+      chapter: first!,
+      verseStart: afterColon,
+      endChapter: endChapterPart ?? first!,
+      verseEnd: last ?? afterColon
+    };
+  } else if (currentChapter !== undefined) {
+    // "13" or "13-15" after "1 Cor 13:4-7,"
+    reference = {
+      book,
+      chapter: currentChapter,
+      verseStart: first!,
+      endChapter: endChapterPart ?? currentChapter,
+      verseEnd: last ?? first!
+    };
+  } else if (endChapterPart === undefined) {
+    // "5" or "5-7": whole chapters
+    reference = { book, chapter: first!, endChapter: last ?? first! };
+  } else {
+    return null;
+  }
+
+  const start = [reference.chapter, reference.verseStart ?? 1];
+  const end = [reference.endChapter, reference.verseEnd ?? 1];
+  const valid = start.every(n => n > 0) && end.every(n => n > 0) &&
+    (end[0] > start[0] || (end[0] === start[0] && end[1] >= start[1]));
+
+  return valid ? reference : null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
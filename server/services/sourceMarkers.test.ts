@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { resolveSourceMarkers } from "./sourceMarkers";
+
+describe("resolveSourceMarkers", () => {
+  it("splits grouped markers and lists the cited sources in order", () => {
+    expect(resolveSourceMarkers("Grace perfects nature [3, 1]. It is freely given [1].", 3)).toEqual({
+      content: "Grace perfects nature [3][1]. It is freely given [1].",
+      citedSources: [1, 3]
+    });
+  });
+
+  it("drops markers for sources that weren't retrieved, with their leading space", () => {
+    expect(resolveSourceMarkers("God is rich in mercy [9]. Love your enemies [0, 2].", 2)).toEqual({
+      content: "God is rich in mercy. Love your enemies [2].",
+      citedSources: [2]
+    });
+    expect(resolveSourceMarkers("No sources [1].", 0)).toEqual({ content: "No sources.", citedSources: [] });
+  });
+
+  it("leaves other bracketed text alone", () => {
+    const content = "See [CCC 1730] and Jn 3:16 [sic] [123].";
+    expect(resolveSourceMarkers(content, 5)).toEqual({ content, citedSources: [] });
+  });
+});
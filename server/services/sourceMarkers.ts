@@ -0,0 +1,35 @@
+/**
+ * Inline source markers: the model is given numbered context documents and marks the
+ * statements it draws from them with "[1]", "[2]"...
+ */
+
+// "[1]" and also grouped forms like "[1, 3]", with the spaces before the marker
+const MARKER_PATTERN = /( *)\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\]/g;
+
+/**
+ * Normalize grouped markers to "[1][3]", drop markers that don't refer to a retrieved
+ * source and return the 1-based source numbers that were cited, in ascending order
+ */
+export function resolveSourceMarkers(
+  content: string,
+  sourceCount: number
+): { content: string; citedSources: number[] } {
+  const cited = new Set<number>();
+
+  const resolved = content.replace(MARKER_PATTERN, (_, spaces: string, numbers: string) => {
+    const valid = numbers
+      .split(",")
+      .map(Number)
+      .filter(number => number >= 1 && number <= sourceCount);
+
+    valid.forEach(number => cited.add(number));
+
+    // A dropped marker takes its leading space with it, so "mercy [9]." becomes "mercy."
+    return valid.length > 0 ? spaces + valid.map(number => `[${number}]`).join("") : "";
+  });
+
+  return {
+    content: resolved,
+    citedSources: Array.from(cited).sort((a, b) => a - b)
+  };
+}
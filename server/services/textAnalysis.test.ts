@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { analyze, splitWords, stem } from "./textAnalysis";
+
+describe("stem", () => {
+  // Examples from Porter's paper, one or more per step
+  it.each([
+    ["caresses", "caress"], ["ponies", "poni"], ["ties", "ti"], ["caress", "caress"], ["cats", "cat"],
+    ["feed", "feed"], ["agreed", "agre"], ["plastered", "plaster"], ["bled", "bled"], ["motoring", "motor"], ["sing", "sing"],
+    ["conflated", "conflat"], ["troubled", "troubl"], ["sized", "size"], ["hopping", "hop"], ["falling", "fall"],
+    ["hissing", "hiss"], ["fizzed", "fizz"], ["failing", "fail"], ["filing", "file"],
+    ["happy", "happi"], ["sky", "sky"],
+    ["relational", "relat"], ["conditional", "condit"], ["rational", "ration"], ["digitizer", "digit"],
+    ["vietnamization", "vietnam"], ["operator", "oper"], ["decisiveness", "decis"], ["sensibiliti", "sensibl"],
+    ["triplicate", "triplic"], ["formative", "form"], ["electrical", "electr"], ["hopeful", "hope"], ["goodness", "good"],
+    ["revival", "reviv"], ["allowance", "allow"], ["airliner", "airlin"], ["replacement", "replac"], ["adjustment", "adjust"],
+    ["dependent", "depend"], ["adoption", "adopt"], ["communism", "commun"], ["homologous", "homolog"], ["effective", "effect"],
+    ["probate", "probat"], ["rate", "rate"], ["cease", "ceas"], ["controll", "control"], ["roll", "roll"],
+    ["generalizations", "gener"], ["oscillators", "oscil"]
+  ])("stems %s to %s", (word, stemmed) => {
+    expect(stem(word)).toBe(stemmed);
+  });
+
+  it("leaves short words and numbers alone", () => {
+    expect(stem("is")).toBe("is");
+    expect(stem("1730s")).toBe("1730s");
+  });
+});
+
+describe("analyze", () => {
+  it("folds case and accents, drops stopwords and single letters, and stems", () => {
+    expect(splitWords("Teresa of Ávila, 1515–1582")).toEqual(["teresa", "of", "avila", "1515", "1582"]);
+    expect(analyze("Tell me about the Sacraments of Saint Teresa of Ávila in 1562")).toEqual([
+      "sacrament", "saint", "teresa", "avila", "1562"
+    ]);
+    expect(analyze("I a the")).toEqual([]);
+  });
+});
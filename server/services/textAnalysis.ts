@@ -0,0 +1,178 @@
+/**
+ * Text analysis shared by the keyword index: tokenization, stopword removal and stemming
+ */
+
+// Common English function words that carry no retrieval signal
+export const STOPWORDS = new Set([
+  "a", "about", "above", "after", "again", "against", "all", "am", "an", "and", "any", "are",
+  "as", "at", "be", "because", "been", "before", "being", "below", "between", "both", "but",
+  "by", "can", "could", "did", "do", "does", "doing", "down", "during", "each", "few", "for",
+  "from", "further", "had", "has", "have", "having", "he", "her", "here", "hers", "herself",
+  "him", "himself", "his", "how", "i", "if", "in", "into", "is", "it", "its", "itself", "just",
+  "me", "more", "most", "my", "myself", "no", "nor", "not", "now", "of", "off", "on", "once",
+  "only", "or", "other", "our", "ours", "ourselves", "out", "over", "own", "same", "she",
+  "should", "so", "some", "such", "than", "that", "the", "their", "theirs", "them",
+  "themselves", "then", "there", "these", "they", "this", "those", "through", "to", "too",
+  "under", "until", "up", "very", "was", "we", "were", "what", "when", "where", "which",
+  "while", "who", "whom", "why", "will", "with", "would", "you", "your", "yours", "yourself",
+  "yourselves", "tell", "explain", "please"
+]);
+
+/**
+ * Split text into lowercase word tokens, without stopword removal or stemming
+ */
+export function splitWords(text: string): string[] {
+  // Fold accents so "Ávila" and "Avila" match
+  const folded = text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+  return folded.match(/[a-z0-9]+/g) || [];
+}
+
+/**
+ * Turn text into index terms: tokenize, drop stopwords and single letters, then stem
+ */
+export function analyze(text: string): string[] {
+  return splitWords(text)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Porter stemmer (M.F. Porter, 1980) for English words
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || /\d/.test(word)) return word;
+
+  let w = word;
+
+  // Step 1a
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ies")) w = w.slice(0, -2);
+  else if (w.endsWith("ss")) { /* unchanged */ }
+  else if (w.endsWith("s")) w = w.slice(0, -1);
+
+  // Step 1b
+  let step1bExtra = false;
+  if (w.endsWith("eed")) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else if (w.endsWith("ed") && hasVowel(w.slice(0, -2))) {
+    w = w.slice(0, -2);
+    step1bExtra = true;
+  } else if (w.endsWith("ing") && hasVowel(w.slice(0, -3))) {
+    w = w.slice(0, -3);
+    step1bExtra = true;
+  }
+
+  if (step1bExtra) {
+    if (w.endsWith("at") || w.endsWith("bl") || w.endsWith("iz")) {
+      w += "e";
+    } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+      w = w.slice(0, -1);
+    } else if (measure(w) === 1 && endsCvc(w)) {
+      w += "e";
+    }
+  }
+
+  // Step 1c
+  if (w.endsWith("y") && hasVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + "i";
+  }
+
+  // Step 2
+  w = replaceSuffix(w, [
+    ["ational", "ate"], ["tional", "tion"], ["enci", "ence"], ["anci", "ance"],
+    ["izer", "ize"], ["abli", "able"], ["alli", "al"], ["entli", "ent"], ["eli", "e"],
+    ["ousli", "ous"], ["ization", "ize"], ["ation", "ate"], ["ator", "ate"],
+    ["alism", "al"], ["iveness", "ive"], ["fulness", "ful"], ["ousness", "ous"],
+    ["aliti", "al"], ["iviti", "ive"], ["biliti", "ble"]
+  ], 0);
+
+  // Step 3
+  w = replaceSuffix(w, [
+    ["icate", "ic"], ["ative", ""], ["alize", "al"], ["iciti", "ic"],
+    ["ical", "ic"], ["ful", ""], ["ness", ""]
+  ], 0);
+
+  // Step 4
+  const step4 = [
+    "al", "ance", "ence", "er", "ic", "able", "ible", "ant", "ement", "ment", "ent",
+    "ion", "ou", "ism", "ate", "iti", "ous", "ive", "ize"
+  ];
+  // Longest suffixes must be tried first
+  for (const suffix of [...step4].sort((a, b) => b.length - a.length)) {
+    if (!w.endsWith(suffix)) continue;
+    const base = w.slice(0, -suffix.length);
+    if (measure(base) > 1 && (suffix !== "ion" || /[st]$/.test(base))) {
+      w = base;
+    }
+    break;
+  }
+
+  // Step 5a
+  if (w.endsWith("e")) {
+    const base = w.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsCvc(base))) w = base;
+  }
+
+  // Step 5b
+  if (measure(w) > 1 && endsWithDoubleConsonant(w) && w.endsWith("l")) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+function replaceSuffix(word: string, rules: [string, string][], minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const base = word.slice(0, -suffix.length);
+      return measure(base) > minMeasure ? base + replacement : word;
+    }
+  }
+  return word;
+}
+
+function isConsonant(word: string, i: number): boolean {
+  const c = word[i];
+  if ("aeiou".includes(c)) return false;
+  if (c === "y") return i === 0 ? true : !isConsonant(word, i - 1);
+  return true;
+}
+
+// Number of vowel-consonant sequences, the "m" in [C](VC)^m[V]
+function measure(word: string): number {
+  let m = 0;
+  let i = 0;
+  const n = word.length;
+
+  while (i < n && isConsonant(word, i)) i++;
+  while (i < n) {
+    while (i < n && !isConsonant(word, i)) i++;
+    if (i >= n) break;
+    while (i < n && isConsonant(word, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(word: string): boolean {
+  for (let i = 0; i < word.length; i++) {
+    if (!isConsonant(word, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+// Consonant-vowel-consonant ending where the last consonant is not w, x or y
+function endsCvc(word: string): boolean {
+  const n = word.length;
+  return n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !"wxy".includes(word[n - 1]);
+}
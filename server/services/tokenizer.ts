@@ -0,0 +1,55 @@
+/**
+ * Token counting for prompt budgeting. The exact tokenizer depends on the model, so this
+ * estimates a BPE tokenizer such as Llama 3's or OpenAI's: common words are one token,
+ * longer words one token per four characters, every punctuation mark a token of its own,
+ * and scripts without spaces (Chinese, Japanese...) roughly one token per character.
+ * The estimate errs on the high side so budgeted prompts stay inside the context window.
+ */
+
+// Words in Latin, Greek or Cyrillic script, or any other single non-space character.
+// Other scripts take about a token per character, so their characters are counted one by one.
+const TOKEN_PIECE_PATTERN = /[A-Za-z0-9\u00C0-\u04FF]+|[^\sA-Za-z0-9\u00C0-\u04FF]/g;
+
+// Role markers and separators the chat template adds around each message
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimate the number of tokens in `text`
+ */
+export function countTokens(text: string): number {
+  let tokens = 0;
+
+  for (const [piece] of Array.from(text.matchAll(TOKEN_PIECE_PATTERN))) {
+    tokens += pieceTokens(piece);
+  }
+
+  return tokens;
+}
+
+/**
+ * Shorten `text` to at most `maxTokens`, preferring to end at a sentence boundary.
+ * Returns the text unchanged when it already fits.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (countTokens(text) <= maxTokens) return text;
+
+  // One token is reserved for the ellipsis
+  let tokens = 0;
+  let end = 0;
+  for (const match of Array.from(text.matchAll(TOKEN_PIECE_PATTERN))) {
+    tokens += pieceTokens(match[0]);
+    if (tokens > maxTokens - 1) break;
+    end = match.index! + match[0].length;
+  }
+
+  const cut = text.slice(0, end);
+  const sentenceEnd = Math.max(cut.lastIndexOf(". "), cut.lastIndexOf(".\n"));
+
+  // Only back up to a sentence boundary if that keeps most of the allowed text
+  const shortened = sentenceEnd > cut.length * 0.6 ? cut.slice(0, sentenceEnd + 1) : cut;
+  return shortened.trimEnd() + "…";
+}
+
+function pieceTokens(piece: string): number {
+  return Math.max(1, Math.ceil(piece.length / 4));
+}
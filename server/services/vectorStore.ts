@@ -1,33 +1,120 @@
 import { Document, SourceReference } from "@shared/schema";
+import { analyze } from "./textAnalysis";
+import type { Passage } from "./chunking";
 
 // Simple vector type
-interface DocumentVector {
-  document: Document;
+interface PassageVector {
+  passage: Passage;
   vector: number[];
 }
 
 /**
- * A simple in-memory store for documents and their vectors
+ * A simple in-memory store for document passages and their vectors
+ * Search works on passages; each result points back to its parent document
  * In a production environment, this would be replaced with a proper vector DB
  */
 export class VectorStore {
-  private documentVectors: DocumentVector[] = [];
-  private documents: Document[] = []; // Store documents without embeddings
+  private passageVectors: PassageVector[] = [];
+  private passages: Map<string, Passage> = new Map();
+  private documents: Document[] = []; // Parent documents, for metadata lookups
+
+  // BM25 inverted index: term -> (passage id -> term frequency)
+  private postings: Map<string, Map<string, number>> = new Map();
+  private passageLengths: Map<string, number> = new Map();
+  private totalPassageLength = 0;
+
+  // Standard BM25 parameters: term frequency saturation and length normalization
+  private readonly BM25_K1 = 1.2;
+  private readonly BM25_B = 0.75;
 
   /**
-   * Add a document with its embedding vector to the store
+   * Add a document and its passages to the store, replacing any already there for its id.
+   * Passages without a vector are only searchable by keywords.
    */
-  addDocumentVector(document: Document, vector: number[]): void {
-    this.documentVectors.push({ document, vector });
-    // Also add to regular document store for keyword search
+  addDocument(document: Document, passages: { passage: Passage; vector?: number[] }[]): void {
+    this.removeDocument(document.id);
     this.documents.push(document);
+
+    for (const { passage, vector } of passages) {
+      this.passages.set(passage.id, passage);
+      if (vector) {
+        this.passageVectors.push({ passage, vector });
+      }
+      this.indexPassage(document, passage);
+    }
   }
 
   /**
-   * Add a document without embedding for keyword search
+   * Remove a document and all of its passages from the store and the keyword index.
+   * Returns false if the document wasn't in the store.
    */
-  addDocumentWithoutEmbedding(document: Document): void {
-    this.documents.push(document);
+  removeDocument(documentId: number): boolean {
+    const documentCount = this.documents.length;
+    this.documents = this.documents.filter(doc => doc.id !== documentId);
+    
+    const passageIds = new Set<string>();
+    this.passages.forEach((passage, id) => {
+      if (passage.documentId === documentId) {
+        passageIds.add(id);
+      }
+    });
+    
+    passageIds.forEach(id => {
+      this.passages.delete(id);
+      this.totalPassageLength -= this.passageLengths.get(id) || 0;
+      this.passageLengths.delete(id);
+    });
+    
+    this.passageVectors = this.passageVectors.filter(({ passage }) => !passageIds.has(passage.id));
+    
+    this.postings.forEach((passageFrequencies, term) => {
+      passageIds.forEach(id => passageFrequencies.delete(id));
+      if (passageFrequencies.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+    
+    return this.documents.length < documentCount;
+  }
+
+  /**
+   * Remove everything from the store
+   */
+  clear(): void {
+    this.passageVectors = [];
+    this.passages.clear();
+    this.documents = [];
+    this.postings.clear();
+    this.passageLengths.clear();
+    this.totalPassageLength = 0;
+  }
+
+  /**
+   * Add a passage's terms to the inverted index
+   */
+  private indexPassage(document: Document, passage: Passage): void {
+    const terms = analyze(`${document.title} ${passage.section || ""} ${passage.content}`);
+
+    for (const term of terms) {
+      let passageFrequencies = this.postings.get(term);
+      if (!passageFrequencies) {
+        passageFrequencies = new Map();
+        this.postings.set(term, passageFrequencies);
+      }
+      passageFrequencies.set(passage.id, (passageFrequencies.get(passage.id) || 0) + 1);
+    }
+
+    this.passageLengths.set(passage.id, terms.length);
+    this.totalPassageLength += terms.length;
+  }
+
+  /**
+   * BM25 inverse document frequency, always positive
+   */
+  private idf(term: string): number {
+    const passageCount = this.passageLengths.size;
+    const passageFrequency = this.postings.get(term)?.size || 0;
+    return Math.log(1 + (passageCount - passageFrequency + 0.5) / (passageFrequency + 0.5));
   }
 
   /**
@@ -56,25 +143,36 @@ export class VectorStore {
   }
 
   /**
-   * Search for the most similar documents to the given query vector
+   * Build the source reference returned to callers for a passage
+   */
+  private toSourceReference(passage: Passage, relevanceScore: number): SourceReference | undefined {
+    const document = this.getDocumentById(passage.documentId);
+    if (!document) return undefined;
+
+    return {
+      id: document.id,
+      passageId: passage.id,
+      title: document.title,
+      content: passage.content,
+      source: document.source,
+      category: document.category,
+      section: passage.section,
+      relevanceScore,
+    };
+  }
+
+  /**
+   * Search for the passages most similar to the given query vector
    */
   searchSimilarDocuments(queryVector: number[], limit: number = 5): SourceReference[] {
-    // If no document vectors available, fall back to keyword search
-    if (this.documentVectors.length === 0) {
-      return this.searchByKeywords("", limit);
+    // Without vectors there is nothing to compare against; keyword search runs separately
+    if (this.passageVectors.length === 0) {
+      return [];
     }
 
-    const results = this.documentVectors.map(({ document, vector }) => {
-      const score = this.cosineSimilarity(queryVector, vector);
-      return {
-        id: document.id,
-        title: document.title,
-        content: document.content,
-        source: document.source,
-        category: document.category,
-        relevanceScore: score,
-      };
-    });
+    const results = this.passageVectors
+      .map(({ passage, vector }) => this.toSourceReference(passage, this.cosineSimilarity(queryVector, vector)))
+      .filter((result): result is SourceReference => result !== undefined);
 
     // Sort by similarity score in descending order
     return results
@@ -83,48 +181,46 @@ export class VectorStore {
   }
 
   /**
-   * Search for documents containing keywords from the query
-   * A simple alternative when vector embeddings aren't available
+   * Rank passages against the query with BM25 over the inverted index.
+   * `relevanceScore` is the BM25 score divided by the best score any passage could
+   * reach for this query, so it falls in [0, 1] and is comparable across queries.
    */
   searchByKeywords(query: string, limit: number = 5): SourceReference[] {
-    // If query is empty, return random documents
-    if (!query.trim()) {
-      return this.documents.slice(0, limit).map(doc => ({
-        id: doc.id,
-        title: doc.title,
-        content: doc.content,
-        source: doc.source,
-        category: doc.category,
-        relevanceScore: 1.0, // Default high score
-      }));
+    const queryTerms = Array.from(new Set(analyze(query)));
+    if (queryTerms.length === 0 || this.passageLengths.size === 0) {
+      return [];
     }
 
-    // Split query into keywords
-    const keywords = query.toLowerCase().split(/\s+/);
-    
-    // Score documents based on keyword matches
-    const results = this.documents.map(document => {
-      const documentText = `${document.title} ${document.content}`.toLowerCase();
-      
-      // Count keyword matches
-      let matchCount = 0;
-      for (const keyword of keywords) {
-        if (keyword.length > 2 && documentText.includes(keyword)) {
-          matchCount++;
-        }
+    const averageLength = this.totalPassageLength / this.passageLengths.size;
+    const scores = new Map<string, number>();
+    let maxPossibleScore = 0;
+
+    for (const term of queryTerms) {
+      const idf = this.idf(term);
+      // As term frequency grows, a term's contribution approaches idf * (k1 + 1)
+      maxPossibleScore += idf * (this.BM25_K1 + 1);
+
+      const passageFrequencies = this.postings.get(term);
+      if (!passageFrequencies) continue;
+
+      passageFrequencies.forEach((termFrequency, passageId) => {
+        const length = this.passageLengths.get(passageId) || 0;
+        const normalization = this.BM25_K1 * (1 - this.BM25_B + this.BM25_B * length / averageLength);
+        const termScore = idf * (termFrequency * (this.BM25_K1 + 1)) / (termFrequency + normalization);
+        scores.set(passageId, (scores.get(passageId) || 0) + termScore);
+      });
+    }
+
+    const results: SourceReference[] = [];
+    scores.forEach((score, passageId) => {
+      const passage = this.passages.get(passageId);
+      const result = passage && this.toSourceReference(
+        passage,
+        maxPossibleScore > 0 ? score / maxPossibleScore : 0
+      );
+      if (result) {
+        results.push(result);
       }
-      
-      // Calculate score based on match percentage
-      const score = keywords.length > 0 ? matchCount / keywords.length : 0;
-      
-      return {
-        id: document.id,
-        title: document.title,
-        content: document.content,
-        source: document.source,
-        category: document.category, 
-        relevanceScore: score
-      };
     });
 
     // Sort by score and take top results
@@ -139,13 +235,20 @@ export class VectorStore {
   getAllDocuments(): Document[] {
     return this.documents;
   }
-  
+
   /**
    * Get a document by its ID
    */
   getDocumentById(id: number): Document | undefined {
     return this.documents.find(doc => doc.id === id);
   }
+
+  /**
+   * Get a passage by its ID
+   */
+  getPassageById(id: string): Passage | undefined {
+    return this.passages.get(id);
+  }
 }
 
 // Create a singleton instance
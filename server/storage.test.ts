@@ -0,0 +1,269 @@
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { documentRevisions, documents } from "@shared/schema";
+import { DrizzleStorage, MemStorage, type IStorage } from "./storage";
+import { createTestDatabase } from "./testing/pgMem";
+
+// Every IStorage implementation has to pass the same contract
+const implementations: Array<[string, () => IStorage]> = [
+  ["MemStorage", () => new MemStorage()],
+  ["DrizzleStorage", () => {
+    const { pool, db } = createTestDatabase();
+    return new DrizzleStorage(db, pool);
+  }]
+];
+
+describe.each(implementations)("%s", (name, create) => {
+  let storage: IStorage;
+  // pg-mem runs overlapping transactions without isolating them, so only a real Postgres can show
+  // how concurrent writes behave
+  const isolatesTransactions = name === "MemStorage" || Boolean(process.env.TEST_DATABASE_URL);
+  // Usernames are unique per run, so the suite also passes against a reused TEST_DATABASE_URL
+  const unique = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  beforeAll(() => {
+    storage = create();
+  });
+
+  afterAll(() => {
+    (storage.sessionStore as { close?: () => void }).close?.();
+  });
+
+  describe("users", () => {
+    it("creates users with the user role and finds them by id and username", async () => {
+      const username = unique("alice");
+      const user = await storage.createUser({ username, password: "hash" });
+
+      expect(user).toMatchObject({ username, password: "hash", role: "user" });
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername(username)).toEqual(user);
+      expect(await storage.getUserByUsername(unique("nobody"))).toBeUndefined();
+    });
+
+    it("changes a user's role", async () => {
+      const user = await storage.createUser({ username: unique("bob"), password: "hash" });
+
+      expect(await storage.updateUserRole(user.id, "admin")).toMatchObject({ id: user.id, role: "admin" });
+      expect((await storage.getUser(user.id))?.role).toBe("admin");
+      expect(await storage.updateUserRole(999999, "admin")).toBeUndefined();
+    });
+  });
+
+  describe("chats", () => {
+    it("creates, lists, renames and deletes a user's chats", async () => {
+      const user = await storage.createUser({ username: unique("carol"), password: "hash" });
+      const chat = await storage.createChat({ title: "First", userId: user.id });
+
+      expect(chat).toMatchObject({ title: "First", userId: user.id, model: null, profileId: null });
+      expect(chat.createdAt).toBeInstanceOf(Date);
+      expect((await storage.getChatsByUserId(user.id)).map(c => c.id)).toEqual([chat.id]);
+
+      expect(await storage.updateChatTitle(chat.id, "Renamed")).toMatchObject({ id: chat.id, title: "Renamed" });
+      expect(await storage.updateChatModel(chat.id, "llama-3.1-8b-instant")).toMatchObject({ model: "llama-3.1-8b-instant" });
+      expect(await storage.updateChatModel(chat.id, null)).toMatchObject({ model: null });
+
+      await storage.createMessage({ chatId: chat.id, role: "user", content: "Hello" });
+      expect(await storage.deleteChat(chat.id)).toBe(true);
+      expect(await storage.getChat(chat.id)).toBeUndefined();
+      expect(await storage.getMessagesByChatId(chat.id)).toEqual([]);
+      expect(await storage.deleteChat(chat.id)).toBe(false);
+    });
+
+    it("returns undefined when updating a chat that doesn't exist", async () => {
+      expect(await storage.updateChatTitle(999999, "Nothing")).toBeUndefined();
+      expect(await storage.updateChatModel(999999, null)).toBeUndefined();
+    });
+  });
+
+  describe("messages", () => {
+    it("keeps messages in order with their sources and metadata", async () => {
+      const chat = await storage.createChat({ title: "Messages" });
+      const sources = [{ id: 1, title: "Catechism", content: "...", source: "Vatican", category: "Catechism" }];
+      const question = await storage.createMessage({ chatId: chat.id, role: "user", content: "What is grace?" });
+      const answer = await storage.createMessage({
+        chatId: chat.id,
+        role: "assistant",
+        content: "Grace is...",
+        sources,
+        metadata: { model: "test" }
+      });
+
+      expect(question).toMatchObject({ role: "user", sources: null, metadata: null });
+      expect(await storage.getMessage(answer.id)).toMatchObject({ sources, metadata: { model: "test" } });
+      expect((await storage.getMessagesByChatId(chat.id)).map(m => m.id)).toEqual([question.id, answer.id]);
+    });
+
+    it("pages backwards through a chat's messages", async () => {
+      const chat = await storage.createChat({ title: "Paging" });
+      const ids: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        ids.push((await storage.createMessage({ chatId: chat.id, role: "user", content: `Message ${i}` })).id);
+      }
+
+      const latest = await storage.getMessagesPage(chat.id, { limit: 2 });
+      expect(latest.messages.map(m => m.id)).toEqual(ids.slice(3));
+      expect(latest.hasMore).toBe(true);
+
+      const earlier = await storage.getMessagesPage(chat.id, { before: ids[3], limit: 2 });
+      expect(earlier.messages.map(m => m.id)).toEqual(ids.slice(1, 3));
+      expect(earlier.hasMore).toBe(true);
+
+      const first = await storage.getMessagesPage(chat.id, { before: ids[1], limit: 2 });
+      expect(first.messages.map(m => m.id)).toEqual([ids[0]]);
+      expect(first.hasMore).toBe(false);
+    });
+  });
+
+  describe("documents", () => {
+    it("is seeded with the default documents", async () => {
+      expect((await storage.getDocuments()).length).toBeGreaterThan(0);
+    });
+
+    it("creates, finds, searches, updates and deletes documents", async () => {
+      const title = unique("Theology of the Body");
+      const document = await storage.createDocument({
+        title,
+        content: "A catechesis on human love in the divine plan",
+        source: "John Paul II",
+        category: "Papal Teaching",
+        metadata: { year: 1984 }
+      });
+
+      expect(await storage.getDocument(document.id)).toEqual(document);
+      expect((await storage.getDocumentsByCategory("Papal Teaching")).map(d => d.id)).toContain(document.id);
+      expect((await storage.searchDocuments("human love")).map(d => d.id)).toContain(document.id);
+
+      const updated = await storage.updateDocument(document.id, { content: "Corrected content" });
+      expect(updated).toMatchObject({ id: document.id, title, content: "Corrected content", metadata: { year: 1984 } });
+      expect(await storage.updateDocument(999999, { title: "Nothing" })).toBeUndefined();
+
+      expect(await storage.deleteDocument(document.id)).toBe(true);
+      expect(await storage.getDocument(document.id)).toBeUndefined();
+      expect(await storage.deleteDocument(document.id)).toBe(false);
+    });
+
+    it("creates a batch of documents all together or not at all", async () => {
+      const title = unique("Catechesi Tradendae");
+      const batch = [
+        { title: `${title} 1`, content: "Part one", source: "John Paul II", category: "Papal Teaching" },
+        { title: `${title} 2`, content: "Part two", source: "John Paul II", category: "Papal Teaching" }
+      ];
+
+      const created = await storage.createDocuments(batch);
+      expect(created.map(d => d.title)).toEqual([`${title} 1`, `${title} 2`]);
+      expect((await storage.getDocumentRevisions(created[1].id)).map(r => r.action)).toEqual(["create"]);
+
+      const failing = unique("Redemptor Hominis");
+      const invalid = { title: null, content: "No title", source: "John Paul II", category: "Papal Teaching" };
+      await expect(storage.createDocuments([
+        { ...batch[0], title: failing },
+        invalid as unknown as typeof batch[0]
+      ])).rejects.toThrow();
+      expect(await storage.searchDocuments(failing)).toEqual([]);
+    });
+
+    it("records a revision for every change and restores an earlier one", async () => {
+      const document = await storage.createDocument({
+        title: unique("Dei Verbum"),
+        content: "Original",
+        source: "Vatican II",
+        category: "Council Documents"
+      });
+      await storage.updateDocument(document.id, { content: "Typo fixed" });
+
+      const revisions = await storage.getDocumentRevisions(document.id);
+      expect(revisions.map(r => [r.revision, r.action, r.content])).toEqual([
+        [1, "create", "Original"],
+        [2, "update", "Typo fixed"]
+      ]);
+
+      expect(await storage.restoreDocumentRevision(document.id, 1)).toMatchObject({ id: document.id, content: "Original" });
+      expect((await storage.getDocument(document.id))?.content).toBe("Original");
+      expect((await storage.getDocumentRevisions(document.id)).map(r => r.action)).toEqual(["create", "update", "restore"]);
+      expect(await storage.restoreDocumentRevision(document.id, 99)).toBeUndefined();
+    });
+
+    it.runIf(isolatesTransactions)("numbers the revisions of concurrent updates consecutively", async () => {
+      const document = await storage.createDocument({
+        title: unique("Lumen Gentium"),
+        content: "Draft",
+        source: "Vatican II",
+        category: "Council Documents"
+      });
+
+      await Promise.all([1, 2, 3, 4].map(n => storage.updateDocument(document.id, { content: `Edit ${n}` })));
+
+      const revisions = await storage.getDocumentRevisions(document.id);
+      expect(revisions.map(r => r.revision)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("keeps a deleted document's history and restores it", async () => {
+      const document = await storage.createDocument({
+        title: unique("Gaudium et Spes"),
+        content: "Original",
+        source: "Vatican II",
+        category: "Council Documents"
+      });
+      await storage.updateDocument(document.id, { content: "Edited" });
+      await storage.deleteDocument(document.id);
+
+      expect(await storage.getDocument(document.id)).toBeUndefined();
+      expect((await storage.getDocumentRevisions(document.id)).map(r => [r.revision, r.action, r.content])).toEqual([
+        [1, "create", "Original"],
+        [2, "update", "Edited"],
+        [3, "delete", "Edited"]
+      ]);
+
+      expect(await storage.restoreDocumentRevision(document.id, 1)).toMatchObject({ id: document.id, content: "Original" });
+      expect((await storage.getDocument(document.id))?.content).toBe("Original");
+      expect((await storage.getDocumentRevisions(document.id)).map(r => r.action)).toEqual(["create", "update", "delete", "restore"]);
+    });
+  });
+
+  describe("prompt profiles", () => {
+    it("is seeded with the default profiles", async () => {
+      expect(await storage.getPromptProfile("youth")).toMatchObject({ id: "youth", answerLength: "short" });
+    });
+
+    it("creates and updates profiles", async () => {
+      const id = unique("profile");
+      const profile = await storage.createPromptProfile({
+        id,
+        name: "Test profile",
+        description: "For tests",
+        instructions: "Answer briefly.",
+        answerLength: "short"
+      });
+
+      expect(profile).toMatchObject({ id, retrieval: null });
+      expect((await storage.getPromptProfiles()).map(p => p.id)).toContain(id);
+      expect(await storage.updatePromptProfile(id, { answerLength: "long" })).toMatchObject({ id, answerLength: "long" });
+      expect(await storage.updatePromptProfile(unique("missing"), { name: "Nothing" })).toBeUndefined();
+    });
+  });
+});
+
+// Deletes seeded rows, so it only runs on pg-mem
+describe.skipIf(Boolean(process.env.TEST_DATABASE_URL))("DrizzleStorage upgrades", () => {
+  it("adds Catechism documents missing from an existing knowledge base, except deleted ones", async () => {
+    const { pool, db } = createTestDatabase();
+    const first = new DrizzleStorage(db, pool);
+    const paragraphs = (await first.getDocumentsByCategory("Catechism")).filter(d => d.metadata?.part);
+    expect(paragraphs.length).toBeGreaterThan(2);
+
+    // As if seeded by a release before the paragraphs were bundled
+    await db.delete(documentRevisions).where(eq(documentRevisions.documentId, paragraphs[0].id));
+    await db.delete(documents).where(eq(documents.id, paragraphs[0].id));
+    await first.deleteDocument(paragraphs[1].id);
+
+    const upgraded = new DrizzleStorage(db, pool);
+    const titles = (await upgraded.getDocumentsByCategory("Catechism")).map(d => d.title);
+    expect(titles).toContain(paragraphs[0].title);
+    expect(titles).not.toContain(paragraphs[1].title);
+    expect(titles.filter(title => title === paragraphs[2].title)).toHaveLength(1);
+
+    for (const storage of [first, upgraded]) {
+      (storage.sessionStore as { close?: () => void }).close?.();
+    }
+  });
+});
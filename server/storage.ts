@@ -1,7 +1,17 @@
+import { and, asc, desc, eq, ilike, inArray, lt, max, or } from "drizzle-orm";
 import { 
-  User, InsertUser, 
-  SourceReference
+  User, InsertUser, UserRole,
+  SourceReference,
+  InsertPromptProfile,
+  users, chats, messages, documents, documentRevisions, promptProfiles
 } from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import { createDatabase, runMigrations, type Database } from "./db";
+import { CATECHISM } from "./corpus/catechism";
+import { catechismDocuments } from "./services/documentParser";
 
 import {
   ExplicitChat as Chat,
@@ -9,25 +19,50 @@ import {
   ExplicitMessage as Message,
   ExplicitInsertMessage as InsertMessage,
   ExplicitDocument as Document,
-  ExplicitInsertDocument as InsertDocument
+  ExplicitInsertDocument as InsertDocument,
+  ExplicitDocumentRevision as DocumentRevision,
+  ExplicitPromptProfile as PromptProfile,
+  DocumentRevisionAction
 } from "./types";
 
+export interface MessagePageOptions {
+  before?: number;
+  limit: number;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
 export interface IStorage {
+  // Login sessions, kept in the same backend as everything else
+  sessionStore: session.Store;
+  
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
   
   // Chat methods
   getChat(id: number): Promise<Chat | undefined>;
   getChatsByUserId(userId: number): Promise<Chat[]>;
   createChat(chat: InsertChat): Promise<Chat>;
   updateChatTitle(id: number, title: string): Promise<Chat | undefined>;
+  // null switches the chat back to the server's default model
+  updateChatModel(id: number, model: string | null): Promise<Chat | undefined>;
   deleteChat(id: number): Promise<boolean>;
   
   // Message methods
   getMessage(id: number): Promise<Message | undefined>;
   getMessagesByChatId(chatId: number): Promise<Message[]>;
+  // Up to `limit` messages older than the message id `before` (the latest messages when omitted),
+  // oldest first; `hasMore` says whether even older messages exist
+  getMessagesPage(chatId: number, options: MessagePageOptions): Promise<MessagePage>;
   createMessage(message: InsertMessage): Promise<Message>;
   
   // Document methods
@@ -35,39 +70,63 @@ export interface IStorage {
   getDocuments(): Promise<Document[]>;
   getDocumentsByCategory(category: string): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
+  // All of the documents or, if any fails, none of them
+  createDocuments(documents: InsertDocument[]): Promise<Document[]>;
+  updateDocument(id: number, changes: Partial<InsertDocument>): Promise<Document | undefined>;
+  deleteDocument(id: number): Promise<boolean>;
   searchDocuments(query: string): Promise<Document[]>;
+  
+  // Document revision methods
+  getDocumentRevisions(documentId: number): Promise<DocumentRevision[]>;
+  // Bring a document back to the state recorded in a revision, recreating it if it was deleted
+  restoreDocumentRevision(documentId: number, revision: number): Promise<Document | undefined>;
+  
+  // Prompt profile methods
+  getPromptProfiles(): Promise<PromptProfile[]>;
+  getPromptProfile(id: string): Promise<PromptProfile | undefined>;
+  createPromptProfile(profile: InsertPromptProfile): Promise<PromptProfile>;
+  updatePromptProfile(id: string, changes: Partial<Omit<InsertPromptProfile, "id">>): Promise<PromptProfile | undefined>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<number, User>;
   private chats: Map<number, Chat>;
   private messages: Map<number, Message>;
   private documents: Map<number, Document>;
+  private documentRevisions: Map<number, DocumentRevision[]>; // Keyed by document id
+  private promptProfiles: Map<string, PromptProfile>;
   private currentIds: {
     users: number;
     chats: number;
     messages: number;
     documents: number;
+    documentRevisions: number;
   };
 
   // Constants for memory optimization
   private readonly MAX_CHATS_PER_USER = 25;
-  private readonly MAX_MESSAGES_TOTAL = 500;
   
   constructor() {
     this.users = new Map();
     this.chats = new Map();
     this.messages = new Map();
     this.documents = new Map();
+    this.documentRevisions = new Map();
+    this.promptProfiles = new Map();
+    // Expired sessions are pruned once a day
+    this.sessionStore = new MemoryStore({ checkPeriod: 86400000 });
     this.currentIds = {
       users: 1,
       chats: 1,
       messages: 1,
       documents: 1,
+      documentRevisions: 1,
     };
     
-    // Initialize with some default documents
+    // Initialize with some default documents and prompt profiles
     this.initializeDocuments();
+    this.initializePromptProfiles();
     
     // Set up more frequent cleanup to keep memory usage low
     // This is crucial for keeping memory usage down in auto-scale deployment
@@ -79,65 +138,12 @@ export class MemStorage implements IStorage {
     }, 3600000);
   }
   
-  // Clean up old data to prevent memory bloat - both messages and chats
+  // Clean up old data to prevent memory bloat
+  // Whole chats are dropped, never individual messages, so saved conversations stay complete
   private cleanupOldData(): void {
-    this.cleanupOldMessages();
     this.cleanupOldChats();
-    
-    // If we still have too many messages total, delete the oldest ones
-    if (this.messages.size > this.MAX_MESSAGES_TOTAL) {
-      const allMessages = Array.from(this.messages.values());
-      
-      // Sort by creation time (oldest first)
-      allMessages.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-      
-      // Delete oldest messages to get down to our limit
-      const toDelete = allMessages.slice(0, allMessages.length - this.MAX_MESSAGES_TOTAL);
-      
-      for (const message of toDelete) {
-        this.messages.delete(message.id);
-      }
-      
-      console.log(`[MemStorage] Deleted ${toDelete.length} oldest messages to stay under memory limit`);
-    }
-  }
-  
-  // Clean up old messages to prevent memory bloat
-  private cleanupOldMessages(): void {
-    const MAX_MESSAGES_PER_CHAT = 20; // Maximum messages to keep per chat
-    
-    // Messages by chat, using regular array operations to avoid TypeScript errors
-    const chatsMap = new Map<number, Message[]>();
-    const messageArray = Array.from(this.messages.values());
-    
-    // Group messages by chat
-    messageArray.forEach(message => {
-      if (!chatsMap.has(message.chatId)) {
-        chatsMap.set(message.chatId, []);
-      }
-      const chatMessages = chatsMap.get(message.chatId);
-      if (chatMessages) {
-        chatMessages.push(message);
-      }
-    });
-    
-    // Process each chat's messages
-    chatsMap.forEach((messages, chatId) => {
-      if (messages.length <= MAX_MESSAGES_PER_CHAT) return;
-      
-      // Sort messages by creation time (newest first)
-      messages.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-      
-      // Keep only the most recent messages per chat
-      const toDelete = messages.slice(MAX_MESSAGES_PER_CHAT);
-      
-      // Delete older messages
-      for (const message of toDelete) {
-        this.messages.delete(message.id);
-      }
-    });
   }
-  
+
   // Clean up old chats to prevent memory bloat
   private cleanupOldChats(): void {
     // Get chats by user
@@ -193,11 +199,20 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentIds.users++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, role: "user" };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, role };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Chat methods
   async getChat(id: number): Promise<Chat | undefined> {
     return this.chats.get(id);
@@ -222,6 +237,8 @@ export class MemStorage implements IStorage {
       id, 
       title: insertChat.title,
       userId: (insertChat as any).userId !== undefined ? (insertChat as any).userId : null,
+      model: insertChat.model ?? null,
+      profileId: insertChat.profileId ?? null,
       createdAt: new Date()
     };
     this.chats.set(id, chat);
@@ -237,6 +254,15 @@ export class MemStorage implements IStorage {
     return updatedChat;
   }
 
+  async updateChatModel(id: number, model: string | null): Promise<Chat | undefined> {
+    const chat = this.chats.get(id);
+    if (!chat) return undefined;
+    
+    const updatedChat = { ...chat, model };
+    this.chats.set(id, updatedChat);
+    return updatedChat;
+  }
+
   async deleteChat(id: number): Promise<boolean> {
     // Delete all messages associated with this chat
     const chatMessages = await this.getMessagesByChatId(id);
@@ -253,13 +279,20 @@ export class MemStorage implements IStorage {
   }
 
   async getMessagesByChatId(chatId: number): Promise<Message[]> {
-    // Only return the most recent messages to reduce memory usage in production
+    // Ids increase with creation time, so they give a stable order even for equal timestamps
     return Array.from(this.messages.values())
       .filter((message) => message.chatId === chatId)
-      .sort((a, b) => {
-        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-      })
-      .slice(-5); // Only keep the 5 most recent messages
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getMessagesPage(chatId: number, { before, limit }: MessagePageOptions): Promise<MessagePage> {
+    const older = (await this.getMessagesByChatId(chatId))
+      .filter((message) => before === undefined || message.id < before);
+    
+    return {
+      messages: older.slice(-limit),
+      hasMore: older.length > limit
+    };
   }
 
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
@@ -283,7 +316,8 @@ export class MemStorage implements IStorage {
       role: insertMessage.role,
       content: insertMessage.content,
       createdAt: new Date(),
-      sources: insertMessage.sources ?? null
+      sources: insertMessage.sources ?? null,
+      metadata: insertMessage.metadata ?? null
     };
     this.messages.set(id, message);
     return message;
@@ -305,22 +339,9 @@ export class MemStorage implements IStorage {
   }
 
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    checkInsertDocument(insertDocument);
     const id = this.currentIds.documents++;
     
-    // Type checking for required fields
-    if (typeof insertDocument.title !== 'string') {
-      throw new Error('title is required and must be a string');
-    }
-    if (typeof insertDocument.content !== 'string') {
-      throw new Error('content is required and must be a string');
-    }
-    if (typeof insertDocument.source !== 'string') {
-      throw new Error('source is required and must be a string');
-    }
-    if (typeof insertDocument.category !== 'string') {
-      throw new Error('category is required and must be a string');
-    }
-    
     // Create a properly typed Document object
     const document: Document = { 
       id,
@@ -328,12 +349,44 @@ export class MemStorage implements IStorage {
       content: insertDocument.content,
       source: insertDocument.source,
       category: insertDocument.category,
-      metadata: (insertDocument as any).metadata || null
+      metadata: insertDocument.metadata || null
     };
     this.documents.set(id, document);
+    this.recordRevision(document, "create");
     return document;
   }
 
+  async createDocuments(insertDocuments: InsertDocument[]): Promise<Document[]> {
+    // Checked up front, so a bad document leaves none of the others saved
+    insertDocuments.forEach(checkInsertDocument);
+    
+    const created = [];
+    for (const insertDocument of insertDocuments) {
+      created.push(await this.createDocument(insertDocument));
+    }
+    return created;
+  }
+
+  async updateDocument(id: number, changes: Partial<InsertDocument>): Promise<Document | undefined> {
+    const document = this.documents.get(id);
+    if (!document) return undefined;
+    
+    const updatedDocument: Document = { ...document, ...changes, id };
+    this.documents.set(id, updatedDocument);
+    this.recordRevision(updatedDocument, "update");
+    return updatedDocument;
+  }
+
+  async deleteDocument(id: number): Promise<boolean> {
+    const document = this.documents.get(id);
+    if (!document) return false;
+    
+    // Its history is kept, ending with the deleted version, so it can be restored
+    this.documents.delete(id);
+    this.recordRevision(document, "delete");
+    return true;
+  }
+
   async searchDocuments(query: string): Promise<Document[]> {
     // Simple search implementation - in a real app, this would use vector search
     const lowerQuery = query.toLowerCase();
@@ -344,158 +397,649 @@ export class MemStorage implements IStorage {
     );
   }
 
-  // Helper method to initialize documents
-  private initializeDocuments() {
-    // Create multiple Catechism documents with specific sections
-    const catechismPart1 = {
-      title: "Catechism of the Catholic Church: Part 1 - The Profession of Faith",
-      content: "Part One of the Catechism explores the Profession of Faith, including the Apostles' Creed and the nature of faith. Sections 26-184 cover 'Man's Capacity for God' and 'God Comes to Meet Man'. Sections 185-1065 cover 'The Creeds' including beliefs about the Trinity, Creation, Jesus Christ, and the Holy Spirit.",
-      source: "Vatican",
-      category: "Catechism",
-      metadata: { 
-        year: 1992,
-        section: "Part One (26-1065)",
-        paragraphs: "26-1065"
-      }
-    } as InsertDocument;
-    
-    const catechismPart2 = {
-      title: "Catechism of the Catholic Church: Part 2 - The Celebration of the Christian Mystery",
-      content: "Part Two of the Catechism covers the Church's liturgy and the seven sacraments. Sections 1066-1209 explain the meaning and purpose of the liturgy. Sections 1210-1690 detail each of the seven sacraments: Baptism, Confirmation, Eucharist, Penance, Anointing of the Sick, Holy Orders, and Matrimony.",
-      source: "Vatican", 
-      category: "Catechism",
-      metadata: {
-        year: 1992,
-        section: "Part Two (1066-1690)",
-        paragraphs: "1066-1690"
-      }
-    } as InsertDocument;
+  // Document revision methods
+  async getDocumentRevisions(documentId: number): Promise<DocumentRevision[]> {
+    return this.documentRevisions.get(documentId) || [];
+  }
+
+  async restoreDocumentRevision(documentId: number, revision: number): Promise<Document | undefined> {
+    const snapshot = (this.documentRevisions.get(documentId) || []).find(r => r.revision === revision);
+    if (!snapshot) return undefined;
     
-    const catechismPart3 = {
-      title: "Catechism of the Catholic Church: Part 3 - Life in Christ",
-      content: "Part Three of the Catechism explores Christian morality and ethical living. Sections 1691-1876 cover man's vocation to life in the Spirit. Sections 1877-2051 explain the Ten Commandments and living in community. Sections 2052-2557 provide detailed explanations of each of the Ten Commandments and their moral implications.",
-      source: "Vatican",
-      category: "Catechism",
-      metadata: {
-        year: 1992,
-        section: "Part Three (1691-2557)",
-        paragraphs: "1691-2557"
-      }
-    } as InsertDocument;
+    const document: Document = {
+      id: documentId,
+      title: snapshot.title,
+      content: snapshot.content,
+      source: snapshot.source,
+      category: snapshot.category,
+      metadata: snapshot.metadata
+    };
+    this.documents.set(documentId, document);
+    this.recordRevision(document, "restore");
+    return document;
+  }
+
+  // Prompt profile methods
+  async getPromptProfiles(): Promise<PromptProfile[]> {
+    return Array.from(this.promptProfiles.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPromptProfile(id: string): Promise<PromptProfile | undefined> {
+    return this.promptProfiles.get(id);
+  }
+
+  async createPromptProfile(insertProfile: InsertPromptProfile): Promise<PromptProfile> {
+    const profile: PromptProfile = {
+      ...insertProfile,
+      retrieval: insertProfile.retrieval ?? null,
+      updatedAt: new Date()
+    };
+    this.promptProfiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async updatePromptProfile(
+    id: string,
+    changes: Partial<Omit<InsertPromptProfile, "id">>
+  ): Promise<PromptProfile | undefined> {
+    const profile = this.promptProfiles.get(id);
+    if (!profile) return undefined;
     
-    const catechismPart4 = {
-      title: "Catechism of the Catholic Church: Part 4 - Christian Prayer",
-      content: "Part Four of the Catechism focuses on prayer in the Christian life. Sections 2558-2649 cover the nature and importance of prayer. Sections 2650-2696 discuss the tradition of prayer in the Church. Sections 2697-2758 explain the life of prayer, including vocal prayer, meditation, and contemplation. Sections 2759-2865 provide a detailed examination of the Lord's Prayer.",
-      source: "Vatican",
-      category: "Catechism",
-      metadata: {
-        year: 1992,
-        section: "Part Four (2558-2865)",
-        paragraphs: "2558-2865"
-      }
-    } as InsertDocument;
+    const updatedProfile = { ...profile, ...changes, updatedAt: new Date() };
+    this.promptProfiles.set(id, updatedProfile);
+    return updatedProfile;
+  }
+
+  // Append a snapshot of the document to its revision history
+  private recordRevision(document: Document, action: DocumentRevisionAction): void {
+    const history = this.documentRevisions.get(document.id) || [];
     
-    // Vatican II document split by major constitutions
-    const vaticanIILumenGentium = {
-      title: "Vatican II: Lumen Gentium (Dogmatic Constitution on the Church)",
-      content: "Lumen Gentium, the Dogmatic Constitution on the Church, explains the Church's nature as a sacrament of communion with God and unity among all people. It elaborates on the Church as the People of God, the hierarchical structure, the role of the laity, the universal call to holiness, and Mary's role in the Church.",
-      source: "Vatican",
-      category: "Council Documents",
-      metadata: { 
-        year: "1964",
-        document: "Lumen Gentium",
-        type: "Dogmatic Constitution"
-      }
-    } as InsertDocument;
+    history.push({
+      id: this.currentIds.documentRevisions++,
+      documentId: document.id,
+      revision: history.length + 1,
+      action,
+      title: document.title,
+      content: document.content,
+      source: document.source,
+      category: document.category,
+      metadata: document.metadata,
+      createdAt: new Date()
+    });
+    this.documentRevisions.set(document.id, history);
+  }
+
+  // Helper method to initialize documents
+  private initializeDocuments() {
+    for (const document of defaultDocuments) {
+      this.createDocument(document);
+    }
+  }
+
+  private initializePromptProfiles() {
+    for (const profile of defaultPromptProfiles) {
+      this.createPromptProfile(profile);
+    }
+  }
+}
+
+/**
+ * Postgres-backed storage using Drizzle ORM
+ * Migrations are applied and the default documents and prompt profiles seeded before the first query runs
+ */
+export class DrizzleStorage implements IStorage {
+  sessionStore: session.Store;
+  private db: Database;
+  private ready: Promise<void>;
+
+  constructor(db: Database, pool: pg.Pool) {
+    this.db = db;
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+    this.ready = this.initialize();
     
-    const vaticanIIDeiVerbum = {
-      title: "Vatican II: Dei Verbum (Dogmatic Constitution on Divine Revelation)",
-      content: "Dei Verbum, the Dogmatic Constitution on Divine Revelation, addresses the relationship between scripture and tradition, the inspiration and interpretation of scripture, the Old and New Testaments, and scripture's place in the life of the Church.",
-      source: "Vatican",
-      category: "Council Documents",
-      metadata: { 
-        year: "1965",
-        document: "Dei Verbum",
-        type: "Dogmatic Constitution"
-      }
-    } as InsertDocument;
+    // Callers still see the rejection when they await `ready`; this just surfaces it at startup
+    this.ready.catch(error => {
+      console.error("[DrizzleStorage] Failed to initialize database:", error);
+    });
+  }
+
+  private async initialize(): Promise<void> {
+    await runMigrations(this.db);
+
+    const [existingDocument] = await this.db.select({ id: documents.id }).from(documents).limit(1);
+    if (!existingDocument) {
+      await this.db.transaction(async (tx) => {
+        const seeded = await tx.insert(documents).values(defaultDocuments).returning();
+        for (const document of seeded) {
+          await recordRevision(tx, document, "create");
+        }
+      });
+      console.log(`[DrizzleStorage] Seeded ${defaultDocuments.length} default documents`);
+    }
+
+    await this.seedCatechismDocuments();
+
+    // Profiles added in a later release are created; ones admins have edited are left alone
+    await this.db.insert(promptProfiles).values(defaultPromptProfiles).onConflictDoNothing();
+  }
+
+  // Catechism paragraphs bundled by a later release are added to an existing knowledge base too.
+  // A title already in the documents or their history is skipped, so ones an admin deleted stay deleted.
+  private async seedCatechismDocuments(): Promise<void> {
+    const titles = catechismSeed.map(document => document.title);
     
-    // Papal Encyclicals with specific documents
-    const papalDiviniRedemptoris = {
-      title: "Divini Redemptoris (On Atheistic Communism)",
-      content: "Pope Pius XI's 1937 encyclical condemning atheistic communism and explaining Catholic social teaching as the remedy to communism's errors. It offers Christian principles of social order, emphasizing justice, charity, and human dignity.",
-      source: "Pope Pius XI",
-      category: "Encyclicals",
-      metadata: { 
-        year: 1937,
-        pope: "Pius XI",
-        type: "Social Encyclical"
+    const added = await this.db.transaction(async (tx) => {
+      const existing = await tx.select({ title: documents.title }).from(documents).where(inArray(documents.title, titles));
+      const recorded = await tx
+        .select({ title: documentRevisions.title })
+        .from(documentRevisions)
+        .where(inArray(documentRevisions.title, titles));
+      const known = new Set([...existing, ...recorded].map(row => row.title));
+      
+      const missing = catechismSeed.filter(document => !known.has(document.title));
+      if (missing.length === 0) return 0;
+      
+      const seeded = await tx.insert(documents).values(missing).returning();
+      for (const document of seeded) {
+        await recordRevision(tx, document, "create");
       }
-    } as InsertDocument;
+      return seeded.length;
+    });
     
-    const papalHumanaeVitae = {
-      title: "Humanae Vitae (On Human Life)",
-      content: "Pope Paul VI's 1968 encyclical reaffirming the Church's teaching against artificial contraception. It explains the inseparable connection between the unitive and procreative aspects of marriage, and offers guidance on responsible parenthood and moral regulation of births.",
-      source: "Pope Paul VI",
-      category: "Encyclicals",
-      metadata: { 
-        year: 1968,
-        pope: "Paul VI",
-        type: "Moral Encyclical"
-      }
-    } as InsertDocument;
+    if (added > 0) {
+      console.log(`[DrizzleStorage] Seeded ${added} Catechism documents`);
+    }
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    await this.ready;
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    await this.ready;
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    await this.ready;
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    await this.ready;
+    const [user] = await this.db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Chat methods
+  async getChat(id: number): Promise<Chat | undefined> {
+    await this.ready;
+    const [chat] = await this.db.select().from(chats).where(eq(chats.id, id));
+    return chat;
+  }
+
+  async getChatsByUserId(userId: number): Promise<Chat[]> {
+    await this.ready;
+    return this.db.select().from(chats).where(eq(chats.userId, userId));
+  }
+
+  async createChat(insertChat: InsertChat): Promise<Chat> {
+    await this.ready;
+    const [chat] = await this.db
+      .insert(chats)
+      .values({
+        title: insertChat.title,
+        userId: insertChat.userId ?? null,
+        model: insertChat.model ?? null,
+        profileId: insertChat.profileId ?? null
+      })
+      .returning();
+    return chat;
+  }
+
+  async updateChatTitle(id: number, title: string): Promise<Chat | undefined> {
+    await this.ready;
+    const [chat] = await this.db
+      .update(chats)
+      .set({ title })
+      .where(eq(chats.id, id))
+      .returning();
+    return chat;
+  }
+
+  async updateChatModel(id: number, model: string | null): Promise<Chat | undefined> {
+    await this.ready;
+    const [chat] = await this.db
+      .update(chats)
+      .set({ model })
+      .where(eq(chats.id, id))
+      .returning();
+    return chat;
+  }
+
+  async deleteChat(id: number): Promise<boolean> {
+    await this.ready;
+    return this.db.transaction(async (tx) => {
+      await tx.delete(messages).where(eq(messages.chatId, id));
+      const deleted = await tx.delete(chats).where(eq(chats.id, id)).returning({ id: chats.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Message methods
+  async getMessage(id: number): Promise<Message | undefined> {
+    await this.ready;
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async getMessagesByChatId(chatId: number): Promise<Message[]> {
+    await this.ready;
+    return this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.chatId, chatId))
+      .orderBy(asc(messages.id));
+  }
+
+  async getMessagesPage(chatId: number, { before, limit }: MessagePageOptions): Promise<MessagePage> {
+    await this.ready;
+    // Fetch one extra row to find out whether there are older messages
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(before === undefined
+        ? eq(messages.chatId, chatId)
+        : and(eq(messages.chatId, chatId), lt(messages.id, before)))
+      .orderBy(desc(messages.id))
+      .limit(limit + 1);
     
-    // Saints documents with specific saints
-    const saintAquinas = {
-      title: "Saint Thomas Aquinas",
-      content: "Saint Thomas Aquinas (1225-1274) was a Dominican friar and Doctor of the Church whose works combined faith and reason. His Summa Theologica systematically explains theology through natural reason illuminated by faith. He developed the 'Five Ways' to prove God's existence and advanced Catholic philosophy and theology.",
-      source: "Catholic Tradition",
-      category: "Saints",
-      metadata: { 
-        lifespan: "1225-1274",
-        feast: "January 28",
-        title: "Doctor of the Church"
-      }
-    } as InsertDocument;
+    return {
+      messages: rows.slice(0, limit).reverse(),
+      hasMore: rows.length > limit
+    };
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    await this.ready;
+    const [message] = await this.db
+      .insert(messages)
+      .values({
+        chatId: insertMessage.chatId,
+        role: insertMessage.role,
+        content: insertMessage.content,
+        sources: insertMessage.sources ?? null,
+        metadata: insertMessage.metadata ?? null
+      })
+      .returning();
+    return message;
+  }
+
+  // Document methods
+  async getDocument(id: number): Promise<Document | undefined> {
+    await this.ready;
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocuments(): Promise<Document[]> {
+    await this.ready;
+    return this.db.select().from(documents).orderBy(asc(documents.id));
+  }
+
+  async getDocumentsByCategory(category: string): Promise<Document[]> {
+    await this.ready;
+    return this.db
+      .select()
+      .from(documents)
+      .where(eq(documents.category, category))
+      .orderBy(asc(documents.id));
+  }
+
+  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    await this.ready;
+    return this.db.transaction(async (tx) => {
+      const [document] = await tx
+        .insert(documents)
+        .values({ ...insertDocument, metadata: insertDocument.metadata ?? null })
+        .returning();
+      await recordRevision(tx, document, "create");
+      return document;
+    });
+  }
+
+  async createDocuments(insertDocuments: InsertDocument[]): Promise<Document[]> {
+    await this.ready;
+    if (insertDocuments.length === 0) return [];
     
-    const saintTeresa = {
-      title: "Saint Teresa of Ávila",
-      content: "Saint Teresa of Ávila (1515-1582) was a Spanish Carmelite nun, mystic, and Doctor of the Church. She reformed the Carmelite Order and wrote influential spiritual works including 'The Interior Castle' and her autobiography. Her teachings on prayer and contemplation continue to guide Catholics in developing their spiritual lives.",
-      source: "Catholic Tradition",
-      category: "Saints",
-      metadata: { 
-        lifespan: "1515-1582",
-        feast: "October 15",
-        title: "Doctor of the Church"
+    return this.db.transaction(async (tx) => {
+      const created = await tx
+        .insert(documents)
+        .values(insertDocuments.map(document => ({ ...document, metadata: document.metadata ?? null })))
+        .returning();
+      for (const document of created) {
+        await recordRevision(tx, document, "create");
       }
-    } as InsertDocument;
-    
-    // Scripture documents by section
-    const scriptureGospels = {
-      title: "The Gospels",
-      content: "The four Gospels—Matthew, Mark, Luke, and John—present the life, teachings, death, and resurrection of Jesus Christ. They form the heart of Scripture by revealing Jesus as the fulfillment of God's promises and the source of our salvation.",
-      source: "Holy Bible",
-      category: "Scripture",
-      metadata: { 
-        testament: "New Testament",
-        books: "Matthew, Mark, Luke, John",
-        type: "Gospel"
+      return created;
+    });
+  }
+
+  async updateDocument(id: number, changes: Partial<InsertDocument>): Promise<Document | undefined> {
+    await this.ready;
+    return this.db.transaction(async (tx) => {
+      const [document] = await tx
+        .update(documents)
+        .set(changes)
+        .where(eq(documents.id, id))
+        .returning();
+      if (document) {
+        await recordRevision(tx, document, "update");
       }
-    } as InsertDocument;
-    
-    const scripturePaulineLetters = {
-      title: "Pauline Letters",
-      content: "The letters attributed to Saint Paul address various early Christian communities, covering topics such as faith, salvation, the Church, and Christian moral life. They include Romans, 1 & 2 Corinthians, Galatians, Ephesians, Philippians, Colossians, 1 & 2 Thessalonians, 1 & 2 Timothy, Titus, and Philemon.",
-      source: "Holy Bible",
-      category: "Scripture",
-      metadata: { 
-        testament: "New Testament",
-        author: "Saint Paul",
-        type: "Epistle"
+      return document;
+    });
+  }
+
+  async deleteDocument(id: number): Promise<boolean> {
+    await this.ready;
+    return this.db.transaction(async (tx) => {
+      const [document] = await tx.delete(documents).where(eq(documents.id, id)).returning();
+      if (!document) return false;
+      
+      // Its history is kept, ending with the deleted version, so it can be restored
+      await recordRevision(tx, document, "delete");
+      return true;
+    });
+  }
+
+  async searchDocuments(query: string): Promise<Document[]> {
+    await this.ready;
+    const pattern = `%${query}%`;
+    return this.db
+      .select()
+      .from(documents)
+      .where(or(ilike(documents.title, pattern), ilike(documents.content, pattern)));
+  }
+
+  // Document revision methods
+  async getDocumentRevisions(documentId: number): Promise<DocumentRevision[]> {
+    await this.ready;
+    const revisions = await this.db
+      .select()
+      .from(documentRevisions)
+      .where(eq(documentRevisions.documentId, documentId))
+      .orderBy(asc(documentRevisions.revision));
+    return revisions as DocumentRevision[];
+  }
+
+  async restoreDocumentRevision(documentId: number, revision: number): Promise<Document | undefined> {
+    await this.ready;
+    return this.db.transaction(async (tx) => {
+      const [snapshot] = await tx
+        .select()
+        .from(documentRevisions)
+        .where(and(
+          eq(documentRevisions.documentId, documentId),
+          eq(documentRevisions.revision, revision)
+        ));
+      if (!snapshot) return undefined;
+      
+      const values = {
+        title: snapshot.title,
+        content: snapshot.content,
+        source: snapshot.source,
+        category: snapshot.category,
+        metadata: snapshot.metadata
+      };
+      
+      let [document] = await tx
+        .update(documents)
+        .set(values)
+        .where(eq(documents.id, documentId))
+        .returning();
+      // A deleted document comes back under its old id, which its history is recorded under
+      if (!document) {
+        [document] = await tx.insert(documents).values({ id: documentId, ...values }).returning();
       }
-    } as InsertDocument;
-    
-    const currentEvents = {
+      
+      await recordRevision(tx, document, "restore");
+      return document;
+    });
+  }
+
+  // Prompt profile methods
+  async getPromptProfiles(): Promise<PromptProfile[]> {
+    await this.ready;
+    const profiles = await this.db.select().from(promptProfiles).orderBy(asc(promptProfiles.name));
+    return profiles as PromptProfile[];
+  }
+
+  async getPromptProfile(id: string): Promise<PromptProfile | undefined> {
+    await this.ready;
+    const [profile] = await this.db.select().from(promptProfiles).where(eq(promptProfiles.id, id));
+    return profile as PromptProfile | undefined;
+  }
+
+  async createPromptProfile(insertProfile: InsertPromptProfile): Promise<PromptProfile> {
+    await this.ready;
+    const [profile] = await this.db.insert(promptProfiles).values(insertProfile).returning();
+    return profile as PromptProfile;
+  }
+
+  async updatePromptProfile(
+    id: string,
+    changes: Partial<Omit<InsertPromptProfile, "id">>
+  ): Promise<PromptProfile | undefined> {
+    await this.ready;
+    const [profile] = await this.db
+      .update(promptProfiles)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(promptProfiles.id, id))
+      .returning();
+    return profile as PromptProfile | undefined;
+  }
+}
+
+// Type checking for required fields, which MemStorage has no schema to enforce
+function checkInsertDocument(insertDocument: InsertDocument): void {
+  if (typeof insertDocument.title !== 'string') {
+    throw new Error('title is required and must be a string');
+  }
+  if (typeof insertDocument.content !== 'string') {
+    throw new Error('content is required and must be a string');
+  }
+  if (typeof insertDocument.source !== 'string') {
+    throw new Error('source is required and must be a string');
+  }
+  if (typeof insertDocument.category !== 'string') {
+    throw new Error('category is required and must be a string');
+  }
+}
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Append a snapshot of the document to its revision history, inside the transaction that changed it.
+// That change holds the document row's lock until the transaction commits, so concurrent changes
+// to one document take turns and each reads the number the previous one wrote; the unique
+// (document_id, revision) constraint turns any duplicate into an error rather than a second revision N.
+async function recordRevision(tx: Transaction, document: Document, action: DocumentRevisionAction): Promise<void> {
+  const [latest] = await tx
+    .select({ revision: max(documentRevisions.revision) })
+    .from(documentRevisions)
+    .where(eq(documentRevisions.documentId, document.id));
+  
+  await tx.insert(documentRevisions).values({
+    documentId: document.id,
+    revision: (latest?.revision ?? 0) + 1,
+    action,
+    title: document.title,
+    content: document.content,
+    source: document.source,
+    category: document.category,
+    metadata: document.metadata
+  });
+}
+
+// Default knowledge base, seeded into every storage backend on first start
+
+// Create multiple Catechism documents with specific sections
+const catechismPart1 = {
+  title: "Catechism of the Catholic Church: Part 1 - The Profession of Faith",
+  content: "Part One of the Catechism explores the Profession of Faith, including the Apostles' Creed and the nature of faith. Sections 26-184 cover 'Man's Capacity for God' and 'God Comes to Meet Man'. Sections 185-1065 cover 'The Creeds' including beliefs about the Trinity, Creation, Jesus Christ, and the Holy Spirit.",
+  source: "Vatican",
+  category: "Catechism",
+  metadata: { 
+    year: 1992,
+    section: "Part One (26-1065)",
+    paragraphs: "26-1065"
+  }
+} as InsertDocument;
+
+const catechismPart2 = {
+  title: "Catechism of the Catholic Church: Part 2 - The Celebration of the Christian Mystery",
+  content: "Part Two of the Catechism covers the Church's liturgy and the seven sacraments. Sections 1066-1209 explain the meaning and purpose of the liturgy. Sections 1210-1690 detail each of the seven sacraments: Baptism, Confirmation, Eucharist, Penance, Anointing of the Sick, Holy Orders, and Matrimony.",
+  source: "Vatican", 
+  category: "Catechism",
+  metadata: {
+    year: 1992,
+    section: "Part Two (1066-1690)",
+    paragraphs: "1066-1690"
+  }
+} as InsertDocument;
+
+const catechismPart3 = {
+  title: "Catechism of the Catholic Church: Part 3 - Life in Christ",
+  content: "Part Three of the Catechism explores Christian morality and ethical living. Sections 1691-1876 cover man's vocation to life in the Spirit. Sections 1877-2051 explain the Ten Commandments and living in community. Sections 2052-2557 provide detailed explanations of each of the Ten Commandments and their moral implications.",
+  source: "Vatican",
+  category: "Catechism",
+  metadata: {
+    year: 1992,
+    section: "Part Three (1691-2557)",
+    paragraphs: "1691-2557"
+  }
+} as InsertDocument;
+
+const catechismPart4 = {
+  title: "Catechism of the Catholic Church: Part 4 - Christian Prayer",
+  content: "Part Four of the Catechism focuses on prayer in the Christian life. Sections 2558-2649 cover the nature and importance of prayer. Sections 2650-2696 discuss the tradition of prayer in the Church. Sections 2697-2758 explain the life of prayer, including vocal prayer, meditation, and contemplation. Sections 2759-2865 provide a detailed examination of the Lord's Prayer.",
+  source: "Vatican",
+  category: "Catechism",
+  metadata: {
+    year: 1992,
+    section: "Part Four (2558-2865)",
+    paragraphs: "2558-2865"
+  }
+} as InsertDocument;
+
+// Vatican II document split by major constitutions
+const vaticanIILumenGentium = {
+  title: "Vatican II: Lumen Gentium (Dogmatic Constitution on the Church)",
+  content: "Lumen Gentium, the Dogmatic Constitution on the Church, explains the Church's nature as a sacrament of communion with God and unity among all people. It elaborates on the Church as the People of God, the hierarchical structure, the role of the laity, the universal call to holiness, and Mary's role in the Church.",
+  source: "Vatican",
+  category: "Council Documents",
+  metadata: { 
+    year: "1964",
+    document: "Lumen Gentium",
+    type: "Dogmatic Constitution"
+  }
+} as InsertDocument;
+
+const vaticanIIDeiVerbum = {
+  title: "Vatican II: Dei Verbum (Dogmatic Constitution on Divine Revelation)",
+  content: "Dei Verbum, the Dogmatic Constitution on Divine Revelation, addresses the relationship between scripture and tradition, the inspiration and interpretation of scripture, the Old and New Testaments, and scripture's place in the life of the Church.",
+  source: "Vatican",
+  category: "Council Documents",
+  metadata: { 
+    year: "1965",
+    document: "Dei Verbum",
+    type: "Dogmatic Constitution"
+  }
+} as InsertDocument;
+
+// Papal Encyclicals with specific documents
+const papalDiviniRedemptoris = {
+  title: "Divini Redemptoris (On Atheistic Communism)",
+  content: "Pope Pius XI's 1937 encyclical condemning atheistic communism and explaining Catholic social teaching as the remedy to communism's errors. It offers Christian principles of social order, emphasizing justice, charity, and human dignity.",
+  source: "Pope Pius XI",
+  category: "Encyclicals",
+  metadata: { 
+    year: 1937,
+    pope: "Pius XI",
+    type: "Social Encyclical"
+  }
+} as InsertDocument;
+
+const papalHumanaeVitae = {
+  title: "Humanae Vitae (On Human Life)",
+  content: "Pope Paul VI's 1968 encyclical reaffirming the Church's teaching against artificial contraception. It explains the inseparable connection between the unitive and procreative aspects of marriage, and offers guidance on responsible parenthood and moral regulation of births.",
+  source: "Pope Paul VI",
+  category: "Encyclicals",
+  metadata: { 
+    year: 1968,
+    pope: "Paul VI",
+    type: "Moral Encyclical"
+  }
+} as InsertDocument;
+
+// Saints documents with specific saints
+const saintAquinas = {
+  title: "Saint Thomas Aquinas",
+  content: "Saint Thomas Aquinas (1225-1274) was a Dominican friar and Doctor of the Church whose works combined faith and reason. His Summa Theologica systematically explains theology through natural reason illuminated by faith. He developed the 'Five Ways' to prove God's existence and advanced Catholic philosophy and theology.",
+  source: "Catholic Tradition",
+  category: "Saints",
+  metadata: { 
+    lifespan: "1225-1274",
+    feast: "January 28",
+    title: "Doctor of the Church"
+  }
+} as InsertDocument;
+
+const saintTeresa = {
+  title: "Saint Teresa of Ávila",
+  content: "Saint Teresa of Ávila (1515-1582) was a Spanish Carmelite nun, mystic, and Doctor of the Church. She reformed the Carmelite Order and wrote influential spiritual works including 'The Interior Castle' and her autobiography. Her teachings on prayer and contemplation continue to guide Catholics in developing their spiritual lives.",
+  source: "Catholic Tradition",
+  category: "Saints",
+  metadata: { 
+    lifespan: "1515-1582",
+    feast: "October 15",
+    title: "Doctor of the Church"
+  }
+} as InsertDocument;
+
+// Scripture documents by section
+const scriptureGospels = {
+  title: "The Gospels",
+  content: "The four Gospels—Matthew, Mark, Luke, and John—present the life, teachings, death, and resurrection of Jesus Christ. They form the heart of Scripture by revealing Jesus as the fulfillment of God's promises and the source of our salvation.",
+  source: "Holy Bible",
+  category: "Scripture",
+  metadata: { 
+    testament: "New Testament",
+    books: "Matthew, Mark, Luke, John",
+    type: "Gospel"
+  }
+} as InsertDocument;
+
+const scripturePaulineLetters = {
+  title: "Pauline Letters",
+  content: "The letters attributed to Saint Paul address various early Christian communities, covering topics such as faith, salvation, the Church, and Christian moral life. They include Romans, 1 & 2 Corinthians, Galatians, Ephesians, Philippians, Colossians, 1 & 2 Thessalonians, 1 & 2 Timothy, Titus, and Philemon.",
+  source: "Holy Bible",
+  category: "Scripture",
+  metadata: { 
+    testament: "New Testament",
+    author: "Saint Paul",
+    type: "Epistle"
+  }
+} as InsertDocument;
+
+const currentEvents = {
   title: "Current Papal Status",
   content: "Cardinal Robert Francis Prevost has been chosen as the 267th pope of the Catholic Church, taking the name Leo XIV, and proclaiming “Peace be with you all!” in his first greeting to the world. Pope Leo XIV, formerly Cardinal Robert Francis Prevost, appears on the loggia overlooking St. Peter’s Square on May 8, 2025.",
   source: "Vatican News",
@@ -506,25 +1050,100 @@ export class MemStorage implements IStorage {
   }
 } as InsertDocument;
 
-this.createDocument(currentEvents);
-    // Create more specific documents with section information
-    this.createDocument(catechismPart1);
-    this.createDocument(catechismPart2);
-    this.createDocument(catechismPart3);
-    this.createDocument(catechismPart4);
-    
-    this.createDocument(vaticanIILumenGentium);
-    this.createDocument(vaticanIIDeiVerbum);
-    
-    this.createDocument(papalDiviniRedemptoris);
-    this.createDocument(papalHumanaeVitae);
-    
-    this.createDocument(saintAquinas);
-    this.createDocument(saintTeresa);
-    
-    this.createDocument(scriptureGospels);
-    this.createDocument(scripturePaulineLetters);
+// The bundled Catechism paragraphs, which "CCC 1730" lookups are answered from
+const catechismSeed = catechismDocuments(CATECHISM);
+
+const defaultDocuments: InsertDocument[] = [
+  currentEvents,
+  catechismPart1,
+  catechismPart2,
+  catechismPart3,
+  catechismPart4,
+  vaticanIILumenGentium,
+  vaticanIIDeiVerbum,
+  papalDiviniRedemptoris,
+  papalHumanaeVitae,
+  saintAquinas,
+  saintTeresa,
+  scriptureGospels,
+  scripturePaulineLetters,
+  ...catechismSeed
+];
+
+// Default prompt profiles, seeded into every storage backend; `catechist` is the default
+const defaultPromptProfiles: InsertPromptProfile[] = [
+  {
+    id: "catechist",
+    name: "General catechist",
+    description: "Clear, warm explanations of Catholic teaching for any adult",
+    instructions:
+      "Answer as a knowledgeable parish catechist. Explain Catholic teaching clearly and accessibly " +
+      "for users of any background, defining theological terms the first time you use them. " +
+      "Be warm and encouraging, and where it helps, show how the teaching bears on daily Christian life.",
+    answerLength: "medium",
+    retrieval: { preferredCategories: ["Catechism"] }
+  },
+  {
+    id: "apologetics",
+    name: "Apologetics",
+    description: "Reasons for the faith and charitable answers to common objections",
+    instructions:
+      "Help the user give reasons for the hope that is in them (1 Peter 3:15). Present the Church's " +
+      "teaching together with the arguments from Scripture, Tradition and reason that support it. " +
+      "When a question raises an objection, state it fairly in its strongest form before answering it. " +
+      "Stay charitable towards other Christians, other religions and non-believers, and never mock opposing views.",
+    answerLength: "long",
+    retrieval: { limit: 4, preferredCategories: ["Scripture", "Catechism", "Council Documents"] }
+  },
+  {
+    id: "youth",
+    name: "Youth and children",
+    description: "Simple, friendly answers for young people and families",
+    instructions:
+      "The user is a child or teenager, or a parent reading along with one. Use simple words and short " +
+      "sentences, and explain ideas with concrete examples and stories from Scripture and the lives of the " +
+      "saints. Be friendly and encouraging. Keep every answer appropriate for young readers, and for " +
+      "difficult or personal topics gently suggest talking with a parent, catechist or priest.",
+    answerLength: "short",
+    retrieval: { limit: 2, preferredCategories: ["Scripture", "Saints"] }
+  },
+  {
+    id: "rcia",
+    name: "RCIA inquirer",
+    description: "For people exploring the Catholic faith or preparing to enter the Church",
+    instructions:
+      "The user is exploring the Catholic faith, possibly preparing for reception into the Church through " +
+      "the Order of Christian Initiation of Adults (RCIA/OCIA). Assume little prior knowledge: explain " +
+      "Catholic vocabulary, practices and the reasons behind them, and note where Catholics differ from " +
+      "other Christians without disparaging anyone. Be welcoming and patient, never pressuring, and " +
+      "encourage the user to bring their questions to their parish's RCIA team.",
+    answerLength: "medium",
+    retrieval: { preferredCategories: ["Catechism", "Scripture"] }
+  },
+  {
+    id: "academic",
+    name: "Academic theology",
+    description: "Precise answers for students of theology, with attention to sources and authority",
+    instructions:
+      "Answer for a student or scholar of theology. Use precise theological terminology, and distinguish " +
+      "defined dogma, authoritative doctrine and legitimate theological opinion. Where relevant, note how a " +
+      "teaching developed historically and which magisterial documents define it, quoting the sources " +
+      "directly rather than paraphrasing them.",
+    answerLength: "long",
+    retrieval: { limit: 5, preferredCategories: ["Council Documents", "Encyclicals", "Catechism"] }
+  }
+];
+
+// Use Postgres when a database is configured, otherwise fall back to in-memory storage
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    const { pool, db } = createDatabase(process.env.DATABASE_URL);
+    console.log("[Storage] Using Postgres storage");
+    return new DrizzleStorage(db, pool);
   }
+
+  console.log("[Storage] DATABASE_URL not set, using in-memory storage");
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
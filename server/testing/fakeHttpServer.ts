@@ -0,0 +1,82 @@
+import http from "http";
+import type { AddressInfo, Socket } from "net";
+
+export type FakeResponse = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+export interface FakeHttpServer {
+  // Base URL, e.g. http://127.0.0.1:54321
+  url: string;
+  // Requests received so far
+  requests: number;
+  // Answer the next requests with these handlers, in order; the last one repeats
+  respond(...responses: FakeResponse[]): void;
+  close(): Promise<void>;
+}
+
+/**
+ * A local HTTP server standing in for an LLM provider in tests
+ */
+export async function startFakeHttpServer(): Promise<FakeHttpServer> {
+  let responses: FakeResponse[] = [];
+  const sockets = new Set<Socket>();
+
+  const server = http.createServer((req, res) => {
+    const respond = responses.length > 1 ? responses.shift()! : responses[0];
+    fake.requests++;
+    req.resume();
+
+    if (respond) {
+      respond(req, res);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  // Hanging responses mustn't keep close() waiting
+  server.on("connection", socket => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+  const fake: FakeHttpServer = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests: 0,
+    respond(...next) {
+      responses = next;
+    },
+    close() {
+      sockets.forEach(socket => socket.destroy());
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+
+  return fake;
+}
+
+/**
+ * Reply with a status and JSON body, and optionally headers such as Retry-After
+ */
+export function json(status: number, body: unknown, headers: Record<string, string> = {}): FakeResponse {
+  return (_req, res) => {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+  };
+}
+
+/**
+ * Stream these lines back, each followed by a newline
+ */
+export function lines(...content: string[]): FakeResponse {
+  return (_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    res.end(content.map(line => `${line}\n`).join(""));
+  };
+}
+
+/**
+ * Never answer, so the client times out or aborts
+ */
+export function hang(): FakeResponse {
+  return () => {};
+}
@@ -0,0 +1,36 @@
+import { newDb } from "pg-mem";
+import type pg from "pg";
+import { createDatabase, type Database } from "../db";
+
+/**
+ * An in-memory Postgres stand-in for tests, with the same Pool interface as `pg`.
+ * Set TEST_DATABASE_URL to run against a real Postgres instead.
+ */
+export function createTestDatabase(): { pool: pg.Pool; db: Database } {
+  if (process.env.TEST_DATABASE_URL) {
+    return createDatabase(process.env.TEST_DATABASE_URL);
+  }
+
+  // pg-mem rejects the migrator's CREATE TABLE IF NOT EXISTS once the table exists, unless its
+  // AST coverage check is off; restarts (a second storage on one database) need that
+  const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+
+  // pg-mem doesn't support the per-query type parsers and array rows Drizzle asks for,
+  // so drop the parsers and turn its object rows into arrays (their keys are in column order)
+  class DrizzleCompatiblePool extends Pool {
+    async query(config: any, values?: any) {
+      if (!config || typeof config !== "object") {
+        return super.query(config, values);
+      }
+
+      const { types, rowMode, ...query } = config;
+      const result = await super.query(query, values);
+      if (rowMode === "array") {
+        result.rows = result.rows.map((row: Record<string, unknown>) => Object.values(row));
+      }
+      return result;
+    }
+  }
+
+  return createDatabase(new DrizzleCompatiblePool() as pg.Pool);
+}
@@ -1,14 +1,25 @@
 // Custom type definitions to work around schema inference issues
 
+export interface ExplicitUser {
+  id: number;
+  username: string;
+  password: string; // scrypt hash, see server/auth.ts
+  role: "user" | "admin";
+}
+
 export interface ExplicitInsertChat {
   title: string;
   userId?: number | null;
+  model?: string | null;
+  profileId?: string | null;
 }
 
 export interface ExplicitChat {
   id: number;
   title: string;
   userId: number | null;
+  model: string | null;
+  profileId: string | null;
   createdAt: Date;
 }
 
@@ -17,6 +28,7 @@ export interface ExplicitInsertMessage {
   role: string;
   content: string;
   sources?: any;
+  metadata?: Record<string, unknown> | null;
 }
 
 export interface ExplicitMessage {
@@ -26,6 +38,7 @@ export interface ExplicitMessage {
   content: string;
   createdAt: Date;
   sources: any | null;
+  metadata: Record<string, unknown> | null;
 }
 
 export interface ExplicitInsertDocument {
@@ -33,7 +46,7 @@ export interface ExplicitInsertDocument {
   content: string;
   source: string;
   category: string;
-  metadata?: any;
+  metadata?: Record<string, unknown> | null;
 }
 
 export interface ExplicitDocument {
@@ -42,5 +55,31 @@ export interface ExplicitDocument {
   content: string;
   source: string;
   category: string;
-  metadata: any | null;
-}
\ No newline at end of file
+  metadata: Record<string, unknown> | null;
+}
+
+// "delete" records the version a document had when it was deleted
+export type DocumentRevisionAction = "create" | "update" | "delete" | "restore";
+
+export interface ExplicitDocumentRevision {
+  id: number;
+  documentId: number;
+  revision: number;
+  action: DocumentRevisionAction;
+  title: string;
+  content: string;
+  source: string;
+  category: string;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+export interface ExplicitPromptProfile {
+  id: string;
+  name: string;
+  description: string;
+  instructions: string;
+  answerLength: "short" | "medium" | "long";
+  retrieval: { limit?: number; preferredCategories?: string[] } | null;
+  updatedAt: Date;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,6 +7,7 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("user"), // 'user' or 'admin'
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -17,17 +18,47 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Credentials accepted when registering an account
+export const credentialsSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[A-Za-z0-9_.-]+$/, "Username may only contain letters, numbers, '.', '_' and '-'"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be at most 128 characters"),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+// User as returned by the API, without the password hash
+export type PublicUser = Pick<User, "id" | "username" | "role">;
+
+export const userRoles = ["user", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
 // Chats schema
 export const chats = pgTable("chats", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   userId: integer("user_id").references(() => users.id),
+  // Model the chat is answered with (see GET /api/models); null for the server default
+  model: text("model"),
+  // Prompt profile chosen when the chat was created; null for the default profile
+  profileId: text("profile_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertChatSchema = createInsertSchema(chats).pick({
   title: true,
   userId: true,
+}).extend({
+  // Omitted or null for the server's default model and prompt profile
+  model: z.string().nullish(),
+  profileId: z.string().nullish(),
 });
 
 export type InsertChat = z.infer<typeof insertChatSchema>;
@@ -40,6 +71,8 @@ export const messages = pgTable("messages", {
   role: text("role").notNull(), // 'user' or 'assistant'
   content: text("content").notNull(),
   sources: jsonb("sources"),
+  // Processing details, e.g. the standalone search query a follow-up question was rewritten to
+  metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -48,6 +81,7 @@ export const insertMessageSchema = createInsertSchema(messages).pick({
   role: true,
   content: true,
   sources: true,
+  metadata: true,
 });
 
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
@@ -68,21 +102,98 @@ export const insertDocumentSchema = createInsertSchema(documents).pick({
   content: true,
   source: true,
   category: true,
-  metadata: true,
+}).extend({
+  // Free-form details such as year, author or language; null clears them
+  metadata: z.record(z.string(), z.any()).nullish(),
 });
 
+// PATCH bodies: any subset of the document fields, but at least one
+export const updateDocumentSchema = insertDocumentSchema.partial().refine(
+  changes => Object.keys(changes).length > 0,
+  { message: "At least one field must be provided" }
+);
+
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
 
+// Document revision history: a snapshot of the document after every change
+export const documentRevisions = pgTable("document_revisions", {
+  id: serial("id").primaryKey(),
+  // Not a foreign key: the history outlives a deleted document, so a restore can bring it back
+  documentId: integer("document_id").notNull(),
+  revision: integer("revision").notNull(), // 1 for the document as created, then counting up
+  action: text("action").notNull(), // 'create', 'update', 'delete' or 'restore'
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  source: text("source").notNull(),
+  category: text("category").notNull(),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.documentId, table.revision),
+]);
+
+export type DocumentRevision = typeof documentRevisions.$inferSelect;
+
+// Prompt profiles: the audience, tone and retrieval preferences an answer is written for
+export const promptProfiles = pgTable("prompt_profiles", {
+  id: text("id").primaryKey(), // Slug, e.g. 'apologetics'
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  // Added to the system prompt, after the rules every profile shares
+  instructions: text("instructions").notNull(),
+  answerLength: text("answer_length").notNull().default("medium"), // 'short', 'medium' or 'long'
+  // { limit?: number, preferredCategories?: string[] }
+  retrieval: jsonb("retrieval"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const answerLengths = ["short", "medium", "long"] as const;
+export type AnswerLength = typeof answerLengths[number];
+
+export const profileRetrievalSchema = z.object({
+  // Number of sources retrieved for each question
+  limit: z.number().int().min(1).max(10).optional(),
+  // Document categories ranked above equally relevant sources from other categories
+  preferredCategories: z.array(z.string().min(1)).optional(),
+});
+
+export const insertPromptProfileSchema = z.object({
+  id: z
+    .string()
+    .min(2)
+    .max(40)
+    .regex(/^[a-z0-9-]+$/, "Profile ids may only contain lowercase letters, numbers and '-'"),
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().min(1).max(300),
+  instructions: z.string().trim().min(1).max(4000),
+  answerLength: z.enum(answerLengths).default("medium"),
+  retrieval: profileRetrievalSchema.optional(),
+});
+
+// PATCH bodies: any subset of the editable fields, but at least one
+export const updatePromptProfileSchema = insertPromptProfileSchema.omit({ id: true }).partial().refine(
+  changes => Object.keys(changes).length > 0,
+  { message: "At least one field must be provided" }
+);
+
+export type InsertPromptProfile = z.infer<typeof insertPromptProfileSchema>;
+
+// Languages questions are answered in and the interface is translated into (ISO 639-1 codes)
+export const languageCodes = ["en", "es", "pt", "pl", "vi", "tl"] as const;
+export type LanguageCode = typeof languageCodes[number];
+
 // Source References for messages
 export const sourceReference = z.object({
-  id: z.number(),
+  id: z.number(), // Parent document id; 0 for verses and paragraphs looked up in the bundled Bible and Catechism
+  passageId: z.string().optional(), // Passage within the document, "<documentId>:<index>"
   title: z.string(),
   content: z.string().optional(),
   source: z.string(),
   category: z.string().optional(),
   section: z.string().optional(),
   relevanceScore: z.number().optional(),
+  language: z.string().optional(), // Set for translated documents, from their `language` metadata
 });
 
 export type SourceReference = z.infer<typeof sourceReference>;